@@ -0,0 +1,248 @@
+import SwiftUI
+import WidgetKit
+
+// Must match the App Groups entitlement and PixelPawWidgetBridgeModule on the app side.
+private let appGroupId = "group.com.studioaryeon.pixelpaw"
+private let snapshotKey = "widgetSnapshot"
+private let supportedSnapshotVersion = 1
+
+struct WidgetTodo: Decodable, Identifiable {
+  let id: String
+  let title: String
+  let quadrant: String
+  let dueDate: String?
+  let overdue: Bool
+}
+
+struct WidgetPet: Decodable {
+  let name: String
+  let emoji: String
+  let mood: String
+  let moodLabel: String
+  let level: Int
+}
+
+// Mirrors WidgetSnapshot in src/lib/widgetSnapshot.ts.
+struct WidgetSnapshot: Decodable {
+  let version: Int
+  let generatedAt: Double
+  let dateKey: String
+  let pet: WidgetPet
+  let streak: Int
+  let openCount: Int
+  let todos: [WidgetTodo]
+
+  static let placeholder = WidgetSnapshot(
+    version: supportedSnapshotVersion,
+    generatedAt: 0,
+    dateKey: "",
+    pet: WidgetPet(name: "콩콩이", emoji: "🐥", mood: "good", moodLabel: "기분 좋음", level: 1),
+    streak: 0,
+    openCount: 1,
+    todos: [WidgetTodo(id: "placeholder", title: "오늘의 퀘스트", quadrant: "do", dueDate: nil, overdue: false)]
+  )
+
+  static func load() -> WidgetSnapshot? {
+    guard
+      let json = UserDefaults(suiteName: appGroupId)?.string(forKey: snapshotKey),
+      let data = json.data(using: .utf8),
+      let snapshot = try? JSONDecoder().decode(WidgetSnapshot.self, from: data),
+      snapshot.version == supportedSnapshotVersion
+    else {
+      return nil
+    }
+    return snapshot
+  }
+
+  private static let dateKeyFormatter: DateFormatter = {
+    let formatter = DateFormatter()
+    formatter.calendar = Calendar(identifier: .gregorian)
+    formatter.locale = Locale(identifier: "en_US_POSIX")
+    formatter.dateFormat = "yyyy-MM-dd"
+    return formatter
+  }()
+
+  // A snapshot from an earlier day lists yesterday's todos; the widget asks the user to open the app.
+  func isStale(at date: Date) -> Bool {
+    dateKey != WidgetSnapshot.dateKeyFormatter.string(from: date)
+  }
+}
+
+struct SnapshotEntry: TimelineEntry {
+  let date: Date
+  let snapshot: WidgetSnapshot?
+}
+
+struct SnapshotProvider: TimelineProvider {
+  func placeholder(in context: Context) -> SnapshotEntry {
+    SnapshotEntry(date: Date(), snapshot: .placeholder)
+  }
+
+  func getSnapshot(in context: Context, completion: @escaping (SnapshotEntry) -> Void) {
+    completion(SnapshotEntry(date: Date(), snapshot: WidgetSnapshot.load() ?? .placeholder))
+  }
+
+  // The app reloads timelines whenever it writes a snapshot; the midnight refresh only flips
+  // the widget into its stale state when the app was not opened that day.
+  func getTimeline(in context: Context, completion: @escaping (Timeline<SnapshotEntry>) -> Void) {
+    let now = Date()
+    let midnight = Calendar.current.startOfDay(for: now.addingTimeInterval(24 * 60 * 60))
+    let snapshot = WidgetSnapshot.load()
+    let entries = [
+      SnapshotEntry(date: now, snapshot: snapshot),
+      SnapshotEntry(date: midnight, snapshot: snapshot),
+    ]
+    completion(Timeline(entries: entries, policy: .after(midnight)))
+  }
+}
+
+private let quadrantColors: [String: Color] = [
+  "do": Color(red: 0.93, green: 0.84, blue: 0.60),
+  "schedule": Color(red: 0.74, green: 0.85, blue: 0.65),
+  "delegate": Color(red: 0.70, green: 0.85, blue: 0.87),
+  "eliminate": Color(red: 0.85, green: 0.85, blue: 0.82),
+]
+
+private let widgetBackground = Color(red: 0.97, green: 0.98, blue: 0.95)
+private let ink = Color(red: 0.18, green: 0.22, blue: 0.19)
+private let mutedInk = Color(red: 0.43, green: 0.47, blue: 0.42)
+private let overdueInk = Color(red: 0.69, green: 0.32, blue: 0.24)
+
+struct TodoRow: View {
+  let todo: WidgetTodo
+
+  var body: some View {
+    HStack(spacing: 6) {
+      RoundedRectangle(cornerRadius: 2)
+        .fill(quadrantColors[todo.quadrant] ?? mutedInk)
+        .frame(width: 4, height: 14)
+      Text(todo.title)
+        .font(.system(size: 12, weight: .medium))
+        .foregroundColor(todo.overdue ? overdueInk : ink)
+        .lineLimit(1)
+      Spacer(minLength: 0)
+    }
+  }
+}
+
+struct EmptyStateView: View {
+  let message: String
+
+  var body: some View {
+    Text(message)
+      .font(.system(size: 12, weight: .medium))
+      .foregroundColor(mutedInk)
+      .multilineTextAlignment(.leading)
+  }
+}
+
+struct PetBadge: View {
+  let snapshot: WidgetSnapshot
+
+  var body: some View {
+    VStack(alignment: .leading, spacing: 2) {
+      Text(snapshot.pet.emoji).font(.system(size: 30))
+      Text("\(snapshot.pet.name) Lv.\(snapshot.pet.level)")
+        .font(.system(size: 12, weight: .bold))
+        .foregroundColor(ink)
+        .lineLimit(1)
+      Text(snapshot.pet.moodLabel)
+        .font(.system(size: 11, weight: .medium))
+        .foregroundColor(mutedInk)
+        .lineLimit(1)
+      Text("🔥 \(snapshot.streak)일")
+        .font(.system(size: 11, weight: .semibold))
+        .foregroundColor(ink)
+    }
+  }
+}
+
+struct SmallWidgetView: View {
+  let entry: SnapshotEntry
+
+  var body: some View {
+    if let snapshot = entry.snapshot, !snapshot.isStale(at: entry.date) {
+      VStack(alignment: .leading, spacing: 6) {
+        PetBadge(snapshot: snapshot)
+        Spacer(minLength: 0)
+        if let first = snapshot.todos.first {
+          TodoRow(todo: first)
+          Text("남은 퀘스트 \(snapshot.openCount)개")
+            .font(.system(size: 10, weight: .medium))
+            .foregroundColor(mutedInk)
+        } else {
+          EmptyStateView(message: "오늘 할 일 끝!")
+        }
+      }
+      .frame(maxWidth: .infinity, maxHeight: .infinity, alignment: .topLeading)
+    } else {
+      EmptyStateView(message: "앱을 열어 오늘의 퀘스트를 불러와 주세요.")
+    }
+  }
+}
+
+struct MediumWidgetView: View {
+  let entry: SnapshotEntry
+
+  var body: some View {
+    if let snapshot = entry.snapshot, !snapshot.isStale(at: entry.date) {
+      HStack(alignment: .top, spacing: 12) {
+        PetBadge(snapshot: snapshot)
+          .frame(width: 96, alignment: .leading)
+        VStack(alignment: .leading, spacing: 5) {
+          Text("오늘의 퀘스트 \(snapshot.openCount)")
+            .font(.system(size: 13, weight: .bold))
+            .foregroundColor(ink)
+          if snapshot.todos.isEmpty {
+            EmptyStateView(message: "남은 할 일이 없어요. 오늘도 잘했어요.")
+          } else {
+            ForEach(snapshot.todos) { todo in
+              TodoRow(todo: todo)
+            }
+            if snapshot.openCount > snapshot.todos.count {
+              Text("+\(snapshot.openCount - snapshot.todos.count)개 더 있음")
+                .font(.system(size: 10, weight: .medium))
+                .foregroundColor(mutedInk)
+            }
+          }
+          Spacer(minLength: 0)
+        }
+      }
+      .frame(maxWidth: .infinity, maxHeight: .infinity, alignment: .topLeading)
+    } else {
+      EmptyStateView(message: "앱을 열어 오늘의 퀘스트를 불러와 주세요.")
+    }
+  }
+}
+
+struct PixelPawWidgetEntryView: View {
+  @Environment(\.widgetFamily) private var family
+  let entry: SnapshotEntry
+
+  var body: some View {
+    let content = Group {
+      if family == .systemMedium {
+        MediumWidgetView(entry: entry)
+      } else {
+        SmallWidgetView(entry: entry)
+      }
+    }
+    if #available(iOSApplicationExtension 17.0, *) {
+      content.containerBackground(widgetBackground, for: .widget)
+    } else {
+      content.padding().background(widgetBackground)
+    }
+  }
+}
+
+@main
+struct PixelPawWidget: Widget {
+  var body: some WidgetConfiguration {
+    StaticConfiguration(kind: "PixelPawWidget", provider: SnapshotProvider()) { entry in
+      PixelPawWidgetEntryView(entry: entry)
+    }
+    .configurationDisplayName("Pixel Paw")
+    .description("오늘의 할 일과 펫 상태를 홈 화면에서 확인해요.")
+    .supportedFamilies([.systemSmall, .systemMedium])
+  }
+}
@@ -0,0 +1,26 @@
+import ExpoModulesCore
+import WidgetKit
+
+// Must match the App Groups entitlement of both the app and the PixelPawWidget extension.
+private let appGroupId = "group.com.studioaryeon.pixelpaw"
+private let snapshotKey = "widgetSnapshot"
+
+public class PixelPawWidgetBridgeModule: Module {
+  public func definition() -> ModuleDefinition {
+    Name("PixelPawWidgetBridge")
+
+    AsyncFunction("setSnapshot") { (json: String) -> Bool in
+      guard let defaults = UserDefaults(suiteName: appGroupId) else {
+        return false
+      }
+      defaults.set(json, forKey: snapshotKey)
+      WidgetCenter.shared.reloadAllTimelines()
+      return true
+    }
+
+    AsyncFunction("clearSnapshot") {
+      UserDefaults(suiteName: appGroupId)?.removeObject(forKey: snapshotKey)
+      WidgetCenter.shared.reloadAllTimelines()
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Pixel sprite data for pets.
+ * Every sprite is a 12x12 grid; each character is a palette key and '.' is transparent.
+ * Stage sprites are assembled from a top (rows 0-2) and a body (rows 3-11), or drawn whole.
+ */
+
+import type { CreatureType } from '../store/petLoopStore';
+
+export const SPRITE_SIZE = 12;
+
+export type SpritePalette = Record<string, string>;
+
+export interface StageSprite {
+  name: string;
+  rows: string[];
+  palette: SpritePalette;
+}
+
+// Eyes sit on this row and columns FACE_COL..FACE_COL+3; the mouth row is right below.
+export const FACE_ROW = 5;
+export const FACE_COL = 4;
+
+const SHARED_COLORS: SpritePalette = {
+  e: '#2b2b2b',
+  m: '#d0565a',
+  c: '#f3a0a0',
+};
+
+const EGG = [
+  '....oooo....',
+  '...obbbbo...',
+  '..obblbbbo..',
+  '..oblbbbbo..',
+  '.obbbbbbbbo.',
+  '.obbbbbbbbo.',
+  '.obbbbbbbbo.',
+  '.obabbbbabo.',
+  '.obbbbbbbbo.',
+  '..obbbbbbo..',
+  '...oooooo...',
+  '............',
+];
+
+const SMALL_BODY = [
+  '...oooooo...',
+  '..obbbbbbo..',
+  '.obbbbbbbbo.',
+  '.obbbaabbbo.',
+  '.oblbbbbbbo.',
+  '.obllbbbbbo.',
+  '..obbbbbbo..',
+  '...oooooo...',
+  '...f....f...',
+];
+
+const LARGE_BODY = [
+  '..oooooooo..',
+  '.obbbbbbbbo.',
+  'obbbbbbbbbbo',
+  'obbbbaabbbbo',
+  'oblbbbbbbbbo',
+  'obllbbbbbbbo',
+  'obbbbbbbbbbo',
+  '.oooooooooo.',
+  '..ff....ff..',
+];
+
+const WINGED_BODY = [
+  '..oooooooo..',
+  '.obbbbbbbbo.',
+  'obbbbbbbbbbo',
+  'obbbbaabbbbo',
+  'lobbbbbbbbol',
+  'llobbbbbbbll',
+  'lobbbbbbbbol',
+  '.oooooooooo.',
+  '..ff....ff..',
+];
+
+const TOPS = {
+  none: ['............', '............', '............'],
+  tuft: ['............', '......a.....', '.....a......'],
+  comb: ['....a.a.....', '...aaaaa....', '....aaa.....'],
+  leaf: ['......aa....', '.....aa.....', '.....a......'],
+  flower: ['....lll.....', '...lalal....', '....lll.....'],
+  shortEars: ['............', '...ob..bo...', '...ob..bo...'],
+  longEars: ['..obo..obo..', '..olo..olo..', '..obo..obo..'],
+  moonEars: ['a.obo..obo..', '..olo..olo.a', '..obo..obo..'],
+  kittenEars: ['............', '..oo....oo..', '..obo..obo..'],
+  catEars: ['.oo......oo.', '.obo....obo.', '.obbo..obbo.'],
+  mane: ['...aaaaaa...', '.aaaaaaaaaa.', 'aaa......aaa'],
+  spikes: ['............', '.....a.a....', '....aaaaa...'],
+  horns: ['.a........a.', '..a.a..a.a..', '...aaaaaa...'],
+};
+
+const compose = (top: string[], body: string[]): string[] => [...top, ...body];
+
+const palette = (colors: SpritePalette): SpritePalette => ({ ...SHARED_COLORS, ...colors });
+
+export const PET_STAGE_SPRITES: Record<CreatureType, StageSprite[]> = {
+  chick: [
+    {
+      name: '알',
+      rows: EGG,
+      palette: palette({ o: '#8c7a5b', b: '#fbf3e0', l: '#ffffff', a: '#e9cf9b' }),
+    },
+    {
+      name: '병아리',
+      rows: compose(TOPS.tuft, SMALL_BODY),
+      palette: palette({ o: '#9a7a1f', b: '#ffd94a', l: '#fff2a6', a: '#f29a38', f: '#f29a38' }),
+    },
+    {
+      name: '암탉',
+      rows: compose(TOPS.comb, LARGE_BODY),
+      palette: palette({ o: '#7d6f61', b: '#fffaf2', l: '#ffffff', a: '#e3463c', f: '#f29a38' }),
+    },
+  ],
+  sprout: [
+    {
+      name: '씨앗',
+      rows: EGG,
+      palette: palette({ o: '#5b3f26', b: '#a7784a', l: '#c99a6a', a: '#7d5634' }),
+    },
+    {
+      name: '새싹',
+      rows: compose(TOPS.leaf, SMALL_BODY),
+      palette: palette({ o: '#3d6b35', b: '#9fd67f', l: '#d2f1bd', a: '#5fae4d', f: '#7d5634' }),
+    },
+    {
+      name: '꽃나무',
+      rows: compose(TOPS.flower, LARGE_BODY),
+      palette: palette({ o: '#3d6b35', b: '#7fc46a', l: '#ffb7d5', a: '#f7d54a', f: '#7d5634' }),
+    },
+  ],
+  bunny: [
+    {
+      name: '아기 토끼',
+      rows: compose(TOPS.shortEars, SMALL_BODY),
+      palette: palette({ o: '#8a7f86', b: '#f4eef2', l: '#ffffff', a: '#f3a0b5', f: '#d9cfd6' }),
+    },
+    {
+      name: '토끼',
+      rows: compose(TOPS.longEars, SMALL_BODY),
+      palette: palette({ o: '#8a7f86', b: '#f4eef2', l: '#ffd3de', a: '#f3a0b5', f: '#d9cfd6' }),
+    },
+    {
+      name: '달토끼',
+      rows: compose(TOPS.moonEars, LARGE_BODY),
+      palette: palette({ o: '#6e6a8f', b: '#eceaff', l: '#ffd3de', a: '#f7d54a', f: '#c9c4ee' }),
+    },
+  ],
+  kitten: [
+    {
+      name: '아기 고양이',
+      rows: compose(TOPS.kittenEars, SMALL_BODY),
+      palette: palette({ o: '#8a5a32', b: '#f6c28b', l: '#fde3c4', a: '#e48a8a', f: '#d99a5e' }),
+    },
+    {
+      name: '고양이',
+      rows: compose(TOPS.catEars, LARGE_BODY),
+      palette: palette({ o: '#8a5a32', b: '#f2ac66', l: '#fde3c4', a: '#e48a8a', f: '#d99a5e' }),
+    },
+    {
+      name: '사자',
+      rows: compose(TOPS.mane, LARGE_BODY),
+      palette: palette({ o: '#7a4a1e', b: '#f3c064', l: '#fde7b0', a: '#b86a2a', f: '#d99a5e' }),
+    },
+  ],
+  dino: [
+    {
+      name: '공룡알',
+      rows: EGG,
+      palette: palette({ o: '#4f6b4a', b: '#e7f1dc', l: '#ffffff', a: '#7fb06f' }),
+    },
+    {
+      name: '아기 공룡',
+      rows: compose(TOPS.spikes, SMALL_BODY),
+      palette: palette({ o: '#35603a', b: '#7fcf78', l: '#c4efbd', a: '#f29a38', f: '#5fae4d' }),
+    },
+    {
+      name: '드래곤',
+      rows: compose(TOPS.horns, WINGED_BODY),
+      palette: palette({ o: '#2f4f6b', b: '#6fb3d9', l: '#b8e2f7', a: '#f7d54a', f: '#4f87ad' }),
+    },
+  ],
+};
+
+/**
+ * Face patches stamped at FACE_ROW/FACE_COL. '_' keeps the underlying pixel.
+ * The second row covers the mouth, so eating frames can open the beak or snout.
+ */
+export const FACE_PATCHES = {
+  open: ['e__e', '____'],
+  blink: ['o__o', '____'],
+  blush: ['e__e', 'c__c'],
+  sleepy: ['o__o', 'c__c'],
+  munchOpen: ['e__e', '_mm_'],
+  munchClosed: ['o__o', '_aa_'],
+};
+
+export type FacePatchId = keyof typeof FACE_PATCHES;
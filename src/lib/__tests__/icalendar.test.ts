@@ -0,0 +1,156 @@
+import type { TodoItem } from '../../store/petLoopStore';
+import { parseIcsTodos, serializeTodosToIcs } from '../icalendar';
+
+const TODAY = '2026-10-19';
+const NOW = new Date(Date.UTC(2026, 9, 19, 0, 0));
+
+const makeTodo = (id: string, patch: Partial<TodoItem> = {}): TodoItem => ({
+  id,
+  title: `할 일 ${id}`,
+  startDate: TODAY,
+  startTime: null,
+  endTime: null,
+  dueDateMode: 'date',
+  dueDate: '2026-10-21',
+  importance: true,
+  urgency: false,
+  done: false,
+  rewardCoins: 18,
+  rewardXp: 16,
+  createdAt: NOW.getTime(),
+  seriesId: null,
+  reminder: null,
+  subtasks: [],
+  tagIds: [],
+  ...patch,
+});
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const propertyLines = (ics: string, name: string) =>
+  ics.split('\r\n').filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+describe('serializeTodosToIcs / parseIcsTodos', () => {
+  it.each(['VTODO', 'VEVENT'] as const)('round-trips a %s', (kind) => {
+    const todo = makeTodo('a', { title: '분기 보고서' });
+    const { todos, skipped } = parseIcsTodos(serializeTodosToIcs([todo], { kind, now: NOW }));
+
+    expect(skipped).toBe(0);
+    expect(todos).toEqual([
+      {
+        title: '분기 보고서',
+        startDate: TODAY,
+        dueDateMode: 'date',
+        dueDate: '2026-10-21',
+        importance: true,
+        urgency: false,
+      },
+    ]);
+  });
+
+  it('folds long Hangul lines at 75 octets without splitting characters', () => {
+    const title = '가나다라마바사아자차카타파하'.repeat(4);
+    const ics = serializeTodosToIcs([makeTodo('a', { title })], { now: NOW });
+
+    ics
+      .split('\r\n')
+      .forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    const summary = ics.slice(ics.indexOf('SUMMARY:'), ics.indexOf('\r\nDTSTART'));
+    expect(summary.split('\r\n').length).toBeGreaterThan(1);
+    expect(summary).not.toContain('�');
+    expect(parseIcsTodos(ics).todos[0].title).toBe(title);
+  });
+
+  it('escapes and unescapes TEXT values', () => {
+    const title = 'a, b; c\nd \\ e';
+    const ics = serializeTodosToIcs([makeTodo('a', { title })], { now: NOW });
+
+    expect(propertyLines(ics, 'SUMMARY')).toEqual(['SUMMARY:a\\, b\\; c\\nd \\\\ e']);
+    expect(parseIcsTodos(ics).todos[0].title).toBe(title);
+  });
+
+  it('writes an exclusive DTEND for all-day events', () => {
+    const ics = serializeTodosToIcs([makeTodo('a')], { kind: 'VEVENT', now: NOW });
+
+    expect(propertyLines(ics, 'DTEND')).toEqual(['DTEND;VALUE=DATE:20261022']);
+    expect(propertyLines(ics, 'DUE')).toEqual([]);
+  });
+
+  it('reads the day before an all-day DTEND as the deadline', () => {
+    const ics = calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:워크숍',
+      'DTSTART;VALUE=DATE:20261020',
+      'DTEND;VALUE=DATE:20261023',
+      'END:VEVENT'
+    );
+    expect(parseIcsTodos(ics).todos[0]).toMatchObject({
+      startDate: '2026-10-20',
+      dueDate: '2026-10-22',
+    });
+  });
+
+  it('maps DUE to the deadline and DTSTART to the start of a VTODO', () => {
+    const ics = serializeTodosToIcs([makeTodo('a')], { now: NOW });
+    expect(propertyLines(ics, 'DUE')).toEqual(['DUE;VALUE=DATE:20261021']);
+    expect(propertyLines(ics, 'DTSTART')).toEqual(['DTSTART;VALUE=DATE:20261019']);
+
+    const startOnly = calendar('BEGIN:VTODO', 'SUMMARY:언젠가', 'DTSTART:20261020', 'END:VTODO');
+    expect(parseIcsTodos(startOnly).todos[0]).toEqual({
+      title: '언젠가',
+      startDate: '2026-10-20',
+      dueDateMode: 'unscheduled',
+      dueDate: null,
+    });
+
+    const dueOnly = calendar('BEGIN:VTODO', 'SUMMARY:마감', 'DUE:20261025', 'END:VTODO');
+    expect(parseIcsTodos(dueOnly).todos[0]).toEqual({
+      title: '마감',
+      startDate: '2026-10-25',
+      dueDateMode: 'date',
+      dueDate: '2026-10-25',
+    });
+  });
+
+  it.each([
+    [1, { importance: true, urgency: true }],
+    [3, { importance: true, urgency: false }],
+    [5, { importance: false, urgency: true }],
+    [9, { importance: false, urgency: false }],
+  ])('reads PRIORITY %i as the matching quadrant', (priority, flags) => {
+    const ics = calendar('BEGIN:VTODO', 'SUMMARY:일', `PRIORITY:${priority}`, 'END:VTODO');
+    expect(parseIcsTodos(ics).todos[0]).toMatchObject(flags);
+  });
+
+  it('leaves the priority flags unset for an undefined PRIORITY', () => {
+    const todo = parseIcsTodos(calendar('BEGIN:VTODO', 'SUMMARY:일', 'PRIORITY:0', 'END:VTODO'))
+      .todos[0];
+    expect(todo).not.toHaveProperty('importance');
+    expect(todo).not.toHaveProperty('urgency');
+  });
+
+  it('writes PRIORITY from the quadrant', () => {
+    const ics = serializeTodosToIcs(
+      [
+        makeTodo('do', { importance: true, urgency: true }),
+        makeTodo('eliminate', { importance: false, urgency: false }),
+      ],
+      { now: NOW }
+    );
+    expect(propertyLines(ics, 'PRIORITY')).toEqual(['PRIORITY:1', 'PRIORITY:9']);
+  });
+
+  it('skips finished and untitled components', () => {
+    const ics = calendar(
+      'BEGIN:VTODO',
+      'SUMMARY:끝',
+      'STATUS:COMPLETED',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'DUE:20261025',
+      'END:VTODO'
+    );
+    expect(parseIcsTodos(ics)).toEqual({ todos: [], skipped: 2 });
+  });
+});
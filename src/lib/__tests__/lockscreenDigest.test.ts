@@ -0,0 +1,58 @@
+import type { DigestSettings, TodoItem } from '../../store/petLoopStore';
+import { buildDigestBody, planDailyDigests } from '../lockscreenDigest';
+
+const TODAY = '2026-10-19';
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+
+const SETTINGS: DigestSettings = { morningTime: '08:00', eveningTime: '21:30', previewLimit: 4 };
+
+const makeTodo = (id: string, patch: Partial<TodoItem> = {}): TodoItem => ({
+  id,
+  title: `할 일 ${id}`,
+  startDate: TODAY,
+  startTime: null,
+  endTime: null,
+  dueDateMode: 'date',
+  dueDate: TODAY,
+  importance: true,
+  urgency: true,
+  done: false,
+  rewardCoins: 18,
+  rewardXp: 16,
+  createdAt: NOW,
+  seriesId: null,
+  reminder: null,
+  subtasks: [],
+  tagIds: [],
+  ...patch,
+});
+
+describe('planDailyDigests', () => {
+  it('plans one daily digest per enabled slot at its time', () => {
+    expect(planDailyDigests([], SETTINGS, TODAY)).toEqual([
+      expect.objectContaining({ identifier: 'daily-digest-morning', hour: 8, minute: 0 }),
+      expect.objectContaining({ identifier: 'daily-digest-evening', hour: 21, minute: 30 }),
+    ]);
+  });
+
+  it('leaves out slots that are switched off', () => {
+    const planned = planDailyDigests([], { ...SETTINGS, eveningTime: null }, TODAY);
+    expect(planned.map((digest) => digest.slot)).toEqual(['morning']);
+  });
+
+  it('lists the todos open today', () => {
+    const todos = [
+      makeTodo('today'),
+      makeTodo('later', { startDate: '2026-10-21', dueDate: '2026-10-21' }),
+      makeTodo('done', { done: true, completedAt: NOW }),
+    ];
+    const [morning] = planDailyDigests(todos, SETTINGS, TODAY);
+    expect(morning.body).toBe(buildDigestBody([todos[0]], SETTINGS.previewLimit));
+  });
+
+  it('changes the body when the todos change', () => {
+    const before = planDailyDigests([makeTodo('a')], SETTINGS, TODAY)[0].body;
+    const after = planDailyDigests([makeTodo('a', { title: '바뀜' })], SETTINGS, TODAY)[0].body;
+    expect(after).not.toBe(before);
+  });
+});
@@ -0,0 +1,69 @@
+import type { PetNeeds } from '../petNeeds';
+import { createNeedsClock, decayNeeds, predictNeedAlerts } from '../petNeeds';
+
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const FULL: PetNeeds = { hunger: 80, energy: 80, happiness: 80, cleanliness: 80 };
+
+describe('decayNeeds', () => {
+  it('takes off one point per whole interval elapsed', () => {
+    const { needs } = decayNeeds(FULL, createNeedsClock(NOW), NOW + 10 * HOUR);
+    expect(needs).toEqual({ hunger: 60, energy: 76, happiness: 78, cleanliness: 70 });
+  });
+
+  it('carries the partial interval into the next call', () => {
+    const first = decayNeeds(FULL, createNeedsClock(NOW), NOW + 45 * MINUTE);
+    expect(first.needs.hunger).toBe(79);
+    expect(first.clock.hunger).toBe(NOW + 30 * MINUTE);
+
+    const second = decayNeeds(first.needs, first.clock, NOW + 60 * MINUTE);
+    expect(second.needs.hunger).toBe(78);
+  });
+
+  it('gives the same result however often it is checked', () => {
+    let state = { needs: FULL, clock: createNeedsClock(NOW) };
+    for (let minute = 7; minute <= 24 * 60; minute += 7) {
+      state = decayNeeds(state.needs, state.clock, NOW + minute * MINUTE);
+    }
+    state = decayNeeds(state.needs, state.clock, NOW + 24 * HOUR);
+    expect(state).toEqual(decayNeeds(FULL, createNeedsClock(NOW), NOW + 24 * HOUR));
+  });
+
+  it('stops at zero', () => {
+    const { needs } = decayNeeds(FULL, createNeedsClock(NOW), NOW + 30 * 24 * HOUR);
+    expect(needs).toEqual({ hunger: 0, energy: 0, happiness: 0, cleanliness: 0 });
+  });
+
+  it('does nothing when no time has passed, or the clock is ahead', () => {
+    const clock = createNeedsClock(NOW);
+    expect(decayNeeds(FULL, clock, NOW)).toEqual({ needs: FULL, clock });
+    expect(decayNeeds(FULL, clock, NOW - HOUR)).toEqual({ needs: FULL, clock });
+  });
+});
+
+describe('predictNeedAlerts', () => {
+  it('predicts when each need crosses each threshold, soonest first', () => {
+    const alerts = predictNeedAlerts(
+      { hunger: 40, energy: 20, happiness: 10, cleanliness: 31 },
+      createNeedsClock(NOW)
+    );
+    // Hunger and energy reach 15 at the same moment; ties keep the need order.
+    expect(alerts).toEqual([
+      { need: 'cleanliness', threshold: 30, fireAt: NOW + HOUR },
+      { need: 'hunger', threshold: 30, fireAt: NOW + 5 * HOUR },
+      { need: 'hunger', threshold: 15, fireAt: NOW + 12.5 * HOUR },
+      { need: 'energy', threshold: 15, fireAt: NOW + 12.5 * HOUR },
+      { need: 'cleanliness', threshold: 15, fireAt: NOW + 16 * HOUR },
+    ]);
+  });
+
+  it('matches the moment decay reaches the threshold', () => {
+    const clock = createNeedsClock(NOW);
+    const [first] = predictNeedAlerts({ ...FULL, hunger: 35 }, clock);
+    expect(first).toMatchObject({ need: 'hunger', threshold: 30 });
+    expect(decayNeeds({ ...FULL, hunger: 35 }, clock, first.fireAt - 1).needs.hunger).toBe(31);
+    expect(decayNeeds({ ...FULL, hunger: 35 }, clock, first.fireAt).needs.hunger).toBe(30);
+  });
+});
@@ -0,0 +1,189 @@
+import type { AddTodoInput, TodoTag } from '../../store/petLoopStore';
+import { parseQuickAdd } from '../quickAdd';
+
+// A Monday.
+const TODAY = '2026-10-19';
+const TAGS: TodoTag[] = [{ id: 'tag-work', name: 'Work', color: '#5fa8b8' }];
+
+const parse = (text: string) => parseQuickAdd(text, { today: TODAY, tags: TAGS });
+
+describe('parseQuickAdd', () => {
+  it.each<[string, AddTodoInput]>([
+    [
+      '내일 오후 3시 보고서 !긴급 #work',
+      {
+        title: '보고서',
+        startDate: '2026-10-20',
+        dueDateMode: 'date',
+        dueDate: '2026-10-20',
+        startTime: '15:00',
+        endTime: null,
+        urgency: true,
+        tagIds: ['tag-work'],
+      },
+    ],
+    [
+      'every monday gym',
+      {
+        title: 'gym',
+        repeat: { kind: 'weekly', weekdays: [1] },
+        startDate: '2026-10-19',
+        dueDateMode: 'date',
+        dueDate: '2026-10-19',
+      },
+    ],
+    [
+      '매주 월수금 헬스',
+      {
+        title: '헬스',
+        repeat: { kind: 'weekly', weekdays: [1, 3, 5] },
+        startDate: '2026-10-19',
+        dueDateMode: 'date',
+        dueDate: '2026-10-19',
+      },
+    ],
+    [
+      '금요일까지 기획서 !q2',
+      { title: '기획서', dueDateMode: 'date', dueDate: '2026-10-23', importance: true, urgency: false },
+    ],
+    [
+      '다음주 화요일 3-5pm 회의',
+      {
+        title: '회의',
+        startDate: '2026-10-27',
+        dueDateMode: 'date',
+        dueDate: '2026-10-27',
+        startTime: '15:00',
+        endTime: '17:00',
+      },
+    ],
+    ['3시 반 치과', { title: '치과', startTime: '15:30', endTime: null }],
+    [
+      '10/25 15:00~16:30 미팅',
+      {
+        title: '미팅',
+        startDate: '2026-10-25',
+        dueDateMode: 'date',
+        dueDate: '2026-10-25',
+        startTime: '15:00',
+        endTime: '16:30',
+      },
+    ],
+    [
+      'dentist on 11/3 at 9am',
+      {
+        title: 'dentist',
+        startDate: '2026-11-03',
+        dueDateMode: 'date',
+        dueDate: '2026-11-03',
+        startTime: '09:00',
+        endTime: null,
+      },
+    ],
+    ['taxes due 1/15', { title: 'taxes', dueDateMode: 'date', dueDate: '2027-01-15' }],
+    [
+      'in 3 days call mom',
+      { title: 'call mom', startDate: '2026-10-22', dueDateMode: 'date', dueDate: '2026-10-22' },
+    ],
+    [
+      '3일마다 물주기',
+      {
+        title: '물주기',
+        repeat: { kind: 'everyNDays', interval: 3 },
+        startDate: '2026-10-19',
+        dueDateMode: 'date',
+        dueDate: '2026-10-19',
+      },
+    ],
+    [
+      '매월 25일 카드값',
+      {
+        title: '카드값',
+        repeat: { kind: 'monthly', monthDay: 25 },
+        startDate: '2026-10-25',
+        dueDateMode: 'date',
+        dueDate: '2026-10-25',
+      },
+    ],
+    [
+      'tomorrow 9am standup !important',
+      {
+        title: 'standup',
+        startDate: '2026-10-20',
+        dueDateMode: 'date',
+        dueDate: '2026-10-20',
+        startTime: '09:00',
+        endTime: null,
+        importance: true,
+      },
+    ],
+    [
+      '모레 오전 10시부터 11시까지 스터디',
+      {
+        title: '스터디',
+        startDate: '2026-10-21',
+        dueDateMode: 'date',
+        dueDate: '2026-10-21',
+        startTime: '10:00',
+        endTime: '11:00',
+      },
+    ],
+    ['오후 3시~5시 코딩', { title: '코딩', startTime: '15:00', endTime: '17:00' }],
+    [
+      'every weekday 8:30am run',
+      {
+        title: 'run',
+        repeat: { kind: 'weekdays' },
+        startDate: '2026-10-19',
+        dueDateMode: 'date',
+        dueDate: '2026-10-19',
+        startTime: '08:30',
+        endTime: null,
+      },
+    ],
+    ['by friday taxes', { title: 'taxes', dueDateMode: 'date', dueDate: '2026-10-23' }],
+    [
+      'next monday 1:1 prep',
+      { title: '1:1 prep', startDate: '2026-10-26', dueDateMode: 'date', dueDate: '2026-10-26' },
+    ],
+  ])('reads %j', (text, expected) => {
+    expect(parse(text).input).toEqual(expected);
+  });
+
+  it.each([
+    'read 1/2 of book',
+    'bake with 3/4 cup sugar',
+    'water plants in the sun',
+    'monthly report draft',
+    'weekly review notes',
+    'buy 2 apples',
+    'chapter 12 summary',
+    '오늘의 일기 쓰기',
+  ])('leaves %j as a plain title', (text) => {
+    const result = parse(text);
+    expect(result.input).toEqual({ title: text });
+    expect(result.chips).toEqual([]);
+  });
+
+  it('collects unknown tags once, in typed order', () => {
+    const result = parse('정리 #home #Work #errands #HOME');
+    expect(result.input.tagIds).toEqual(['tag-work']);
+    expect(result.newTagNames).toEqual(['home', 'errands']);
+    expect(result.input.title).toBe('정리');
+  });
+
+  it('keeps unknown !flags in the title', () => {
+    expect(parse('hello !world').input).toEqual({ title: 'hello !world' });
+  });
+
+  it('describes what it found as preview chips', () => {
+    expect(parse('내일 오후 3시 보고서 !긴급 #work #new').chips).toEqual([
+      { kind: 'date', label: '📅 내일' },
+      { kind: 'time', label: '🕒 15:00' },
+      { kind: 'priority', label: '⚡ 긴급 ON' },
+      { kind: 'tag', label: '#Work' },
+      { kind: 'newTag', label: '#new (새 태그)' },
+    ]);
+    expect(parse('금요일까지 기획서').chips).toEqual([{ kind: 'due', label: '⏳ 10/23(금)까지' }]);
+  });
+});
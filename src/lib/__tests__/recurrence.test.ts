@@ -0,0 +1,102 @@
+import { addDaysToKey } from '../dateKeys';
+import type { RepeatRule } from '../recurrence';
+import { normalizeRepeatRule, occursOn, previousOccurrence } from '../recurrence';
+
+// A Monday.
+const ANCHOR = '2026-10-19';
+
+const occurrencesIn = (rule: RepeatRule, anchor: string, from: string, days: number) =>
+  Array.from({ length: days }, (_, offset) => addDaysToKey(from, offset)).filter((dateKey) =>
+    occursOn(rule, anchor, dateKey)
+  );
+
+describe('occursOn', () => {
+  it('never occurs before the anchor', () => {
+    expect(occursOn({ kind: 'daily' }, ANCHOR, '2026-10-18')).toBe(false);
+    expect(occursOn({ kind: 'daily' }, ANCHOR, ANCHOR)).toBe(true);
+  });
+
+  it('skips weekends for weekday rules', () => {
+    expect(occurrencesIn({ kind: 'weekdays' }, ANCHOR, ANCHOR, 7)).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-21',
+      '2026-10-22',
+      '2026-10-23',
+    ]);
+  });
+
+  it('counts every-N-days from the anchor', () => {
+    expect(occurrencesIn({ kind: 'everyNDays', interval: 3 }, ANCHOR, ANCHOR, 10)).toEqual([
+      '2026-10-19',
+      '2026-10-22',
+      '2026-10-25',
+      '2026-10-28',
+    ]);
+    // The anchor decides the phase, not the day the check starts on.
+    expect(occurrencesIn({ kind: 'everyNDays', interval: 3 }, '2026-10-20', ANCHOR, 7)).toEqual([
+      '2026-10-20',
+      '2026-10-23',
+    ]);
+  });
+
+  it('occurs on each listed weekday', () => {
+    expect(occurrencesIn({ kind: 'weekly', weekdays: [1, 3, 5] }, ANCHOR, ANCHOR, 14)).toEqual([
+      '2026-10-19',
+      '2026-10-21',
+      '2026-10-23',
+      '2026-10-26',
+      '2026-10-28',
+      '2026-10-30',
+    ]);
+  });
+
+  it('moves a monthly day-31 rule to the last day of short months', () => {
+    const rule: RepeatRule = { kind: 'monthly', monthDay: 31 };
+    expect(occursOn(rule, '2026-01-31', '2026-02-28')).toBe(true);
+    expect(occursOn(rule, '2026-01-31', '2026-03-31')).toBe(true);
+    expect(occursOn(rule, '2026-01-31', '2026-04-30')).toBe(true);
+    expect(occursOn(rule, '2026-01-31', '2026-04-29')).toBe(false);
+    expect(occursOn(rule, '2027-12-31', '2028-02-29')).toBe(true);
+    expect(occursOn(rule, '2027-12-31', '2028-02-28')).toBe(false);
+  });
+
+  it('rejects invalid dates', () => {
+    expect(occursOn({ kind: 'daily' }, ANCHOR, '2026-02-30')).toBe(false);
+  });
+});
+
+describe('previousOccurrence', () => {
+  it('finds the occurrence before a date', () => {
+    expect(previousOccurrence({ kind: 'weekdays' }, ANCHOR, '2026-10-26')).toBe('2026-10-23');
+    expect(previousOccurrence({ kind: 'everyNDays', interval: 3 }, ANCHOR, '2026-10-25')).toBe(
+      '2026-10-22'
+    );
+    expect(previousOccurrence({ kind: 'monthly', monthDay: 31 }, '2026-01-31', '2026-03-31')).toBe(
+      '2026-02-28'
+    );
+  });
+
+  it('returns null before the first occurrence', () => {
+    expect(previousOccurrence({ kind: 'daily' }, ANCHOR, ANCHOR)).toBeNull();
+    expect(previousOccurrence({ kind: 'weekly', weekdays: [5] }, ANCHOR, '2026-10-23')).toBeNull();
+  });
+});
+
+describe('normalizeRepeatRule', () => {
+  it.each<[unknown, RepeatRule | null]>([
+    [{ kind: 'daily', extra: true }, { kind: 'daily' }],
+    [{ kind: 'everyNDays', interval: 2.6 }, { kind: 'everyNDays', interval: 3 }],
+    [{ kind: 'everyNDays', interval: 1000 }, { kind: 'everyNDays', interval: 365 }],
+    [{ kind: 'everyNDays', interval: 0 }, null],
+    [{ kind: 'weekly', weekdays: [5, 1, 5, 9, 1.5, -1] }, { kind: 'weekly', weekdays: [1, 5] }],
+    [{ kind: 'weekly', weekdays: [] }, null],
+    [{ kind: 'monthly', monthDay: 31 }, { kind: 'monthly', monthDay: 31 }],
+    [{ kind: 'monthly', monthDay: 32 }, null],
+    [{ kind: 'yearly' }, null],
+    ['daily', null],
+    [null, null],
+  ])('reads %j', (value, expected) => {
+    expect(normalizeRepeatRule(value)).toEqual(expected);
+  });
+});
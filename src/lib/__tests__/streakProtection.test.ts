@@ -0,0 +1,151 @@
+import { createNeedsClock } from '../petNeeds';
+import type { StreakCheckInput } from '../streakProtection';
+import {
+  STREAK_FREEZE_MILESTONE,
+  earnsStreakFreeze,
+  getStreakAnchor,
+  pauseClockForVacation,
+  resolveStreak,
+} from '../streakProtection';
+
+const TODAY = '2026-10-19';
+const HOUR = 60 * 60 * 1000;
+
+const check = (patch: Partial<StreakCheckInput>) =>
+  resolveStreak({
+    today: TODAY,
+    streak: 5,
+    lastCompletedDate: '2026-10-18',
+    coveredThrough: null,
+    freezes: 0,
+    vacation: null,
+    ...patch,
+  });
+
+describe('resolveStreak', () => {
+  it('keeps the streak when yesterday was completed', () => {
+    expect(check({ freezes: 2 })).toEqual({
+      streak: 5,
+      coveredThrough: null,
+      freezesUsed: 0,
+      frozenDates: [],
+    });
+  });
+
+  it('spends a freeze on a single missed day', () => {
+    expect(check({ lastCompletedDate: '2026-10-17', freezes: 1 })).toEqual({
+      streak: 5,
+      coveredThrough: '2026-10-18',
+      freezesUsed: 1,
+      frozenDates: ['2026-10-18'],
+    });
+  });
+
+  it('resets without spending anything when there are fewer freezes than missed days', () => {
+    expect(check({ lastCompletedDate: '2026-10-15', freezes: 2 })).toEqual({
+      streak: 0,
+      coveredThrough: null,
+      freezesUsed: 0,
+      frozenDates: [],
+    });
+  });
+
+  it('covers several missed days when there are enough freezes', () => {
+    expect(check({ lastCompletedDate: '2026-10-15', freezes: 3 })).toMatchObject({
+      streak: 5,
+      coveredThrough: '2026-10-18',
+      freezesUsed: 3,
+    });
+  });
+
+  it('skips vacation days for free', () => {
+    expect(
+      check({
+        lastCompletedDate: '2026-10-12',
+        vacation: { start: '2026-10-13', end: '2026-10-18' },
+      })
+    ).toEqual({ streak: 5, coveredThrough: '2026-10-18', freezesUsed: 0, frozenDates: [] });
+  });
+
+  it('only spends freezes on the missed days outside a vacation', () => {
+    expect(
+      check({
+        lastCompletedDate: '2026-10-12',
+        freezes: 1,
+        vacation: { start: '2026-10-13', end: '2026-10-17' },
+      })
+    ).toEqual({
+      streak: 5,
+      coveredThrough: '2026-10-18',
+      freezesUsed: 1,
+      frozenDates: ['2026-10-18'],
+    });
+  });
+
+  it('continues from the last day a freeze covered', () => {
+    expect(
+      check({ lastCompletedDate: '2026-10-16', coveredThrough: '2026-10-18', freezes: 0 })
+    ).toMatchObject({ streak: 5, freezesUsed: 0 });
+  });
+
+  it('leaves an empty streak alone', () => {
+    expect(check({ streak: 0, lastCompletedDate: '2026-10-01', freezes: 3 })).toMatchObject({
+      streak: 0,
+      freezesUsed: 0,
+    });
+  });
+});
+
+describe('earnsStreakFreeze', () => {
+  it('awards a freeze when the streak reaches a milestone', () => {
+    expect(earnsStreakFreeze(STREAK_FREEZE_MILESTONE - 1, STREAK_FREEZE_MILESTONE)).toBe(true);
+    expect(earnsStreakFreeze(13, 14)).toBe(true);
+  });
+
+  it('does not award one between milestones or when the streak did not grow', () => {
+    expect(earnsStreakFreeze(5, 6)).toBe(false);
+    expect(earnsStreakFreeze(7, 7)).toBe(false);
+    expect(earnsStreakFreeze(8, 1)).toBe(false);
+  });
+});
+
+describe('getStreakAnchor', () => {
+  it.each([
+    [null, null, null],
+    ['2026-10-15', null, '2026-10-15'],
+    [null, '2026-10-16', '2026-10-16'],
+    ['2026-10-15', '2026-10-17', '2026-10-17'],
+    ['2026-10-18', '2026-10-17', '2026-10-18'],
+  ])('picks the later of %j and %j', (lastCompletedDate, coveredThrough, anchor) => {
+    expect(getStreakAnchor(lastCompletedDate, coveredThrough)).toBe(anchor);
+  });
+});
+
+describe('pauseClockForVacation', () => {
+  const vacationStart = new Date(2026, 9, 15).getTime();
+  const vacationEnd = new Date(2026, 9, 17).getTime();
+  const vacation = { start: '2026-10-15', end: '2026-10-16' };
+
+  it('leaves the clock alone without a vacation', () => {
+    const clock = createNeedsClock(vacationStart);
+    expect(pauseClockForVacation(clock, vacationEnd + HOUR, null)).toBe(clock);
+  });
+
+  it('moves the clock past the whole vacation once it is over', () => {
+    const clock = createNeedsClock(vacationStart - 2 * HOUR);
+    expect(pauseClockForVacation(clock, vacationEnd + HOUR, vacation)).toEqual(
+      createNeedsClock(vacationEnd - 2 * HOUR)
+    );
+  });
+
+  it('only skips the part of the vacation that has passed so far', () => {
+    const clock = createNeedsClock(vacationStart - HOUR);
+    const now = vacationStart + 5 * HOUR;
+    expect(pauseClockForVacation(clock, now, vacation)).toEqual(createNeedsClock(now - HOUR));
+  });
+
+  it('ignores a vacation that has not started yet', () => {
+    const clock = createNeedsClock(vacationStart - 3 * HOUR);
+    expect(pauseClockForVacation(clock, vacationStart - HOUR, vacation)).toEqual(clock);
+  });
+});
@@ -0,0 +1,150 @@
+import type { TodoItem } from '../../store/petLoopStore';
+import type { WidgetSnapshotSource } from '../widgetSnapshot';
+import {
+  WIDGET_SNAPSHOT_VERSION,
+  WIDGET_TODO_LIMIT,
+  buildWidgetSnapshot,
+  isSameWidgetContent,
+} from '../widgetSnapshot';
+
+const TODAY = '2026-10-19';
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+
+const makeTodo = (id: string, patch: Partial<TodoItem> = {}): TodoItem => ({
+  id,
+  title: `할 일 ${id}`,
+  startDate: TODAY,
+  startTime: null,
+  endTime: null,
+  dueDateMode: 'date',
+  dueDate: TODAY,
+  importance: true,
+  urgency: true,
+  done: false,
+  rewardCoins: 18,
+  rewardXp: 16,
+  createdAt: NOW,
+  seriesId: null,
+  reminder: null,
+  subtasks: [],
+  tagIds: [],
+  ...patch,
+});
+
+const makeSource = (todos: TodoItem[], patch: Partial<WidgetSnapshotSource> = {}) => ({
+  petName: '모찌',
+  petEmoji: '🐥',
+  level: 4,
+  streak: 3,
+  hunger: 80,
+  energy: 80,
+  happiness: 80,
+  cleanliness: 80,
+  todos,
+  ...patch,
+});
+
+describe('buildWidgetSnapshot', () => {
+  it('describes the pet, streak and open todos', () => {
+    const snapshot = buildWidgetSnapshot(makeSource([makeTodo('a')]), TODAY, NOW);
+    expect(snapshot).toEqual({
+      version: WIDGET_SNAPSHOT_VERSION,
+      generatedAt: NOW,
+      dateKey: TODAY,
+      pet: { name: '모찌', emoji: '🐥', mood: 'great', moodLabel: '최고 컨디션', level: 4 },
+      streak: 3,
+      openCount: 1,
+      todos: [{ id: 'a', title: '할 일 a', quadrant: 'do', dueDate: TODAY, overdue: false }],
+    });
+  });
+
+  it('skips finished todos and ones that have not started', () => {
+    const snapshot = buildWidgetSnapshot(
+      makeSource([
+        makeTodo('done', { done: true, completedAt: NOW }),
+        makeTodo('later', { startDate: '2026-10-20', dueDate: '2026-10-20' }),
+        makeTodo('open'),
+      ]),
+      TODAY,
+      NOW
+    );
+    expect(snapshot.todos.map((todo) => todo.id)).toEqual(['open']);
+    expect(snapshot.openCount).toBe(1);
+  });
+
+  it('orders overdue first, then by quadrant, deadline and creation', () => {
+    const snapshot = buildWidgetSnapshot(
+      makeSource([
+        makeTodo('eliminate', { importance: false, urgency: false }),
+        makeTodo('schedule-late', { importance: true, urgency: false, dueDate: '2026-10-25' }),
+        makeTodo('schedule-soon', { importance: true, urgency: false, dueDate: '2026-10-21' }),
+        makeTodo('overdue', {
+          importance: false,
+          urgency: false,
+          startDate: '2026-10-10',
+          dueDate: '2026-10-12',
+        }),
+        makeTodo('do-newer', { createdAt: NOW + 1 }),
+        makeTodo('do-older', { createdAt: NOW - 1 }),
+      ]),
+      TODAY,
+      NOW
+    );
+    expect(snapshot.openCount).toBe(6);
+    expect(snapshot.todos).toHaveLength(WIDGET_TODO_LIMIT);
+    expect(snapshot.todos.map((todo) => todo.id)).toEqual([
+      'overdue',
+      'do-older',
+      'do-newer',
+      'schedule-soon',
+    ]);
+    expect(snapshot.todos[0]).toMatchObject({ overdue: true, quadrant: 'eliminate' });
+  });
+
+  it('only reports a due date for dated todos', () => {
+    const snapshot = buildWidgetSnapshot(
+      makeSource([makeTodo('ongoing', { dueDateMode: 'ongoing', dueDate: null })]),
+      TODAY,
+      NOW
+    );
+    expect(snapshot.todos[0].dueDate).toBeNull();
+  });
+
+  it('sulks once three todos are overdue', () => {
+    const overdue = (id: string) =>
+      makeTodo(id, { startDate: '2026-10-01', dueDate: '2026-10-02' });
+    const snapshot = buildWidgetSnapshot(
+      makeSource([overdue('a'), overdue('b'), overdue('c')]),
+      TODAY,
+      NOW
+    );
+    expect(snapshot.pet).toMatchObject({ mood: 'overdue', moodLabel: '시무룩' });
+  });
+
+  it('reflects low needs in the mood', () => {
+    const snapshot = buildWidgetSnapshot(makeSource([], { hunger: 10 }), TODAY, NOW);
+    expect(snapshot.pet).toMatchObject({ mood: 'hungry', moodLabel: '배고파요' });
+    expect(snapshot.todos).toEqual([]);
+  });
+});
+
+describe('isSameWidgetContent', () => {
+  it('ignores when the snapshot was built', () => {
+    const source = makeSource([makeTodo('a')]);
+    expect(
+      isSameWidgetContent(
+        buildWidgetSnapshot(source, TODAY, NOW),
+        buildWidgetSnapshot(source, TODAY, NOW + 60000)
+      )
+    ).toBe(true);
+  });
+
+  it('notices a changed todo list', () => {
+    expect(
+      isSameWidgetContent(
+        buildWidgetSnapshot(makeSource([makeTodo('a')]), TODAY, NOW),
+        buildWidgetSnapshot(makeSource([makeTodo('a', { title: '바뀜' })]), TODAY, NOW)
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import type {
+  AchievementId,
+  CompletionJournalEntry,
+  DecorationId,
+  PetProfile,
+  Quadrant,
+} from '../store/petLoopStore';
+import { DECORATION_CATALOG } from './decorationCatalog';
+
+export type AchievementCondition =
+  | { kind: 'completions'; count: number }
+  | { kind: 'bestStreak'; days: number }
+  | { kind: 'level'; level: number }
+  | { kind: 'habitatTier'; tier: number }
+  | { kind: 'allDecorations' }
+  | { kind: 'petsOwned'; count: number }
+  | { kind: 'careCount'; count: number }
+  | { kind: 'quadrantCleared'; quadrant: Quadrant };
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  emoji: string;
+  title: string;
+  description: string;
+  rewardCoins: number;
+  condition: AchievementCondition;
+}
+
+// The slice of store state rules are evaluated against.
+export interface AchievementSnapshot {
+  todayKey: string;
+  level: number;
+  streak: number;
+  bestStreak: number;
+  habitatTier: number;
+  completionLog: Record<string, number>;
+  completionJournal: CompletionJournalEntry[];
+  // Quadrants of todos that have started and are still open.
+  openQuadrants: Quadrant[];
+  purchasedDecorations: DecorationId[];
+  pets: Pick<PetProfile, 'careCount'>[];
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-completion',
+    emoji: '🌱',
+    title: '첫 걸음',
+    description: '할 일을 처음으로 완료했어요.',
+    rewardCoins: 10,
+    condition: { kind: 'completions', count: 1 },
+  },
+  {
+    id: 'streak-7',
+    emoji: '🔥',
+    title: '일주일 연속',
+    description: '7일 연속으로 할 일을 끝냈어요.',
+    rewardCoins: 30,
+    condition: { kind: 'bestStreak', days: 7 },
+  },
+  {
+    id: 'streak-30',
+    emoji: '🏆',
+    title: '한 달 연속',
+    description: '30일 연속으로 할 일을 끝냈어요.',
+    rewardCoins: 100,
+    condition: { kind: 'bestStreak', days: 30 },
+  },
+  {
+    id: 'completions-100',
+    emoji: '💯',
+    title: '백 번의 완료',
+    description: '할 일을 100개 완료했어요.',
+    rewardCoins: 80,
+    condition: { kind: 'completions', count: 100 },
+  },
+  {
+    id: 'q1-cleared',
+    emoji: '⚡',
+    title: '급한 불 끄기',
+    description: '오늘의 Q1 할 일을 모두 끝냈어요.',
+    rewardCoins: 20,
+    condition: { kind: 'quadrantCleared', quadrant: 'do' },
+  },
+  {
+    id: 'level-10',
+    emoji: '⭐',
+    title: '베테랑 집사',
+    description: '펫이 Lv.10에 도달했어요.',
+    rewardCoins: 50,
+    condition: { kind: 'level', level: 10 },
+  },
+  {
+    id: 'habitat-3',
+    emoji: '🏡',
+    title: '아늑한 보금자리',
+    description: '서식지 단계 3에 도달했어요.',
+    rewardCoins: 40,
+    condition: { kind: 'habitatTier', tier: 3 },
+  },
+  {
+    id: 'all-decorations',
+    emoji: '👑',
+    title: '인테리어 장인',
+    description: '상점의 장식을 모두 모았어요.',
+    rewardCoins: 120,
+    condition: { kind: 'allDecorations' },
+  },
+  {
+    id: 'pet-collector',
+    emoji: '🐾',
+    title: '펫 수집가',
+    description: '펫을 3마리 데려왔어요.',
+    rewardCoins: 40,
+    condition: { kind: 'petsOwned', count: 3 },
+  },
+  {
+    id: 'caretaker',
+    emoji: '🤲',
+    title: '정성 가득',
+    description: '아이템으로 30번 돌봐 줬어요.',
+    rewardCoins: 30,
+    condition: { kind: 'careCount', count: 30 },
+  },
+];
+
+const sumValues = (record: Record<string, number>): number =>
+  Object.values(record).reduce((total, value) => total + value, 0);
+
+// A quadrant counts as cleared once something in it was finished today and nothing in it
+// that has started is still open.
+const isQuadrantCleared = (snapshot: AchievementSnapshot, quadrant: Quadrant): boolean => {
+  const finishedToday = snapshot.completionJournal.some(
+    (entry) => entry.dateKey === snapshot.todayKey && entry.quadrant === quadrant
+  );
+  return finishedToday && !snapshot.openQuadrants.includes(quadrant);
+};
+
+export const getAchievementProgress = (
+  condition: AchievementCondition,
+  snapshot: AchievementSnapshot
+): AchievementProgress => {
+  switch (condition.kind) {
+    case 'completions':
+      return { current: sumValues(snapshot.completionLog), target: condition.count };
+    case 'bestStreak':
+      return { current: Math.max(snapshot.bestStreak, snapshot.streak), target: condition.days };
+    case 'level':
+      return { current: snapshot.level, target: condition.level };
+    case 'habitatTier':
+      return { current: snapshot.habitatTier, target: condition.tier };
+    case 'allDecorations':
+      return {
+        current: DECORATION_CATALOG.filter((item) =>
+          snapshot.purchasedDecorations.includes(item.id)
+        ).length,
+        target: DECORATION_CATALOG.length,
+      };
+    case 'petsOwned':
+      return { current: snapshot.pets.length, target: condition.count };
+    case 'careCount':
+      return {
+        current: snapshot.pets.reduce((total, pet) => total + pet.careCount, 0),
+        target: condition.count,
+      };
+    case 'quadrantCleared':
+      return { current: isQuadrantCleared(snapshot, condition.quadrant) ? 1 : 0, target: 1 };
+  }
+};
+
+export const isAchievementMet = (
+  condition: AchievementCondition,
+  snapshot: AchievementSnapshot
+): boolean => {
+  const progress = getAchievementProgress(condition, snapshot);
+  return progress.current >= progress.target;
+};
+
+// Achievements whose rule holds now but that have not been awarded yet.
+export const findNewAchievements = (
+  snapshot: AchievementSnapshot,
+  unlockedIds: AchievementId[]
+): AchievementDefinition[] =>
+  ACHIEVEMENTS.filter(
+    (achievement) =>
+      !unlockedIds.includes(achievement.id) && isAchievementMet(achievement.condition, snapshot)
+  );
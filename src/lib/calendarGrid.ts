@@ -0,0 +1,69 @@
+import { addDaysToKey, dayDifference, parseDateKey, toDateKey } from './dateKeys';
+import type { TodoItem } from '../store/petLoopStore';
+
+export interface MonthCursor {
+  year: number;
+  month: number;
+}
+
+export interface CalendarDay {
+  dateKey: string;
+  inMonth: boolean;
+}
+
+const DAYS_PER_WEEK = 7;
+const GRID_WEEKS = 6;
+
+export const getMonthCursor = (dateKey: string): MonthCursor => {
+  const date = parseDateKey(dateKey);
+  return { year: date.getFullYear(), month: date.getMonth() };
+};
+
+export const shiftMonth = (cursor: MonthCursor, offset: number): MonthCursor => {
+  const shifted = new Date(cursor.year, cursor.month + offset, 1);
+  return { year: shifted.getFullYear(), month: shifted.getMonth() };
+};
+
+// Always six Sunday-first weeks so the grid height stays stable while paging months.
+export const getMonthGrid = (cursor: MonthCursor): CalendarDay[][] => {
+  const firstOfMonth = new Date(cursor.year, cursor.month, 1);
+  const gridStart = addDaysToKey(toDateKey(firstOfMonth), -firstOfMonth.getDay());
+
+  const weeks: CalendarDay[][] = [];
+  for (let week = 0; week < GRID_WEEKS; week += 1) {
+    const days: CalendarDay[] = [];
+    for (let day = 0; day < DAYS_PER_WEEK; day += 1) {
+      const dateKey = addDaysToKey(gridStart, week * DAYS_PER_WEEK + day);
+      days.push({ dateKey, inMonth: parseDateKey(dateKey).getMonth() === cursor.month });
+    }
+    weeks.push(days);
+  }
+  return weeks;
+};
+
+export const getWeekDateKeys = (dateKey: string): string[] => {
+  const weekStart = addDaysToKey(dateKey, -parseDateKey(dateKey).getDay());
+  return Array.from({ length: DAYS_PER_WEEK }, (_, index) => addDaysToKey(weekStart, index));
+};
+
+// Dated todos span from start to due date; open-ended ones are pinned to their start date.
+export const isTodoOnDate = (
+  todo: Pick<TodoItem, 'startDate' | 'dueDateMode' | 'dueDate'>,
+  dateKey: string
+): boolean => {
+  if (todo.dueDateMode === 'date' && todo.dueDate) {
+    return dayDifference(todo.startDate, dateKey) >= 0 && dayDifference(dateKey, todo.dueDate) >= 0;
+  }
+  return todo.startDate === dateKey;
+};
+
+export const groupTodosByDate = <T extends Pick<TodoItem, 'startDate' | 'dueDateMode' | 'dueDate'>>(
+  todos: T[],
+  dateKeys: string[]
+): Record<string, T[]> => {
+  const grouped: Record<string, T[]> = {};
+  dateKeys.forEach((dateKey) => {
+    grouped[dateKey] = todos.filter((todo) => isTodoOnDate(todo, dateKey));
+  });
+  return grouped;
+};
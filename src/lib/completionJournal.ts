@@ -0,0 +1,48 @@
+import { addDaysToKey, dayDifference, toDateKey } from './dateKeys';
+import type { CompletionJournalEntry } from '../store/petLoopStore';
+
+export const JOURNAL_RETENTION_OPTIONS: Array<{ days: number | null; title: string }> = [
+  { days: 30, title: '30일' },
+  { days: 90, title: '90일' },
+  { days: 365, title: '1년' },
+  { days: null, title: '계속' },
+];
+
+// Hard ceiling so "keep forever" cannot grow the persisted blob without bound.
+export const MAX_JOURNAL_ENTRIES = 5000;
+
+export interface JournalDay {
+  dateKey: string;
+  entries: CompletionJournalEntry[];
+  coins: number;
+  xp: number;
+}
+
+export const pruneJournal = (
+  entries: CompletionJournalEntry[],
+  retentionDays: number | null,
+  todayKey: string = toDateKey()
+): CompletionJournalEntry[] => {
+  const cutoff = retentionDays === null ? null : addDaysToKey(todayKey, -(retentionDays - 1));
+  const kept =
+    cutoff === null ? entries : entries.filter((entry) => dayDifference(cutoff, entry.dateKey) >= 0);
+  return kept.length > MAX_JOURNAL_ENTRIES ? kept.slice(kept.length - MAX_JOURNAL_ENTRIES) : kept;
+};
+
+export const groupJournalByDay = (entries: CompletionJournalEntry[]): JournalDay[] => {
+  const byDay = new Map<string, JournalDay>();
+  entries.forEach((entry) => {
+    const day = byDay.get(entry.dateKey) ?? { dateKey: entry.dateKey, entries: [], coins: 0, xp: 0 };
+    day.entries.push(entry);
+    day.coins += entry.coins;
+    day.xp += entry.xp;
+    byDay.set(entry.dateKey, day);
+  });
+
+  return Array.from(byDay.values())
+    .map((day) => ({
+      ...day,
+      entries: [...day.entries].sort((a, b) => a.completedAt - b.completedAt),
+    }))
+    .sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+};
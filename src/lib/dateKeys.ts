@@ -0,0 +1,55 @@
+const pad2 = (value: number): string => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+export const isValidDateKey = (dateKey: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) {
+    return false;
+  }
+  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
+  const parsed = new Date(year, month - 1, day);
+  return (
+    parsed.getFullYear() === year &&
+    parsed.getMonth() === month - 1 &&
+    parsed.getDate() === day
+  );
+};
+
+export const normalizeDateKey = (value: string | null | undefined, fallback: string): string => {
+  if (typeof value !== 'string') {
+    return fallback;
+  }
+  return isValidDateKey(value) ? value : fallback;
+};
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
+  return new Date(year, month - 1, day);
+};
+
+export const createDateWithOffset = (base: Date, dayOffset: number): Date => {
+  const next = new Date(base);
+  next.setDate(next.getDate() + dayOffset);
+  return next;
+};
+
+export const addDaysToKey = (dateKey: string, dayOffset: number): string =>
+  toDateKey(createDateWithOffset(parseDateKey(dateKey), dayOffset));
+
+export const dayDifference = (from: string, to: string): number => {
+  const fromDate = parseDateKey(from);
+  const toDate = parseDateKey(to);
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((toDate.getTime() - fromDate.getTime()) / msPerDay);
+};
+
+export const isValidTimeKey = (timeKey: string): boolean =>
+  /^([01]\d|2[0-3]):[0-5]\d$/.test(timeKey);
+
+export const combineDateAndTime = (dateKey: string, timeKey: string): Date => {
+  const [hours, minutes] = timeKey.split(':').map((part) => Number(part));
+  const date = parseDateKey(dateKey);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
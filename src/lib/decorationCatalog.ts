@@ -0,0 +1,190 @@
+import type { DecorationId } from '../store/petLoopStore';
+import { NEED_DECAY_INTERVAL_MS, NEED_KEYS, NEED_LABELS } from './petNeeds';
+import type { NeedKey } from './petNeeds';
+
+export type DecorationCategory = 'light' | 'plant' | 'furniture' | 'toy';
+
+export type DecorationRarity = 'common' | 'rare' | 'epic';
+
+export interface DecorationEffect {
+  need: NeedKey;
+  // Percent by which the need decays slower while the decoration is placed.
+  slowdown: number;
+}
+
+export interface DecorationDefinition {
+  id: DecorationId;
+  emoji: string;
+  title: string;
+  category: DecorationCategory;
+  rarity: DecorationRarity;
+  cost: number;
+  minHabitatTier: number;
+  effect: DecorationEffect;
+}
+
+export const DECORATION_CATEGORIES: Array<{ id: DecorationCategory; title: string }> = [
+  { id: 'light', title: '조명' },
+  { id: 'plant', title: '식물' },
+  { id: 'furniture', title: '가구' },
+  { id: 'toy', title: '장난감' },
+];
+
+export const RARITY_LABELS: Record<DecorationRarity, string> = {
+  common: '일반',
+  rare: '희귀',
+  epic: '전설',
+};
+
+export const DECORATION_CATALOG: DecorationDefinition[] = [
+  {
+    id: 'sun-lamp',
+    emoji: '🪔',
+    title: '햇살 램프',
+    category: 'light',
+    rarity: 'common',
+    cost: 28,
+    minHabitatTier: 1,
+    effect: { need: 'energy', slowdown: 5 },
+  },
+  {
+    id: 'moss-rock',
+    emoji: '🪨',
+    title: '이끼 바위',
+    category: 'plant',
+    rarity: 'common',
+    cost: 34,
+    minHabitatTier: 1,
+    effect: { need: 'cleanliness', slowdown: 5 },
+  },
+  {
+    id: 'rain-bell',
+    emoji: '🔔',
+    title: '빗방울 벨',
+    category: 'toy',
+    rarity: 'common',
+    cost: 48,
+    minHabitatTier: 1,
+    effect: { need: 'happiness', slowdown: 5 },
+  },
+  {
+    id: 'clover-pot',
+    emoji: '☘️',
+    title: '클로버 화분',
+    category: 'plant',
+    rarity: 'common',
+    cost: 40,
+    minHabitatTier: 2,
+    effect: { need: 'happiness', slowdown: 5 },
+  },
+  {
+    id: 'straw-bed',
+    emoji: '🛏️',
+    title: '짚 침대',
+    category: 'furniture',
+    rarity: 'common',
+    cost: 55,
+    minHabitatTier: 2,
+    effect: { need: 'energy', slowdown: 8 },
+  },
+  {
+    id: 'yarn-ball',
+    emoji: '🧶',
+    title: '털실 뭉치',
+    category: 'toy',
+    rarity: 'rare',
+    cost: 70,
+    minHabitatTier: 2,
+    effect: { need: 'happiness', slowdown: 10 },
+  },
+  {
+    id: 'firefly-jar',
+    emoji: '🫙',
+    title: '반딧불 병',
+    category: 'light',
+    rarity: 'rare',
+    cost: 85,
+    minHabitatTier: 3,
+    effect: { need: 'energy', slowdown: 10 },
+  },
+  {
+    id: 'snack-bowl',
+    emoji: '🥣',
+    title: '간식 그릇',
+    category: 'furniture',
+    rarity: 'rare',
+    cost: 90,
+    minHabitatTier: 3,
+    effect: { need: 'hunger', slowdown: 10 },
+  },
+  {
+    id: 'bath-tub',
+    emoji: '🛁',
+    title: '작은 욕조',
+    category: 'furniture',
+    rarity: 'rare',
+    cost: 110,
+    minHabitatTier: 4,
+    effect: { need: 'cleanliness', slowdown: 12 },
+  },
+  {
+    id: 'cherry-tree',
+    emoji: '🌸',
+    title: '벚나무',
+    category: 'plant',
+    rarity: 'epic',
+    cost: 180,
+    minHabitatTier: 4,
+    effect: { need: 'happiness', slowdown: 15 },
+  },
+  {
+    id: 'moon-lamp',
+    emoji: '🌙',
+    title: '달빛 램프',
+    category: 'light',
+    rarity: 'epic',
+    cost: 220,
+    minHabitatTier: 5,
+    effect: { need: 'energy', slowdown: 15 },
+  },
+  {
+    id: 'treasure-chest',
+    emoji: '🧰',
+    title: '보물 상자',
+    category: 'toy',
+    rarity: 'epic',
+    cost: 260,
+    minHabitatTier: 5,
+    effect: { need: 'hunger', slowdown: 15 },
+  },
+];
+
+// Stacked effects never slow a need by more than this percent.
+export const MAX_DECORATION_SLOWDOWN = 40;
+
+export const getDecoration = (id: DecorationId): DecorationDefinition | undefined =>
+  DECORATION_CATALOG.find((item) => item.id === id);
+
+export const isDecorationUnlocked = (item: DecorationDefinition, habitatTier: number): boolean =>
+  habitatTier >= item.minHabitatTier;
+
+export const describeDecorationEffect = (effect: DecorationEffect): string =>
+  `${NEED_LABELS[effect.need]} 감소 -${effect.slowdown}%`;
+
+// Decay intervals stretched by the effects of every placed decoration.
+export const getDecayIntervals = (placedIds: DecorationId[]): Record<NeedKey, number> => {
+  const slowdown: Record<NeedKey, number> = { hunger: 0, energy: 0, happiness: 0, cleanliness: 0 };
+  placedIds.forEach((id) => {
+    const item = getDecoration(id);
+    if (item) {
+      slowdown[item.effect.need] += item.effect.slowdown;
+    }
+  });
+
+  const intervals = { ...NEED_DECAY_INTERVAL_MS };
+  NEED_KEYS.forEach((need) => {
+    const percent = Math.min(slowdown[need], MAX_DECORATION_SLOWDOWN);
+    intervals[need] = Math.round(NEED_DECAY_INTERVAL_MS[need] / (1 - percent / 100));
+  });
+  return intervals;
+};
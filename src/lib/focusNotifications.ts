@@ -0,0 +1,81 @@
+import * as Notifications from 'expo-notifications';
+import type { FocusSession } from './focusTimer';
+import { getFocusBonusXp } from './focusTimer';
+import { hasNotificationPermission, requestLockscreenPermission } from './lockscreenDigest';
+
+const FOCUS_ALERT_TYPE = 'focus-session';
+const FOCUS_ALERT_IDENTIFIER = 'focus-session-end';
+
+const alertContent = (session: FocusSession, todoTitle: string): { title: string; body: string } =>
+  session.phase === 'work'
+    ? {
+        title: `🍅 집중 완료: ${todoTitle}`,
+        body: `+${getFocusBonusXp(session.workMinutes)} XP! ${session.breakMinutes}분 쉬어 가요.`,
+      }
+    : { title: '☕ 휴식 끝', body: `${todoTitle}에 다시 집중해 볼까요?` };
+
+const reconcile = async (session: FocusSession | null, todoTitle: string): Promise<boolean> => {
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).find(
+    (request) => request.identifier === FOCUS_ALERT_IDENTIFIER
+  );
+  const content = session ? alertContent(session, todoTitle) : null;
+  if (
+    scheduled &&
+    session &&
+    content &&
+    scheduled.content.data?.fireAt === session.endsAt &&
+    scheduled.content.title === content.title
+  ) {
+    return true;
+  }
+  if (scheduled) {
+    await Notifications.cancelScheduledNotificationAsync(FOCUS_ALERT_IDENTIFIER);
+  }
+  if (!session || !content || session.endsAt <= Date.now()) {
+    return true;
+  }
+  if (!(await hasNotificationPermission())) {
+    return false;
+  }
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: FOCUS_ALERT_IDENTIFIER,
+    content: {
+      title: content.title,
+      body: content.body,
+      sound: 'default',
+      data: {
+        type: FOCUS_ALERT_TYPE,
+        fireAt: session.endsAt,
+      },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: session.endsAt,
+    },
+  });
+  return true;
+};
+
+let queue: Promise<boolean> = Promise.resolve(true);
+
+// Keeps one notification scheduled for the end of the running phase, so the user hears about
+// it while the app is in the background. Foreground completions are handled by the screen.
+export const reconcileFocusAlert = (
+  session: FocusSession | null,
+  todoTitle: string
+): Promise<boolean> => {
+  queue = queue.then(() => reconcile(session, todoTitle).catch(() => false));
+  return queue;
+};
+
+// Reconciling never prompts; the OS dialog only appears when the user starts a session.
+export const requestFocusAlertPermission = async (
+  session: FocusSession | null,
+  todoTitle: string
+): Promise<boolean> => {
+  if (!(await requestLockscreenPermission())) {
+    return false;
+  }
+  return reconcileFocusAlert(session, todoTitle);
+};
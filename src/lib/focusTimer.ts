@@ -0,0 +1,86 @@
+export type FocusPhase = 'work' | 'break';
+
+export interface FocusSettings {
+  workMinutes: number;
+  breakMinutes: number;
+}
+
+export interface FocusSession {
+  todoId: string;
+  phase: FocusPhase;
+  // Start of the work phase; the break starts when the work phase ends.
+  startedAt: number;
+  endsAt: number;
+  workMinutes: number;
+  breakMinutes: number;
+}
+
+export interface FocusLogEntry {
+  id: string;
+  todoId: string;
+  dateKey: string;
+  workMinutes: number;
+  xp: number;
+  completedAt: number;
+}
+
+export interface TodoFocusSummary {
+  sessions: number;
+  minutes: number;
+  xp: number;
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = { workMinutes: 25, breakMinutes: 5 };
+export const FOCUS_WORK_RANGE = { min: 5, max: 90 };
+export const FOCUS_BREAK_RANGE = { min: 1, max: 30 };
+export const FOCUS_WORK_OPTIONS = [15, 25, 45, 60];
+export const FOCUS_BREAK_OPTIONS = [3, 5, 10, 15];
+// Oldest sessions are dropped past this, so the log stays small in storage.
+export const MAX_FOCUS_LOG_ENTRIES = 300;
+
+const MINUTE_MS = 60 * 1000;
+
+// Two XP per five focused minutes, so a default 25 minute session is worth 10.
+export const getFocusBonusXp = (workMinutes: number): number =>
+  Math.max(2, Math.floor(workMinutes / 5) * 2);
+
+export const createFocusSession = (
+  todoId: string,
+  settings: FocusSettings,
+  now: number
+): FocusSession => ({
+  todoId,
+  phase: 'work',
+  startedAt: now,
+  endsAt: now + settings.workMinutes * MINUTE_MS,
+  workMinutes: settings.workMinutes,
+  breakMinutes: settings.breakMinutes,
+});
+
+export const getWorkEndsAt = (session: FocusSession): number =>
+  session.startedAt + session.workMinutes * MINUTE_MS;
+
+export const getBreakEndsAt = (session: FocusSession): number =>
+  getWorkEndsAt(session) + session.breakMinutes * MINUTE_MS;
+
+export const getRemainingMs = (session: FocusSession, now: number): number =>
+  Math.max(session.endsAt - now, 0);
+
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const summarizeTodoFocus = (log: FocusLogEntry[], todoId: string): TodoFocusSummary =>
+  log
+    .filter((entry) => entry.todoId === todoId)
+    .reduce(
+      (summary, entry) => ({
+        sessions: summary.sessions + 1,
+        minutes: summary.minutes + entry.workMinutes,
+        xp: summary.xp + entry.xp,
+      }),
+      { sessions: 0, minutes: 0, xp: 0 }
+    );
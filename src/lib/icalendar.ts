@@ -0,0 +1,275 @@
+import { addDaysToKey, isValidDateKey, toDateKey } from './dateKeys';
+import type { AddTodoInput, Quadrant, TodoItem } from '../store/petLoopStore';
+import { getTodoQuadrant } from './todoQuadrant';
+
+export type IcsComponentKind = 'VTODO' | 'VEVENT';
+
+export interface IcsExportOptions {
+  kind?: IcsComponentKind;
+  now?: Date;
+}
+
+export interface IcsImportResult {
+  todos: AddTodoInput[];
+  skipped: number;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const PRODUCT_ID = '-//PixelPaw//Pet Planner//KO';
+const MAX_LINE_OCTETS = 75;
+
+// RFC 5545 PRIORITY: 1-4 high, 5 medium, 6-9 low, 0 undefined.
+const PRIORITY_BY_QUADRANT: Record<Quadrant, number> = {
+  do: 1,
+  schedule: 3,
+  delegate: 5,
+  eliminate: 9,
+};
+
+const quadrantFromPriority = (priority: number): Quadrant | null => {
+  if (!Number.isFinite(priority) || priority <= 0) return null;
+  if (priority <= 2) return 'do';
+  if (priority <= 4) return 'schedule';
+  if (priority === 5) return 'delegate';
+  return 'eliminate';
+};
+
+const pad2 = (value: number): string => String(value).padStart(2, '0');
+
+const toIcsDate = (dateKey: string): string => dateKey.replace(/-/g, '');
+
+const toIcsUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}T` +
+  `${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`;
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Folds at 75 octets without splitting multi-byte characters such as Hangul.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const serializeTodo = (todo: TodoItem, kind: IcsComponentKind, stamp: string): string[] => {
+  const lines = [
+    `BEGIN:${kind}`,
+    `UID:${todo.id}@pixelpaw`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${toIcsUtc(new Date(todo.createdAt))}`,
+    `SUMMARY:${escapeText(todo.title)}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(todo.startDate)}`,
+  ];
+
+  const dueDate = todo.dueDateMode === 'date' ? todo.dueDate : null;
+  if (kind === 'VTODO') {
+    if (dueDate) {
+      lines.push(`DUE;VALUE=DATE:${toIcsDate(dueDate)}`);
+    }
+    lines.push(`STATUS:${todo.done ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    if (todo.done && todo.completedAt) {
+      lines.push(`COMPLETED:${toIcsUtc(new Date(todo.completedAt))}`);
+    }
+  } else {
+    // DTEND is exclusive for all-day events.
+    lines.push(`DTEND;VALUE=DATE:${toIcsDate(addDaysToKey(dueDate ?? todo.startDate, 1))}`);
+    lines.push('TRANSP:TRANSPARENT');
+  }
+
+  lines.push(`PRIORITY:${PRIORITY_BY_QUADRANT[getTodoQuadrant(todo)]}`);
+  lines.push(`END:${kind}`);
+  return lines;
+};
+
+export const serializeTodosToIcs = (todos: TodoItem[], options: IcsExportOptions = {}): string => {
+  const kind = options.kind ?? 'VTODO';
+  const stamp = toIcsUtc(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...todos.flatMap((todo) => serializeTodo(todo, kind, stamp)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      colonIndex = index;
+      break;
+    }
+  }
+  if (colonIndex <= 0) {
+    return null;
+  }
+
+  const [rawName, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return {
+    name: rawName.toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1),
+  };
+};
+
+// Floating and TZID times are read as wall-clock dates; UTC times are converted to the local day.
+const parseIcsDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) {
+    const date = new Date(
+      Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds))
+    );
+    return toDateKey(date);
+  }
+
+  const dateKey = `${year}-${month}-${day}`;
+  return isValidDateKey(dateKey) ? dateKey : null;
+};
+
+const componentToTodo = (
+  kind: IcsComponentKind,
+  properties: IcsProperty[]
+): AddTodoInput | null => {
+  const find = (name: string): IcsProperty | undefined =>
+    properties.find((property) => property.name === name);
+
+  const title = unescapeText(find('SUMMARY')?.value ?? '').trim();
+  const status = find('STATUS')?.value.toUpperCase();
+  if (!title || status === 'COMPLETED' || status === 'CANCELLED') {
+    return null;
+  }
+
+  const dtStart = find('DTSTART');
+  const startDate = dtStart ? parseIcsDate(dtStart.value) : null;
+
+  let dueDate: string | null = null;
+  if (kind === 'VTODO') {
+    const due = find('DUE');
+    dueDate = due ? parseIcsDate(due.value) : null;
+  } else {
+    const dtEnd = find('DTEND');
+    const endDate = dtEnd ? parseIcsDate(dtEnd.value) : null;
+    const allDay = dtEnd?.params.VALUE === 'DATE' || /^\d{8}$/.test(dtEnd?.value.trim() ?? '');
+    dueDate = endDate && allDay ? addDaysToKey(endDate, -1) : endDate ?? startDate;
+  }
+
+  const input: AddTodoInput = {
+    title,
+    startDate: startDate ?? dueDate ?? undefined,
+    dueDateMode: dueDate ? 'date' : 'unscheduled',
+    dueDate,
+  };
+
+  const quadrant = quadrantFromPriority(Number(find('PRIORITY')?.value));
+  if (quadrant) {
+    input.importance = quadrant === 'do' || quadrant === 'schedule';
+    input.urgency = quadrant === 'do' || quadrant === 'delegate';
+  }
+
+  return input;
+};
+
+export const parseIcsTodos = (text: string): IcsImportResult => {
+  const todos: AddTodoInput[] = [];
+  let skipped = 0;
+  let current: { kind: IcsComponentKind; properties: IcsProperty[] } | null = null;
+  let nestedDepth = 0;
+
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) {
+      return;
+    }
+
+    const value = property.value.trim().toUpperCase();
+    if (property.name === 'BEGIN') {
+      if (current) {
+        nestedDepth += 1;
+      } else if (value === 'VTODO' || value === 'VEVENT') {
+        current = { kind: value, properties: [] };
+      }
+      return;
+    }
+
+    if (property.name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth -= 1;
+      } else if (current && value === current.kind) {
+        const todo = componentToTodo(current.kind, current.properties);
+        if (todo) {
+          todos.push(todo);
+        } else {
+          skipped += 1;
+        }
+        current = null;
+      }
+      return;
+    }
+
+    // Properties of nested components such as VALARM are ignored.
+    if (current && nestedDepth === 0) {
+      current.properties.push(property);
+    }
+  });
+
+  return { todos, skipped };
+};
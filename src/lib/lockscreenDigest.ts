@@ -1,29 +1,67 @@
 import * as Notifications from 'expo-notifications';
-import type { TodoItem } from '../store/petLoopStore';
+import type { DigestSettings, TodoItem } from '../store/petLoopStore';
+import { dayDifference, toDateKey } from './dateKeys';
 
-const MAX_PREVIEW_ITEMS = 4;
+export const DEFAULT_PREVIEW_LIMIT = 4;
 
-const buildDigestBody = (todos: TodoItem[]): string => {
+const DIGEST_TYPE = 'todo-digest';
+
+type DigestSlot = 'morning' | 'evening';
+
+const DIGEST_SLOTS: Array<{
+  slot: DigestSlot;
+  identifier: string;
+  title: string;
+  timeKey: keyof Pick<DigestSettings, 'morningTime' | 'eveningTime'>;
+}> = [
+  { slot: 'morning', identifier: 'daily-digest-morning', title: '오늘의 투두 요약', timeKey: 'morningTime' },
+  { slot: 'evening', identifier: 'daily-digest-evening', title: '저녁 투두 점검', timeKey: 'eveningTime' },
+];
+
+export interface PlannedDigest {
+  identifier: string;
+  slot: DigestSlot;
+  time: string;
+  hour: number;
+  minute: number;
+  title: string;
+  body: string;
+}
+
+export const buildDigestBody = (
+  todos: TodoItem[],
+  previewLimit: number = DEFAULT_PREVIEW_LIMIT
+): string => {
   const openTodos = todos.filter((todo) => !todo.done);
   if (openTodos.length === 0) {
     return '남은 할 일이 없어요. 오늘도 잘했어요.';
   }
 
-  const lines = openTodos
-    .slice(0, MAX_PREVIEW_ITEMS)
-    .map((todo, index) => `${index + 1}. ${todo.title}`);
+  const limit = Math.max(1, Math.round(previewLimit));
+  const lines = openTodos.slice(0, limit).map((todo, index) => `${index + 1}. ${todo.title}`);
 
-  if (openTodos.length > MAX_PREVIEW_ITEMS) {
-    lines.push(`+${openTodos.length - MAX_PREVIEW_ITEMS}개 더 있음`);
+  if (openTodos.length > limit) {
+    lines.push(`+${openTodos.length - limit}개 더 있음`);
   }
 
   return lines.join('\n');
 };
 
-export const requestLockscreenPermission = async (): Promise<boolean> => {
+// Reads the current status without prompting, for work that runs without a user action.
+export const hasNotificationPermission = async (): Promise<boolean> => {
   try {
     const current = await Notifications.getPermissionsAsync();
-    if (current.granted || current.ios?.status === Notifications.IosAuthorizationStatus.PROVISIONAL) {
+    return (
+      current.granted || current.ios?.status === Notifications.IosAuthorizationStatus.PROVISIONAL
+    );
+  } catch {
+    return false;
+  }
+};
+
+export const requestLockscreenPermission = async (): Promise<boolean> => {
+  try {
+    if (await hasNotificationPermission()) {
       return true;
     }
 
@@ -44,7 +82,10 @@ export const requestLockscreenPermission = async (): Promise<boolean> => {
   }
 };
 
-export const sendLockscreenDigest = async (todos: TodoItem[]): Promise<boolean> => {
+export const sendLockscreenDigest = async (
+  todos: TodoItem[],
+  previewLimit: number = DEFAULT_PREVIEW_LIMIT
+): Promise<boolean> => {
   try {
     const granted = await requestLockscreenPermission();
     if (!granted) {
@@ -54,10 +95,10 @@ export const sendLockscreenDigest = async (todos: TodoItem[]): Promise<boolean>
     await Notifications.scheduleNotificationAsync({
       content: {
         title: '잠금화면 투두 요약',
-        body: buildDigestBody(todos),
+        body: buildDigestBody(todos, previewLimit),
         sound: 'default',
         data: {
-          type: 'todo-digest',
+          type: DIGEST_TYPE,
           createdAt: Date.now(),
         },
       },
@@ -69,3 +110,112 @@ export const sendLockscreenDigest = async (todos: TodoItem[]): Promise<boolean>
     return false;
   }
 };
+
+// Todos open on `dateKey`: unfinished and already started.
+const getOpenTodosOn = (todos: TodoItem[], dateKey: string): TodoItem[] =>
+  todos.filter((todo) => !todo.done && dayDifference(todo.startDate, dateKey) >= 0);
+
+// One repeating digest per enabled slot, listing the todos open today.
+export const planDailyDigests = (
+  todos: TodoItem[],
+  settings: DigestSettings,
+  todayKey: string = toDateKey()
+): PlannedDigest[] => {
+  const body = buildDigestBody(getOpenTodosOn(todos, todayKey), settings.previewLimit);
+  return DIGEST_SLOTS.flatMap((entry) => {
+    const time = settings[entry.timeKey];
+    if (!time) {
+      return [];
+    }
+    const [hour, minute] = time.split(':').map((part) => Number(part));
+    return [
+      {
+        identifier: entry.identifier,
+        slot: entry.slot,
+        time,
+        hour,
+        minute,
+        title: entry.title,
+        body,
+      },
+    ];
+  });
+};
+
+const syncDailyDigests = async (todos: TodoItem[], settings: DigestSettings): Promise<boolean> => {
+  const desired = planDailyDigests(todos, settings);
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).filter(
+    (request) => request.content.data?.type === DIGEST_TYPE && Boolean(request.content.data?.slot)
+  );
+
+  const upToDate = new Set<string>();
+  await Promise.all(
+    scheduled.map(async (request) => {
+      const digest = desired.find((entry) => entry.identifier === request.identifier);
+      if (
+        digest &&
+        request.content.body === digest.body &&
+        request.content.data?.time === digest.time
+      ) {
+        upToDate.add(request.identifier);
+        return;
+      }
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    })
+  );
+
+  const pending = desired.filter((digest) => !upToDate.has(digest.identifier));
+  if (pending.length === 0) {
+    return true;
+  }
+  if (!(await hasNotificationPermission())) {
+    return false;
+  }
+
+  await Promise.all(
+    pending.map((digest) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: digest.identifier,
+        content: {
+          title: digest.title,
+          body: digest.body,
+          sound: 'default',
+          data: {
+            type: DIGEST_TYPE,
+            slot: digest.slot,
+            time: digest.time,
+          },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DAILY,
+          hour: digest.hour,
+          minute: digest.minute,
+        },
+      })
+    )
+  );
+  return true;
+};
+
+let digestQueue: Promise<boolean> = Promise.resolve(true);
+
+// Daily triggers keep the body they were scheduled with, so callers re-run this whenever
+// the todos or the digest settings change. Never prompts for permission.
+export const scheduleDailyDigests = (
+  todos: TodoItem[],
+  settings: DigestSettings
+): Promise<boolean> => {
+  digestQueue = digestQueue.then(() => syncDailyDigests(todos, settings).catch(() => false));
+  return digestQueue;
+};
+
+// Asked only when the user turns a digest slot on.
+export const requestDigestPermission = async (
+  todos: TodoItem[],
+  settings: DigestSettings
+): Promise<boolean> => {
+  if (!(await requestLockscreenPermission())) {
+    return false;
+  }
+  return scheduleDailyDigests(todos, settings);
+};
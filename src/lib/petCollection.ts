@@ -0,0 +1,54 @@
+import type { CreatureType, PetProfile } from '../store/petLoopStore';
+
+export interface PetUnlockRule {
+  level: number | null;
+  coins: number | null;
+}
+
+export type PetUnlockState = 'owned' | 'free' | 'buy' | 'locked';
+
+export const STARTER_CREATURE: CreatureType = 'chick';
+
+// A pet is adopted for free once any owned pet reaches `level`, or bought early for `coins`.
+export const PET_UNLOCK_RULES: Record<CreatureType, PetUnlockRule> = {
+  chick: { level: 1, coins: null },
+  sprout: { level: 4, coins: 80 },
+  bunny: { level: 7, coins: 160 },
+  kitten: { level: 10, coins: 260 },
+  dino: { level: 15, coins: null },
+};
+
+export const DEFAULT_PET_NAMES: Record<CreatureType, string> = {
+  chick: '콩콩이',
+  sprout: '새순이',
+  bunny: '토토',
+  kitten: '나비',
+  dino: '공룡이',
+};
+
+export const getPetUnlockState = (
+  creature: CreatureType,
+  pets: Pick<PetProfile, 'creature' | 'level'>[],
+  coins: number
+): PetUnlockState => {
+  if (pets.some((pet) => pet.creature === creature)) {
+    return 'owned';
+  }
+  const rule = PET_UNLOCK_RULES[creature];
+  const highestLevel = pets.reduce((max, pet) => Math.max(max, pet.level), 0);
+  if (rule.level !== null && highestLevel >= rule.level) {
+    return 'free';
+  }
+  if (rule.coins !== null && coins >= rule.coins) {
+    return 'buy';
+  }
+  return 'locked';
+};
+
+export const describeUnlockRule = (creature: CreatureType): string => {
+  const rule = PET_UNLOCK_RULES[creature];
+  const parts: string[] = [];
+  if (rule.level !== null) parts.push(`Lv.${rule.level}`);
+  if (rule.coins !== null) parts.push(`${rule.coins}코인`);
+  return parts.join(' 또는 ');
+};
@@ -0,0 +1,137 @@
+import type { CreatureType } from '../store/petLoopStore';
+import type { PetNeeds } from './petNeeds';
+import {
+  FACE_COL,
+  FACE_PATCHES,
+  FACE_ROW,
+  PET_STAGE_SPRITES,
+  type FacePatchId,
+  type SpritePalette,
+} from '../constants/petSprites';
+
+export type EvolutionStage = 0 | 1 | 2;
+
+export type MoodKind = 'overdue' | 'hungry' | 'dirty' | 'great' | 'good' | 'tired' | 'bored';
+
+export type PetAnimation = 'idle' | 'happy' | 'tired' | 'eating';
+
+export interface EvolutionRule {
+  level: number;
+  careCount: number;
+}
+
+export interface SpriteFrame {
+  rows: string[];
+  offsetY: number;
+  effect: string | null;
+}
+
+export interface SpriteSheet {
+  name: string;
+  palette: SpritePalette;
+  fps: number;
+  frames: Record<PetAnimation, SpriteFrame[]>;
+}
+
+// Stage n+1 needs both the level and the care history below; stage 0 has no requirement.
+export const EVOLUTION_RULES: EvolutionRule[] = [
+  { level: 3, careCount: 3 },
+  { level: 8, careCount: 15 },
+];
+
+export const getEvolutionStage = (level: number, careCount: number): EvolutionStage => {
+  let stage = 0;
+  EVOLUTION_RULES.forEach((rule, index) => {
+    if (stage === index && level >= rule.level && careCount >= rule.careCount) {
+      stage = index + 1;
+    }
+  });
+  return stage as EvolutionStage;
+};
+
+// Care history that lets a pet of `level` hold every stage its level already allows.
+export const getCareCountForLevel = (level: number): number =>
+  EVOLUTION_RULES.reduce((count, rule) => (level >= rule.level ? rule.careCount : count), 0);
+
+// The next stage's requirement, or null once the pet is fully grown.
+export const getNextEvolutionRule = (stage: EvolutionStage): EvolutionRule | null =>
+  EVOLUTION_RULES[stage] ?? null;
+
+export const getStageName = (creature: CreatureType, stage: EvolutionStage): string =>
+  PET_STAGE_SPRITES[creature][stage].name;
+
+export const getMoodKind = (needs: PetNeeds, overdueCount: number): MoodKind => {
+  if (overdueCount >= 3) return 'overdue';
+  if (needs.hunger < 25) return 'hungry';
+  if (needs.cleanliness < 25) return 'dirty';
+  if (needs.happiness >= 75 && needs.energy >= 65) return 'great';
+  if (needs.happiness >= 55) return 'good';
+  if (needs.energy < 35) return 'tired';
+  return 'bored';
+};
+
+export const pickPetAnimation = (mood: MoodKind, eating: boolean): PetAnimation => {
+  if (eating) return 'eating';
+  if (mood === 'great') return 'happy';
+  if (mood === 'tired' || mood === 'overdue' || mood === 'hungry' || mood === 'dirty') {
+    return 'tired';
+  }
+  return 'idle';
+};
+
+const stampFace = (rows: string[], patchId: FacePatchId): string[] => {
+  const patch = FACE_PATCHES[patchId];
+  return rows.map((row, rowIndex) => {
+    const patchRow = patch[rowIndex - FACE_ROW];
+    if (!patchRow) {
+      return row;
+    }
+    const chars = row.split('');
+    patchRow.split('').forEach((char, offset) => {
+      if (char !== '_') {
+        chars[FACE_COL + offset] = char;
+      }
+    });
+    return chars.join('');
+  });
+};
+
+type FrameSpec = [FacePatchId, number, string | null];
+
+const ANIMATION_FRAMES: Record<PetAnimation, FrameSpec[]> = {
+  idle: [
+    ['open', 0, null],
+    ['open', 0, null],
+    ['open', -1, null],
+    ['blink', 0, null],
+  ],
+  happy: [
+    ['blush', 0, '♥'],
+    ['blush', -2, null],
+    ['blush', -3, '♥'],
+    ['blush', -1, null],
+  ],
+  tired: [
+    ['sleepy', 0, 'z'],
+    ['sleepy', 0, 'zz'],
+    ['sleepy', 1, 'zzz'],
+    ['sleepy', 1, null],
+  ],
+  eating: [
+    ['munchOpen', 0, null],
+    ['munchClosed', 1, null],
+  ],
+};
+
+export const buildSpriteSheet = (creature: CreatureType, stage: EvolutionStage): SpriteSheet => {
+  const sprite = PET_STAGE_SPRITES[creature][stage];
+  const frames = {} as Record<PetAnimation, SpriteFrame[]>;
+  (Object.keys(ANIMATION_FRAMES) as PetAnimation[]).forEach((animation) => {
+    frames[animation] = ANIMATION_FRAMES[animation].map(([patchId, offsetY, effect]) => ({
+      rows: stampFace(sprite.rows, patchId),
+      offsetY,
+      effect,
+    }));
+  });
+  return { name: sprite.name, palette: sprite.palette, fps: 3, frames };
+};
@@ -0,0 +1,105 @@
+import type { ItemId } from '../store/petLoopStore';
+import { NEED_KEYS, NEED_LABELS } from './petNeeds';
+import type { PetNeeds } from './petNeeds';
+
+export type ItemKind = 'food' | 'toy' | 'potion' | 'care';
+
+export interface ItemDefinition {
+  id: ItemId;
+  emoji: string;
+  title: string;
+  kind: ItemKind;
+  cost: number;
+  // Added to each need when used; negative values drain it.
+  effect: Partial<PetNeeds>;
+  xp: number;
+}
+
+export const MAX_ITEM_STACK = 99;
+
+export const PET_ITEMS: ItemDefinition[] = [
+  {
+    id: 'snack',
+    emoji: '🍪',
+    title: '간식',
+    kind: 'food',
+    cost: 8,
+    effect: { hunger: 15, happiness: 4 },
+    xp: 0,
+  },
+  {
+    id: 'meal',
+    emoji: '🍱',
+    title: '든든한 식사',
+    kind: 'food',
+    cost: 20,
+    effect: { hunger: 40, energy: 10 },
+    xp: 0,
+  },
+  {
+    id: 'cake',
+    emoji: '🍰',
+    title: '조각 케이크',
+    kind: 'food',
+    cost: 36,
+    effect: { hunger: 25, happiness: 18, cleanliness: -4 },
+    xp: 0,
+  },
+  {
+    id: 'ball',
+    emoji: '⚽',
+    title: '공놀이',
+    kind: 'toy',
+    cost: 10,
+    effect: { happiness: 16, energy: -7, hunger: -4, cleanliness: -6 },
+    xp: 3,
+  },
+  {
+    id: 'puzzle',
+    emoji: '🧩',
+    title: '퍼즐 장난감',
+    kind: 'toy',
+    cost: 24,
+    effect: { happiness: 12, energy: -3 },
+    xp: 8,
+  },
+  {
+    id: 'energy-potion',
+    emoji: '🧪',
+    title: '기운 물약',
+    kind: 'potion',
+    cost: 30,
+    effect: { energy: 35 },
+    xp: 0,
+  },
+  {
+    id: 'soap',
+    emoji: '🧼',
+    title: '거품 비누',
+    kind: 'care',
+    cost: 12,
+    effect: { cleanliness: 40, happiness: 3 },
+    xp: 0,
+  },
+];
+
+// What a brand-new (or upgraded) player finds in the bag.
+export const STARTER_INVENTORY: Partial<Record<ItemId, number>> = {
+  snack: 3,
+  ball: 2,
+  soap: 1,
+};
+
+export const getItem = (id: ItemId): ItemDefinition | undefined =>
+  PET_ITEMS.find((item) => item.id === id);
+
+export const describeItemEffect = (item: ItemDefinition): string => {
+  const parts = NEED_KEYS.filter((need) => item.effect[need]).map((need) => {
+    const value = item.effect[need] ?? 0;
+    return `${NEED_LABELS[need]} ${value > 0 ? '+' : ''}${value}`;
+  });
+  if (item.xp > 0) {
+    parts.push(`XP +${item.xp}`);
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,98 @@
+import * as Notifications from 'expo-notifications';
+import { NEED_LABELS, predictNeedAlerts } from './petNeeds';
+import type { NeedAlert, NeedKey, NeedsClock, PetNeeds } from './petNeeds';
+import { hasNotificationPermission } from './lockscreenDigest';
+
+const NEED_ALERT_TYPE = 'pet-need';
+const IDENTIFIER_PREFIX = 'pet-need-';
+
+const NEED_ALERT_MESSAGES: Record<NeedKey, string> = {
+  hunger: '배가 고파요. 먹이를 챙겨 주세요.',
+  energy: '기운이 없어요. 쉬게 해 주세요.',
+  happiness: '심심해요. 같이 놀아 주세요.',
+  cleanliness: '꼬질꼬질해요. 씻겨 주세요.',
+};
+
+const alertIdentifier = (alert: NeedAlert): string =>
+  `${IDENTIFIER_PREFIX}${alert.need}-${alert.threshold}`;
+
+const alertTitle = (petName: string, alert: NeedAlert): string =>
+  `${petName}의 ${NEED_LABELS[alert.need]} ${alert.threshold}%`;
+
+const reconcile = async (
+  enabled: boolean,
+  petName: string,
+  needs: PetNeeds,
+  clock: NeedsClock,
+  intervals: Record<NeedKey, number>
+): Promise<boolean> => {
+  const now = Date.now();
+  const desired = enabled
+    ? predictNeedAlerts(needs, clock, intervals).filter((alert) => alert.fireAt > now)
+    : [];
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).filter(
+    (request) => request.content.data?.type === NEED_ALERT_TYPE
+  );
+
+  const upToDate = new Set<string>();
+  await Promise.all(
+    scheduled.map(async (request) => {
+      const alert = desired.find((entry) => alertIdentifier(entry) === request.identifier);
+      if (
+        alert &&
+        request.content.data?.fireAt === alert.fireAt &&
+        request.content.title === alertTitle(petName, alert)
+      ) {
+        upToDate.add(request.identifier);
+        return;
+      }
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    })
+  );
+
+  const pending = desired.filter((alert) => !upToDate.has(alertIdentifier(alert)));
+  if (pending.length === 0) {
+    return true;
+  }
+  if (!(await hasNotificationPermission())) {
+    return false;
+  }
+
+  await Promise.all(
+    pending.map((alert) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: alertIdentifier(alert),
+        content: {
+          title: alertTitle(petName, alert),
+          body: NEED_ALERT_MESSAGES[alert.need],
+          sound: 'default',
+          data: {
+            type: NEED_ALERT_TYPE,
+            fireAt: alert.fireAt,
+          },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: alert.fireAt,
+        },
+      })
+    )
+  );
+  return true;
+};
+
+let queue: Promise<boolean> = Promise.resolve(true);
+
+// Schedules one notification for each threshold a need will cross if nobody cares for the
+// pet. Re-run whenever needs change; outdated predictions are replaced. Never prompts for
+// permission; while alerts are switched off every pending one is cancelled.
+export const reconcileNeedAlerts = (
+  enabled: boolean,
+  petName: string,
+  needs: PetNeeds,
+  clock: NeedsClock,
+  intervals: Record<NeedKey, number>
+): Promise<boolean> => {
+  queue = queue.then(() => reconcile(enabled, petName, needs, clock, intervals).catch(() => false));
+  return queue;
+};
@@ -0,0 +1,81 @@
+export type NeedKey = 'hunger' | 'energy' | 'happiness' | 'cleanliness';
+
+// 100 means fully satisfied; every need drains toward 0 while time passes.
+export type PetNeeds = Record<NeedKey, number>;
+
+// Per-need timestamp of the last whole point already taken off.
+export type NeedsClock = Record<NeedKey, number>;
+
+export interface NeedAlert {
+  need: NeedKey;
+  threshold: number;
+  fireAt: number;
+}
+
+export const NEED_KEYS: NeedKey[] = ['hunger', 'energy', 'happiness', 'cleanliness'];
+
+const MINUTE_MS = 60 * 1000;
+
+// Milliseconds it takes each need to lose one point.
+export const NEED_DECAY_INTERVAL_MS: Record<NeedKey, number> = {
+  hunger: 30 * MINUTE_MS,
+  energy: 150 * MINUTE_MS,
+  happiness: 240 * MINUTE_MS,
+  cleanliness: 60 * MINUTE_MS,
+};
+
+// Alerts fire when a need drops to or below one of these values, highest first.
+export const NEED_ALERT_THRESHOLDS = [30, 15];
+
+export const NEED_LABELS: Record<NeedKey, string> = {
+  hunger: '배부름',
+  energy: '에너지',
+  happiness: '행복',
+  cleanliness: '청결',
+};
+
+export const createNeedsClock = (now: number): NeedsClock => ({
+  hunger: now,
+  energy: now,
+  happiness: now,
+  cleanliness: now,
+});
+
+/**
+ * Takes off one point per full decay interval elapsed since each need's clock.
+ * Only whole intervals are consumed, so the leftover carries into the next call and the
+ * result is the same whether the app checks once a day or every minute.
+ */
+export const decayNeeds = (
+  needs: PetNeeds,
+  clock: NeedsClock,
+  now: number,
+  intervals: Record<NeedKey, number> = NEED_DECAY_INTERVAL_MS
+): { needs: PetNeeds; clock: NeedsClock } => {
+  const nextNeeds = { ...needs };
+  const nextClock = { ...clock };
+  NEED_KEYS.forEach((need) => {
+    const interval = intervals[need];
+    const points = Math.floor(Math.max(now - clock[need], 0) / interval);
+    if (points === 0) {
+      return;
+    }
+    nextNeeds[need] = Math.max(needs[need] - points, 0);
+    nextClock[need] = clock[need] + points * interval;
+  });
+  return { needs: nextNeeds, clock: nextClock };
+};
+
+// When each need will reach each alert threshold it is still above, given no care meanwhile.
+export const predictNeedAlerts = (
+  needs: PetNeeds,
+  clock: NeedsClock,
+  intervals: Record<NeedKey, number> = NEED_DECAY_INTERVAL_MS
+): NeedAlert[] =>
+  NEED_KEYS.flatMap((need) =>
+    NEED_ALERT_THRESHOLDS.filter((threshold) => needs[need] > threshold).map((threshold) => ({
+      need,
+      threshold,
+      fireAt: clock[need] + (needs[need] - threshold) * intervals[need],
+    }))
+  ).sort((a, b) => a.fireAt - b.fireAt);
@@ -0,0 +1,128 @@
+import { addDaysToKey, dayDifference, parseDateKey, toDateKey } from './dateKeys';
+import type { CompletionJournalEntry, Quadrant } from '../store/petLoopStore';
+
+export interface HeatmapCell {
+  dateKey: string;
+  count: number;
+  level: 0 | 1 | 2 | 3 | 4;
+  inRange: boolean;
+}
+
+export interface QuadrantShare {
+  quadrant: Quadrant;
+  count: number;
+  ratio: number;
+}
+
+export interface OnTimeSummary {
+  onTime: number;
+  overdue: number;
+  rate: number | null;
+}
+
+const DAYS_PER_WEEK = 7;
+const QUADRANTS: Quadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
+
+export const getYearRangeStart = (todayKey: string): string => {
+  const today = parseDateKey(todayKey);
+  return addDaysToKey(toDateKey(new Date(today.getFullYear() - 1, today.getMonth(), today.getDate())), 1);
+};
+
+const toHeatLevel = (count: number, max: number): HeatmapCell['level'] => {
+  if (count <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4)) as HeatmapCell['level'];
+};
+
+// Sunday-first week columns covering the last 12 months, padded to whole weeks.
+export const buildCompletionHeatmap = (
+  completionLog: Record<string, number>,
+  todayKey: string = toDateKey()
+): HeatmapCell[][] => {
+  const rangeStart = getYearRangeStart(todayKey);
+  const gridStart = addDaysToKey(rangeStart, -parseDateKey(rangeStart).getDay());
+  const totalDays = dayDifference(gridStart, todayKey) + 1;
+  const weekCount = Math.ceil(totalDays / DAYS_PER_WEEK);
+
+  let max = 0;
+  for (let offset = 0; offset < totalDays; offset += 1) {
+    max = Math.max(max, completionLog[addDaysToKey(gridStart, offset)] ?? 0);
+  }
+
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: DAYS_PER_WEEK }, (_, day) => {
+      const dateKey = addDaysToKey(gridStart, week * DAYS_PER_WEEK + day);
+      const inRange =
+        dayDifference(rangeStart, dateKey) >= 0 && dayDifference(dateKey, todayKey) >= 0;
+      const count = inRange ? completionLog[dateKey] ?? 0 : 0;
+      return { dateKey, count, level: toHeatLevel(count, max), inRange };
+    })
+  );
+};
+
+// Averages only over days since tracking began, so a new user is not diluted by empty months.
+export const averageByWeekday = (
+  completionLog: Record<string, number>,
+  todayKey: string = toDateKey()
+): number[] => {
+  const rangeStart = getYearRangeStart(todayKey);
+  const trackedKeys = Object.keys(completionLog).filter(
+    (key) => dayDifference(rangeStart, key) >= 0 && dayDifference(key, todayKey) >= 0
+  );
+  if (trackedKeys.length === 0) {
+    return Array(DAYS_PER_WEEK).fill(0);
+  }
+
+  const firstKey = trackedKeys.reduce((min, key) => (key < min ? key : min));
+  const totals = Array(DAYS_PER_WEEK).fill(0);
+  const occurrences = Array(DAYS_PER_WEEK).fill(0);
+  const span = dayDifference(firstKey, todayKey);
+  for (let offset = 0; offset <= span; offset += 1) {
+    const dateKey = addDaysToKey(firstKey, offset);
+    const weekday = parseDateKey(dateKey).getDay();
+    totals[weekday] += completionLog[dateKey] ?? 0;
+    occurrences[weekday] += 1;
+  }
+  return totals.map((total, weekday) =>
+    occurrences[weekday] === 0 ? 0 : total / occurrences[weekday]
+  );
+};
+
+export const getQuadrantShare = (entries: CompletionJournalEntry[]): QuadrantShare[] => {
+  const counts = QUADRANTS.map(
+    (quadrant) => entries.filter((entry) => entry.quadrant === quadrant).length
+  );
+  return QUADRANTS.map((quadrant, index) => ({
+    quadrant,
+    count: counts[index],
+    ratio: entries.length === 0 ? 0 : counts[index] / entries.length,
+  }));
+};
+
+// Only completions that had a due date count toward the rate.
+export const getOnTimeSummary = (entries: CompletionJournalEntry[]): OnTimeSummary => {
+  let onTime = 0;
+  let overdue = 0;
+  entries.forEach((entry) => {
+    if (!entry.dueDate) return;
+    if (dayDifference(entry.dateKey, entry.dueDate) >= 0) {
+      onTime += 1;
+    } else {
+      overdue += 1;
+    }
+  });
+  const total = onTime + overdue;
+  return { onTime, overdue, rate: total === 0 ? null : onTime / total };
+};
+
+export const getLongestStreak = (completionLog: Record<string, number>): number => {
+  const keys = Object.keys(completionLog)
+    .filter((key) => (completionLog[key] ?? 0) > 0)
+    .sort();
+  let best = 0;
+  let run = 0;
+  keys.forEach((key, index) => {
+    run = index > 0 && dayDifference(keys[index - 1], key) === 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+};
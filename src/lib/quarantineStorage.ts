@@ -0,0 +1,82 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+
+// Keys whose backup failed. Writes are refused for the rest of the session so
+// the unreadable original is never replaced by a fresh default state.
+const readOnlyKeys = new Set<string>();
+// Backups still being written. Writes to the same key wait for them, so a caller may start a
+// backup without awaiting it and still never overwrite the original first.
+const pendingBackups = new Map<string, Promise<unknown>>();
+
+export const getQuarantineKey = (name: string, now: number = Date.now()): string =>
+  `${name}:quarantine:${now}`;
+
+const backupBlob = async (name: string, raw: string): Promise<string | null> => {
+  const key = getQuarantineKey(name);
+  try {
+    await AsyncStorage.setItem(key, raw);
+    return key;
+  } catch (error) {
+    console.warn(`Failed to quarantine ${name}; keeping it read-only`, error);
+    readOnlyKeys.add(name);
+    return null;
+  }
+};
+
+export const quarantineBlob = (name: string, raw: string): Promise<string | null> => {
+  const backup = (pendingBackups.get(name) ?? Promise.resolve()).then(() => backupBlob(name, raw));
+  pendingBackups.set(name, backup);
+  return backup;
+};
+
+const waitForBackups = async (name: string): Promise<void> => {
+  await pendingBackups.get(name);
+};
+
+export const parseStorageValue = <S>(raw: string): StorageValue<S> | null => {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+    const { state, version } = parsed as Record<string, unknown>;
+    if (!state || typeof state !== 'object' || Array.isArray(state)) {
+      return null;
+    }
+    return {
+      state: state as S,
+      version: typeof version === 'number' && Number.isFinite(version) ? version : 0,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const createQuarantiningStorage = <S>(): PersistStorage<S> => ({
+  getItem: async (name) => {
+    const raw = await AsyncStorage.getItem(name);
+    if (raw === null) {
+      return null;
+    }
+
+    const value = parseStorageValue<S>(raw);
+    if (!value) {
+      await quarantineBlob(name, raw);
+    }
+    return value;
+  },
+  setItem: async (name, value) => {
+    await waitForBackups(name);
+    if (readOnlyKeys.has(name)) {
+      return;
+    }
+    await AsyncStorage.setItem(name, JSON.stringify(value));
+  },
+  removeItem: async (name) => {
+    await waitForBackups(name);
+    if (readOnlyKeys.has(name)) {
+      return;
+    }
+    await AsyncStorage.removeItem(name);
+  },
+});
@@ -0,0 +1,443 @@
+import type { AddTodoInput, TodoTag } from '../store/petLoopStore';
+import type { RepeatRule } from './recurrence';
+import { addDaysToKey, dayDifference, isValidDateKey, parseDateKey } from './dateKeys';
+import { describeRepeatRule, occursOn } from './recurrence';
+import { formatTimeRange, minutesToTimeKey, normalizeTimeRange } from './timeKeys';
+
+export type QuickAddChipKind = 'date' | 'due' | 'time' | 'repeat' | 'priority' | 'tag' | 'newTag';
+
+export interface QuickAddChip {
+  kind: QuickAddChipKind;
+  label: string;
+}
+
+export interface QuickAddContext {
+  today: string;
+  tags: TodoTag[];
+}
+
+export interface QuickAddResult {
+  // Only the fields the phrase mentioned; the form fills in the rest.
+  input: AddTodoInput;
+  // `#tags` that do not exist yet, in the order they were typed.
+  newTagNames: string[];
+  chips: QuickAddChip[];
+}
+
+// Phrases are matched between whitespace, since \b does not work next to Hangul.
+const START = '(?:^|\\s)';
+const END = '(?=\\s|$)';
+
+const KO_WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+const EN_WEEKDAYS: Array<[number, string]> = [
+  [0, 'sunday|sun'],
+  [1, 'monday|mon'],
+  [2, 'tuesday|tues|tue'],
+  [3, 'wednesday|wed'],
+  [4, 'thursday|thurs|thur|thu'],
+  [5, 'friday|fri'],
+  [6, 'saturday|sat'],
+];
+const EN_WEEKDAY_SOURCE = EN_WEEKDAYS.map(([, names]) => names).join('|');
+const KO_WEEKDAY_SOURCE = `[${KO_WEEKDAYS.join('')}]요일`;
+// Full names only for dates, so a stray "sun" or "wed" stays in the title.
+const EN_WEEKDAY_FULL_SOURCE = EN_WEEKDAYS.map(([, names]) => names.split('|')[0]).join('|');
+
+const KO_MERIDIEM_PM = ['오후', '낮', '저녁', '밤'];
+// "3시" with no 오전/오후 is read as the afternoon up to this hour.
+const LATEST_IMPLIED_PM_HOUR = 7;
+
+const TIME_ATOM_SOURCE = [
+  '(?:(?:오전|오후|아침|낮|저녁|밤)\\s?)?\\d{1,2}시(?:\\s?\\d{1,2}분|\\s?반)?',
+  '\\d{1,2}(?::\\d{2})?\\s?(?:am|pm)',
+  '(?:[01]?\\d|2[0-3]):[0-5]\\d',
+].join('|');
+
+const PRIORITY_FLAGS: Record<string, Pick<AddTodoInput, 'importance' | 'urgency'>> = {
+  긴급: { urgency: true },
+  urgent: { urgency: true },
+  중요: { importance: true },
+  important: { importance: true },
+  낮음: { importance: false, urgency: false },
+  low: { importance: false, urgency: false },
+  q1: { importance: true, urgency: true },
+  q2: { importance: true, urgency: false },
+  q3: { importance: false, urgency: true },
+  q4: { importance: false, urgency: false },
+};
+
+const parseEnWeekday = (word: string): number => {
+  const lower = word.toLowerCase();
+  const found = EN_WEEKDAYS.find(([, names]) => names.split('|').includes(lower));
+  return found ? found[0] : -1;
+};
+
+const parseKoWeekday = (word: string): number => KO_WEEKDAYS.indexOf(word.charAt(0));
+
+// "월·수·금요일" or "월수금": strip 요일 first, since its 일 would read as Sunday.
+const parseKoWeekdayList = (list: string): number[] =>
+  list
+    .replace(/요일/g, '')
+    .split('')
+    .map((char) => KO_WEEKDAYS.indexOf(char))
+    .filter((day) => day >= 0);
+
+const parseEnWeekdayList = (list: string): number[] =>
+  (list.match(new RegExp(EN_WEEKDAY_SOURCE, 'gi')) ?? []).map(parseEnWeekday).filter((day) => day >= 0);
+
+const weekdayOf = (dateKey: string): number => parseDateKey(dateKey).getDay();
+
+// The next `weekday` on or after today.
+const upcomingWeekday = (today: string, weekday: number): string =>
+  addDaysToKey(today, (weekday - weekdayOf(today) + 7) % 7);
+
+// Weeks start on Monday, so "next week's Sunday" is the Sunday closing next week.
+const weekdayInWeek = (today: string, weekday: number, weekOffset: number): string => {
+  const monday = addDaysToKey(today, -((weekdayOf(today) + 6) % 7) + weekOffset * 7);
+  return addDaysToKey(monday, (weekday + 6) % 7);
+};
+
+// Month/day without a year: this year, or next year once that day has passed.
+const upcomingMonthDay = (today: string, month: number, day: number): string | null => {
+  const year = parseDateKey(today).getFullYear();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const thisYear = `${year}-${pad(month)}-${pad(day)}`;
+  if (!isValidDateKey(thisYear)) {
+    return null;
+  }
+  return dayDifference(today, thisYear) >= 0 ? thisYear : `${year + 1}-${pad(month)}-${pad(day)}`;
+};
+
+// First day on or after today the rule fires.
+const firstOccurrence = (rule: RepeatRule, today: string): string => {
+  for (let offset = 0; offset < 366; offset += 1) {
+    const dateKey = addDaysToKey(today, offset);
+    if (occursOn(rule, today, dateKey)) {
+      return dateKey;
+    }
+  }
+  return today;
+};
+
+const parseTimeAtom = (raw: string, fallbackPm: boolean | null): number | null => {
+  const text = raw.trim().toLowerCase();
+
+  const korean = /^(?:(오전|오후|아침|낮|저녁|밤)\s?)?(\d{1,2})시(?:\s?(\d{1,2})분|\s?(반))?$/.exec(text);
+  if (korean) {
+    const [, meridiem, hourText, minuteText, half] = korean;
+    let hours = Number(hourText);
+    const minutes = half ? 30 : Number(minuteText ?? 0);
+    const pm = meridiem ? KO_MERIDIEM_PM.includes(meridiem) : fallbackPm;
+    if (hours > 24 || minutes > 59) return null;
+    if (pm === true && hours < 12) hours += 12;
+    else if (pm === false && hours === 12) hours = 0;
+    else if (pm === null && hours >= 1 && hours <= LATEST_IMPLIED_PM_HOUR) hours += 12;
+    return hours === 24 ? null : hours * 60 + minutes;
+  }
+
+  const english = /^(\d{1,2})(?::(\d{2}))?\s?(am|pm)$/.exec(text);
+  if (english) {
+    const [, hourText, minuteText, meridiem] = english;
+    const hours = Number(hourText);
+    const minutes = Number(minuteText ?? 0);
+    if (hours < 1 || hours > 12 || minutes > 59) return null;
+    return ((hours % 12) + (meridiem === 'pm' ? 12 : 0)) * 60 + minutes;
+  }
+
+  const clock = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(text);
+  return clock ? Number(clock[1]) * 60 + Number(clock[2]) : null;
+};
+
+const RELATIVE_DAY_LABELS = ['오늘', '내일', '모레'];
+
+const formatDateChip = (dateKey: string, today: string): string => {
+  const offset = dayDifference(today, dateKey);
+  if (offset >= 0 && offset < RELATIVE_DAY_LABELS.length) {
+    return RELATIVE_DAY_LABELS[offset];
+  }
+  const date = parseDateKey(dateKey);
+  return `${date.getMonth() + 1}/${date.getDate()}(${KO_WEEKDAYS[date.getDay()]})`;
+};
+
+interface PhraseMatch<T> {
+  index: number;
+  length: number;
+  value: T;
+}
+
+type PhraseRule<T> = { pattern: RegExp; read: (match: RegExpExecArray) => T | null };
+
+// Earliest phrase any rule accepts, so "내일 ... 금요일까지" reads left to right.
+const findFirstPhrase = <T>(text: string, rules: PhraseRule<T>[]): PhraseMatch<T> | null => {
+  let best: PhraseMatch<T> | null = null;
+  for (const rule of rules) {
+    const pattern = new RegExp(rule.pattern.source, 'gi');
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (best && best.index <= match.index) {
+        break;
+      }
+      const value = rule.read(match);
+      if (value !== null) {
+        best = { index: match.index, length: match[0].length, value };
+        break;
+      }
+    }
+  }
+  return best;
+};
+
+const cutPhrase = (text: string, phrase: PhraseMatch<unknown>): string =>
+  `${text.slice(0, phrase.index)} ${text.slice(phrase.index + phrase.length)}`;
+
+const buildRepeatRules = (today: string): PhraseRule<RepeatRule>[] => {
+  const koDay = `[${KO_WEEKDAYS.join('')}](?:요일)?`;
+  const koWeekdayList = `${koDay}(?:\\s?[,·]?\\s?${koDay})*`;
+  const enWeekdayList = `(?:${EN_WEEKDAY_SOURCE})(?:\\s?(?:,|and|&)\\s?(?:${EN_WEEKDAY_SOURCE}))*`;
+  const weeklyFrom = (weekdays: number[]): RepeatRule | null =>
+    weekdays.length > 0
+      ? { kind: 'weekly', weekdays: Array.from(new Set(weekdays)).sort((a, b) => a - b) }
+      : null;
+
+  return [
+    { pattern: new RegExp(`${START}(?:매일|every\\s?day)${END}`), read: () => ({ kind: 'daily' }) },
+    {
+      pattern: new RegExp(`${START}(?:매주\\s?평일|평일\\s?마다|every\\s+weekday)${END}`),
+      read: () => ({ kind: 'weekdays' }),
+    },
+    {
+      pattern: new RegExp(`${START}(?:매주\\s?(${koWeekdayList})|(${koWeekdayList})\\s?마다)${END}`),
+      read: (match) => weeklyFrom(parseKoWeekdayList(match[1] ?? match[2])),
+    },
+    {
+      pattern: new RegExp(`${START}every\\s+(${enWeekdayList})${END}`),
+      read: (match) => weeklyFrom(parseEnWeekdayList(match[1])),
+    },
+    {
+      pattern: new RegExp(`${START}(?:(\\d{1,3})일\\s?마다|every\\s+(\\d{1,3})\\s+days)${END}`),
+      read: (match) => {
+        const interval = Number(match[1] ?? match[2]);
+        return interval >= 1 ? { kind: 'everyNDays', interval } : null;
+      },
+    },
+    {
+      pattern: new RegExp(
+        `${START}(?:매(?:월|달)\\s?(\\d{1,2})일|every\\s+month\\s+on\\s+the\\s+(\\d{1,2})(?:st|nd|rd|th)?)${END}`
+      ),
+      read: (match) => {
+        const monthDay = Number(match[1] ?? match[2]);
+        return monthDay >= 1 && monthDay <= 31 ? { kind: 'monthly', monthDay } : null;
+      },
+    },
+    {
+      pattern: new RegExp(`${START}(?:매주|every\\s+week)${END}`),
+      read: () => ({ kind: 'weekly', weekdays: [weekdayOf(today)] }),
+    },
+    {
+      pattern: new RegExp(`${START}(?:매(?:월|달)|every\\s+month)${END}`),
+      read: () => ({ kind: 'monthly', monthDay: parseDateKey(today).getDate() }),
+    },
+  ];
+};
+
+interface DatePhrase {
+  dateKey: string;
+  deadline: boolean;
+}
+
+const buildDateRules = (today: string): PhraseRule<DatePhrase>[] => {
+  // Korean deadlines end in 까지; English ones start with "by" or "due". "on" only marks a date.
+  const wrap = (body: string, read: (match: RegExpExecArray, offset: number) => string | null) => ({
+    pattern: new RegExp(`${START}(?:((?:by|due)\\s+)|(on\\s+))?(?:${body})(까지)?${END}`),
+    read: (match: RegExpExecArray) => {
+      const dateKey = read(match, 3);
+      return dateKey ? { dateKey, deadline: Boolean(match[1] || match[match.length - 1]) } : null;
+    },
+  });
+  // A bare "1/2" in the middle of a sentence is more likely a fraction than a date.
+  const isStandaloneOrMarked = (match: RegExpExecArray): boolean =>
+    Boolean(match[1] || match[2] || match[match.length - 1]) ||
+    !match.input.slice(0, match.index).trim() ||
+    !match.input.slice(match.index + match[0].length).trim();
+  const relativeDays: Record<string, number> = {
+    오늘: 0,
+    today: 0,
+    내일: 1,
+    tomorrow: 1,
+    모레: 2,
+    글피: 3,
+  };
+
+  return [
+    wrap('(\\d{4}-\\d{2}-\\d{2})', (match, at) => (isValidDateKey(match[at]) ? match[at] : null)),
+    wrap('(\\d{1,2})월\\s?(\\d{1,2})일', (match, at) =>
+      upcomingMonthDay(today, Number(match[at]), Number(match[at + 1]))
+    ),
+    wrap('(\\d{1,2})\\/(\\d{1,2})', (match, at) =>
+      isStandaloneOrMarked(match)
+        ? upcomingMonthDay(today, Number(match[at]), Number(match[at + 1]))
+        : null
+    ),
+    wrap('(오늘|today|내일|tomorrow|모레|글피)', (match, at) =>
+      addDaysToKey(today, relativeDays[match[at].toLowerCase()])
+    ),
+    wrap('(\\d{1,3})일\\s?(?:후|뒤)|in\\s+(\\d{1,3})\\s+days?', (match, at) =>
+      addDaysToKey(today, Number(match[at] ?? match[at + 1]))
+    ),
+    wrap(`(다음\\s?주|이번\\s?주)\\s?(${KO_WEEKDAY_SOURCE})`, (match, at) =>
+      weekdayInWeek(today, parseKoWeekday(match[at + 1]), match[at].startsWith('다음') ? 1 : 0)
+    ),
+    wrap(`(${KO_WEEKDAY_SOURCE})`, (match, at) =>
+      upcomingWeekday(today, parseKoWeekday(match[at]))
+    ),
+    wrap(`(next\\s+|this\\s+)?(${EN_WEEKDAY_FULL_SOURCE})`, (match, at) => {
+      const weekday = parseEnWeekday(match[at + 1]);
+      const upcoming = upcomingWeekday(today, weekday);
+      // "next friday" on a Friday means a week from today.
+      return match[at]?.trim().toLowerCase() === 'next' && upcoming === today
+        ? addDaysToKey(today, 7)
+        : upcoming;
+    }),
+  ];
+};
+
+const buildTimeRules = (): PhraseRule<{ start: number; end: number | null }>[] => [
+  {
+    // "3-5pm": the meridiem of the end applies to both.
+    pattern: new RegExp(
+      `${START}(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s?-\\s?(\\d{1,2}(?::\\d{2})?\\s?(am|pm))${END}`
+    ),
+    read: (match) => {
+      const start = parseTimeAtom(`${match[1]}:${match[2] ?? '00'}${match[4]}`, null);
+      const end = parseTimeAtom(match[3], null);
+      return start !== null && end !== null ? { start, end } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      `${START}(?:at\\s+)?(${TIME_ATOM_SOURCE})(?:\\s?(?:-|~|–|부터|to)\\s?(${TIME_ATOM_SOURCE})(?:까지)?)?${END}`
+    ),
+    read: (match) => {
+      const start = parseTimeAtom(match[1], null);
+      if (start === null) return null;
+      // An end without 오전/오후 follows the start ("오후 3시~5시").
+      const end = match[2] ? parseTimeAtom(match[2], start >= 12 * 60) : null;
+      return { start, end };
+    },
+  },
+];
+
+/**
+ * Reads dates, times, repeat rules, `!priority` flags and `#tags` out of a one-line todo and
+ * returns what is left as the title. Korean and English phrases can be mixed, e.g.
+ * "내일 오후 3시 보고서 !긴급 #work" or "every monday gym".
+ */
+export const parseQuickAdd = (raw: string, context: QuickAddContext): QuickAddResult => {
+  const { today } = context;
+  let text = ` ${raw} `;
+  const input: AddTodoInput = { title: '' };
+  const chips: QuickAddChip[] = [];
+  const newTagNames: string[] = [];
+  const tagIds: string[] = [];
+
+  text = text.replace(new RegExp(`${START}#([^\\s#]+)`, 'g'), (_, name: string) => {
+    const existing = context.tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      if (!tagIds.includes(existing.id)) {
+        tagIds.push(existing.id);
+        chips.push({ kind: 'tag', label: `#${existing.name}` });
+      }
+    } else if (!newTagNames.some((entry) => entry.toLowerCase() === name.toLowerCase())) {
+      newTagNames.push(name);
+      chips.push({ kind: 'newTag', label: `#${name} (새 태그)` });
+    }
+    return ' ';
+  });
+  if (tagIds.length > 0) {
+    input.tagIds = tagIds;
+  }
+
+  text = text.replace(new RegExp(`${START}!(\\S+)${END}`, 'g'), (match, flag: string) => {
+    const priority = PRIORITY_FLAGS[flag.toLowerCase()];
+    if (!priority) {
+      return match;
+    }
+    Object.assign(input, priority);
+    return ' ';
+  });
+
+  const repeat = findFirstPhrase(text, buildRepeatRules(today));
+  if (repeat) {
+    input.repeat = repeat.value;
+    text = cutPhrase(text, repeat);
+  }
+
+  const dateRules = buildDateRules(today);
+  for (let round = 0; round < 2; round += 1) {
+    const phrase = findFirstPhrase(text, dateRules);
+    if (!phrase) break;
+    if (phrase.value.deadline && input.dueDate === undefined) {
+      input.dueDateMode = 'date';
+      input.dueDate = phrase.value.dateKey;
+    } else if (!phrase.value.deadline && input.startDate === undefined) {
+      input.startDate = phrase.value.dateKey;
+    } else {
+      break;
+    }
+    text = cutPhrase(text, phrase);
+  }
+
+  const time = findFirstPhrase(text, buildTimeRules());
+  if (time) {
+    const range = normalizeTimeRange(
+      minutesToTimeKey(time.value.start),
+      time.value.end === null ? null : minutesToTimeKey(time.value.end)
+    );
+    input.startTime = range.startTime;
+    input.endTime = range.endTime;
+    text = cutPhrase(text, time);
+  }
+
+  // A repeat without a date starts on its first occurrence; a plain date is also the deadline.
+  if (input.repeat && input.startDate === undefined) {
+    input.startDate = firstOccurrence(input.repeat, today);
+  }
+  if (input.startDate !== undefined && input.dueDate === undefined) {
+    input.dueDateMode = 'date';
+    input.dueDate = input.startDate;
+  }
+  if (input.startDate && input.dueDate && dayDifference(input.startDate, input.dueDate) < 0) {
+    input.dueDate = input.startDate;
+  }
+
+  input.title = text.replace(/\s+/g, ' ').trim();
+
+  const dateChips: QuickAddChip[] = [];
+  if (input.startDate !== undefined && input.startDate !== input.dueDate) {
+    dateChips.push({ kind: 'date', label: `📅 ${formatDateChip(input.startDate, today)} 시작` });
+  }
+  if (input.dueDate) {
+    dateChips.push({
+      kind: input.startDate === input.dueDate ? 'date' : 'due',
+      label:
+        input.startDate === input.dueDate
+          ? `📅 ${formatDateChip(input.dueDate, today)}`
+          : `⏳ ${formatDateChip(input.dueDate, today)}까지`,
+    });
+  }
+  const timeLabel = formatTimeRange({ startTime: input.startTime ?? null, endTime: input.endTime ?? null });
+  if (timeLabel) {
+    dateChips.push({ kind: 'time', label: `🕒 ${timeLabel}` });
+  }
+  if (input.repeat) {
+    dateChips.push({ kind: 'repeat', label: `🔁 ${describeRepeatRule(input.repeat)}` });
+  }
+  if (input.importance !== undefined || input.urgency !== undefined) {
+    const labels = [
+      input.importance !== undefined ? `중요 ${input.importance ? 'ON' : 'OFF'}` : null,
+      input.urgency !== undefined ? `긴급 ${input.urgency ? 'ON' : 'OFF'}` : null,
+    ].filter(Boolean);
+    dateChips.push({ kind: 'priority', label: `⚡ ${labels.join(' · ')}` });
+  }
+
+  return { input, newTagNames, chips: [...dateChips, ...chips] };
+};
@@ -0,0 +1,133 @@
+import { addDaysToKey, dayDifference, isValidDateKey, parseDateKey } from './dateKeys';
+
+export type RepeatRule =
+  | { kind: 'daily' }
+  | { kind: 'weekdays' }
+  | { kind: 'everyNDays'; interval: number }
+  | { kind: 'weekly'; weekdays: number[] }
+  | { kind: 'monthly'; monthDay: number };
+
+export type RepeatKind = RepeatRule['kind'];
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+const MAX_LOOKBACK_DAYS = 400;
+
+const lastDayOfMonth = (year: number, monthIndex: number): number =>
+  new Date(year, monthIndex + 1, 0).getDate();
+
+export const normalizeRepeatRule = (value: unknown): RepeatRule | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const rule = value as Record<string, unknown>;
+  switch (rule.kind) {
+    case 'daily':
+    case 'weekdays':
+      return { kind: rule.kind };
+    case 'everyNDays': {
+      const interval = Math.round(Number(rule.interval));
+      return Number.isFinite(interval) && interval >= 1
+        ? { kind: 'everyNDays', interval: Math.min(interval, 365) }
+        : null;
+    }
+    case 'weekly': {
+      const weekdays = Array.isArray(rule.weekdays)
+        ? Array.from(
+            new Set(
+              rule.weekdays.filter(
+                (day): day is number => Number.isInteger(day) && day >= 0 && day <= 6
+              )
+            )
+          ).sort((a, b) => a - b)
+        : [];
+      return weekdays.length > 0 ? { kind: 'weekly', weekdays } : null;
+    }
+    case 'monthly': {
+      const monthDay = Math.round(Number(rule.monthDay));
+      return Number.isFinite(monthDay) && monthDay >= 1 && monthDay <= 31
+        ? { kind: 'monthly', monthDay }
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Monthly rules on the 29th-31st fall back to the last day of shorter months.
+export const occursOn = (rule: RepeatRule, anchorDate: string, dateKey: string): boolean => {
+  if (!isValidDateKey(dateKey) || dayDifference(anchorDate, dateKey) < 0) {
+    return false;
+  }
+
+  const date = parseDateKey(dateKey);
+  switch (rule.kind) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return date.getDay() >= 1 && date.getDay() <= 5;
+    case 'everyNDays':
+      return dayDifference(anchorDate, dateKey) % rule.interval === 0;
+    case 'weekly':
+      return rule.weekdays.includes(date.getDay());
+    case 'monthly':
+      return (
+        date.getDate() ===
+        Math.min(rule.monthDay, lastDayOfMonth(date.getFullYear(), date.getMonth()))
+      );
+    default:
+      return false;
+  }
+};
+
+export const previousOccurrence = (
+  rule: RepeatRule,
+  anchorDate: string,
+  dateKey: string
+): string | null => {
+  for (let offset = 1; offset <= MAX_LOOKBACK_DAYS; offset += 1) {
+    const candidate = addDaysToKey(dateKey, -offset);
+    if (dayDifference(anchorDate, candidate) < 0) {
+      return null;
+    }
+    if (occursOn(rule, anchorDate, candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export const describeRepeatRule = (rule: RepeatRule): string => {
+  switch (rule.kind) {
+    case 'daily':
+      return '매일';
+    case 'weekdays':
+      return '평일';
+    case 'everyNDays':
+      return `${rule.interval}일마다`;
+    case 'weekly':
+      return `매주 ${rule.weekdays.map((day) => WEEKDAY_LABELS[day]).join('·')}`;
+    case 'monthly':
+      return `매월 ${rule.monthDay}일`;
+    default:
+      return '반복';
+  }
+};
+
+export const buildRepeatRule = (
+  kind: RepeatKind,
+  anchorDate: string,
+  interval = 2
+): RepeatRule => {
+  const anchor = parseDateKey(anchorDate);
+  switch (kind) {
+    case 'everyNDays':
+      return { kind, interval: Math.max(1, Math.round(interval)) };
+    case 'weekly':
+      return { kind, weekdays: [anchor.getDay()] };
+    case 'monthly':
+      return { kind, monthDay: anchor.getDate() };
+    default:
+      return { kind };
+  }
+};
@@ -0,0 +1,122 @@
+import { addDaysToKey, dayDifference, isValidDateKey, parseDateKey } from './dateKeys';
+import type { NeedsClock } from './petNeeds';
+import { NEED_KEYS } from './petNeeds';
+
+export interface VacationRange {
+  start: string;
+  end: string;
+}
+
+export interface StreakCheckInput {
+  today: string;
+  streak: number;
+  lastCompletedDate: string | null;
+  coveredThrough: string | null;
+  freezes: number;
+  vacation: VacationRange | null;
+}
+
+export interface StreakCheckResult {
+  streak: number;
+  coveredThrough: string | null;
+  freezesUsed: number;
+  // Missed days a freeze was spent on; vacation days are not listed.
+  frozenDates: string[];
+}
+
+export const MAX_STREAK_FREEZES = 3;
+export const STREAK_FREEZE_COST = 60;
+// A freeze is earned every time the streak reaches a multiple of this.
+export const STREAK_FREEZE_MILESTONE = 7;
+
+export const isValidVacation = (range: VacationRange): boolean =>
+  isValidDateKey(range.start) &&
+  isValidDateKey(range.end) &&
+  dayDifference(range.start, range.end) >= 0;
+
+export const isOnVacation = (dateKey: string, vacation: VacationRange | null): boolean =>
+  vacation !== null &&
+  dayDifference(vacation.start, dateKey) >= 0 &&
+  dayDifference(dateKey, vacation.end) >= 0;
+
+// The day the streak continues from: the last completion, or a later day a freeze covered.
+export const getStreakAnchor = (
+  lastCompletedDate: string | null,
+  coveredThrough: string | null
+): string | null => {
+  if (!lastCompletedDate || !coveredThrough) {
+    return lastCompletedDate ?? coveredThrough;
+  }
+  return dayDifference(lastCompletedDate, coveredThrough) > 0 ? coveredThrough : lastCompletedDate;
+};
+
+// Days strictly between the anchor and today. Today itself can still be completed.
+export const getMissedDays = (anchor: string, today: string): string[] => {
+  const gap = dayDifference(anchor, today);
+  const missed: string[] = [];
+  for (let offset = 1; offset < gap; offset += 1) {
+    missed.push(addDaysToKey(anchor, offset));
+  }
+  return missed;
+};
+
+/**
+ * Decides what happens to the streak for the days missed since its anchor.
+ * Vacation days are skipped for free; the rest are covered with freezes only when there
+ * are enough of them, otherwise the streak resets and no freeze is spent.
+ */
+export const resolveStreak = (input: StreakCheckInput): StreakCheckResult => {
+  const anchor = getStreakAnchor(input.lastCompletedDate, input.coveredThrough);
+  const unchanged = {
+    streak: input.streak,
+    coveredThrough: input.coveredThrough,
+    freezesUsed: 0,
+    frozenDates: [],
+  };
+  if (!anchor || input.streak === 0) {
+    return unchanged;
+  }
+
+  const missed = getMissedDays(anchor, input.today);
+  if (missed.length === 0) {
+    return unchanged;
+  }
+
+  const needFreeze = missed.filter((dateKey) => !isOnVacation(dateKey, input.vacation));
+  if (needFreeze.length > input.freezes) {
+    return { streak: 0, coveredThrough: null, freezesUsed: 0, frozenDates: [] };
+  }
+  return {
+    streak: input.streak,
+    coveredThrough: missed[missed.length - 1],
+    freezesUsed: needFreeze.length,
+    frozenDates: needFreeze,
+  };
+};
+
+export const earnsStreakFreeze = (streakBefore: number, streakAfter: number): boolean =>
+  streakAfter > streakBefore && streakAfter % STREAK_FREEZE_MILESTONE === 0;
+
+/**
+ * Moves each need's clock forward by the part of its elapsed time that fell inside the
+ * vacation, so needs do not decay while the user is away.
+ */
+export const pauseClockForVacation = (
+  clock: NeedsClock,
+  now: number,
+  vacation: VacationRange | null
+): NeedsClock => {
+  if (!vacation) {
+    return clock;
+  }
+  const vacationStart = parseDateKey(vacation.start).getTime();
+  const vacationEnd = parseDateKey(addDaysToKey(vacation.end, 1)).getTime();
+  const next = { ...clock };
+  NEED_KEYS.forEach((need) => {
+    const overlap = Math.min(now, vacationEnd) - Math.max(clock[need], vacationStart);
+    if (overlap > 0) {
+      next[need] = clock[need] + overlap;
+    }
+  });
+  return next;
+};
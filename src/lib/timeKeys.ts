@@ -0,0 +1,165 @@
+import { isValidTimeKey } from './dateKeys';
+
+// Times of day are kept as local wall-clock keys ("HH:MM") beside the date keys rather than
+// as timestamps. A 09:00 block stays at 09:00 after the device changes timezone or crosses
+// a DST switch; only the instants derived from it (reminders) move with the clock.
+
+export interface TimeRange {
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// Minutes since local midnight; `end` is exclusive.
+export interface TimeBlock {
+  start: number;
+  end: number;
+}
+
+export const MINUTES_PER_DAY = 24 * 60;
+// Length of a block that only has a start time.
+export const DEFAULT_BLOCK_MINUTES = 30;
+
+const pad2 = (value: number): string => String(value).padStart(2, '0');
+
+export const timeKeyToMinutes = (timeKey: string): number => {
+  const [hours, minutes] = timeKey.split(':').map((part) => Number(part));
+  return hours * 60 + minutes;
+};
+
+export const minutesToTimeKey = (minutes: number): string => {
+  const clamped = Math.min(Math.max(Math.round(minutes), 0), MINUTES_PER_DAY - 1);
+  return `${pad2(Math.floor(clamped / 60))}:${pad2(clamped % 60)}`;
+};
+
+/**
+ * Keeps a start/end pair consistent: an end needs a start and has to fall after it on the
+ * same day. Invalid parts are dropped rather than guessed.
+ */
+export const normalizeTimeRange = (startTime: unknown, endTime: unknown): TimeRange => {
+  const start = typeof startTime === 'string' && isValidTimeKey(startTime) ? startTime : null;
+  const end = typeof endTime === 'string' && isValidTimeKey(endTime) ? endTime : null;
+  if (!start) {
+    return { startTime: null, endTime: null };
+  }
+  if (!end || timeKeyToMinutes(end) <= timeKeyToMinutes(start)) {
+    return { startTime: start, endTime: null };
+  }
+  return { startTime: start, endTime: end };
+};
+
+// Message for the schedule form; empty when both inputs are usable. Blank inputs mean "no time".
+export const getTimeInputError = (startInput: string, endInput: string): string => {
+  const start = startInput.trim();
+  const end = endInput.trim();
+  if (start && !isValidTimeKey(start)) return '시작 시각은 HH:MM 형식이어야 해요.';
+  if (end && !isValidTimeKey(end)) return '종료 시각은 HH:MM 형식이어야 해요.';
+  if (end && !start) return '종료 시각을 쓰려면 시작 시각도 필요해요.';
+  if (start && end && timeKeyToMinutes(end) <= timeKeyToMinutes(start)) {
+    return '종료 시각은 시작 시각보다 늦어야 해요.';
+  }
+  return '';
+};
+
+export const getTimeBlock = (range: TimeRange): TimeBlock | null => {
+  if (!range.startTime) {
+    return null;
+  }
+  const start = timeKeyToMinutes(range.startTime);
+  const end = range.endTime
+    ? timeKeyToMinutes(range.endTime)
+    : Math.min(start + DEFAULT_BLOCK_MINUTES, MINUTES_PER_DAY);
+  return { start, end };
+};
+
+export const formatTimeRange = (range: TimeRange): string | null => {
+  if (!range.startTime) {
+    return null;
+  }
+  return range.endTime ? `${range.startTime}–${range.endTime}` : range.startTime;
+};
+
+// Timed items first, by start and then end; untimed items keep their relative order (0).
+export const compareTimeRanges = (a: TimeRange, b: TimeRange): number => {
+  const blockA = getTimeBlock(a);
+  const blockB = getTimeBlock(b);
+  if (!blockA || !blockB) {
+    if (blockA) return -1;
+    if (blockB) return 1;
+    return 0;
+  }
+  return blockA.start - blockB.start || blockA.end - blockB.end;
+};
+
+export const blocksOverlap = (a: TimeBlock, b: TimeBlock): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Ids of the items whose blocks overlap at least one other item. Items are assumed to share
+ * a day; the caller filters by date first.
+ */
+export const findTimeConflicts = <T extends TimeRange & { id: string }>(items: T[]): Set<string> => {
+  const timed = items
+    .map((item) => ({ id: item.id, block: getTimeBlock(item) }))
+    .filter((entry): entry is { id: string; block: TimeBlock } => entry.block !== null)
+    .sort((a, b) => a.block.start - b.block.start);
+
+  const conflicts = new Set<string>();
+  timed.forEach((entry, index) => {
+    for (let next = index + 1; next < timed.length; next += 1) {
+      if (timed[next].block.start >= entry.block.end) {
+        break;
+      }
+      conflicts.add(entry.id);
+      conflicts.add(timed[next].id);
+    }
+  });
+  return conflicts;
+};
+
+export interface TimelineLane {
+  lane: number;
+  laneCount: number;
+}
+
+/**
+ * Side-by-side placement for a day timeline. Overlapping blocks form a cluster; each block
+ * takes the first lane that is free at its start, and the whole cluster shares one width.
+ */
+export const assignTimelineLanes = <T extends TimeRange & { id: string }>(
+  items: T[]
+): Map<string, TimelineLane> => {
+  const timed = items
+    .map((item) => ({ id: item.id, block: getTimeBlock(item) }))
+    .filter((entry): entry is { id: string; block: TimeBlock } => entry.block !== null)
+    .sort((a, b) => a.block.start - b.block.start || a.block.end - b.block.end);
+
+  const result = new Map<string, TimelineLane>();
+  let cluster: string[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    cluster.forEach((id) => {
+      const entry = result.get(id) as TimelineLane;
+      result.set(id, { ...entry, laneCount: laneEnds.length });
+    });
+    cluster = [];
+    laneEnds = [];
+  };
+
+  timed.forEach(({ id, block }) => {
+    if (block.start >= clusterEnd) {
+      closeCluster();
+    }
+    const freeLane = laneEnds.findIndex((end) => end <= block.start);
+    const lane = freeLane >= 0 ? freeLane : laneEnds.length;
+    laneEnds[lane] = block.end;
+    clusterEnd = Math.max(clusterEnd, block.end);
+    cluster.push(id);
+    result.set(id, { lane, laneCount: 1 });
+  });
+  closeCluster();
+  return result;
+};
+
+// Changes whenever the device moves to another UTC offset, including DST switches.
+export const getUtcOffsetMinutes = (date: Date = new Date()): number => -date.getTimezoneOffset();
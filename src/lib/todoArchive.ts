@@ -0,0 +1,65 @@
+import { addDaysToKey, dayDifference, toDateKey } from './dateKeys';
+import type { TodoItem } from '../store/petLoopStore';
+
+export const ARCHIVE_CUTOFF_OPTIONS: Array<{ days: number | null; title: string }> = [
+  { days: 3, title: '3일' },
+  { days: 5, title: '5일' },
+  { days: 7, title: '7일' },
+  { days: 14, title: '14일' },
+  { days: null, title: '끄기' },
+];
+
+type ScheduleFields = Pick<TodoItem, 'done' | 'startDate' | 'dueDateMode' | 'dueDate'>;
+
+// The date a todo is judged against: its due date, or its start date when unscheduled.
+// Ongoing todos never go stale.
+export const getTodoDeadlineKey = (todo: ScheduleFields): string | null => {
+  if (todo.dueDateMode === 'date') {
+    return todo.dueDate ?? todo.startDate;
+  }
+  if (todo.dueDateMode === 'unscheduled') {
+    return todo.startDate;
+  }
+  return null;
+};
+
+export const isTodoOverdue = (todo: ScheduleFields, todayKey: string = toDateKey()): boolean => {
+  if (todo.done || todo.dueDateMode !== 'date' || !todo.dueDate) {
+    return false;
+  }
+  return dayDifference(todo.dueDate, todayKey) > 0;
+};
+
+/**
+ * A todo is stale once its deadline is more than `cutoffDays` behind today.
+ * Passing `previousTodayKey` limits the check to deadlines that crossed the cutoff
+ * since that day, so todos the user restored from the archive are not swept again.
+ */
+export const isTodoStale = (
+  todo: ScheduleFields,
+  cutoffDays: number,
+  todayKey: string,
+  previousTodayKey?: string
+): boolean => {
+  const deadline = getTodoDeadlineKey(todo);
+  if (todo.done || !deadline) {
+    return false;
+  }
+  const cutoffKey = addDaysToKey(todayKey, -cutoffDays);
+  if (dayDifference(deadline, cutoffKey) <= 0) {
+    return false;
+  }
+  if (previousTodayKey === undefined) {
+    return true;
+  }
+  return dayDifference(deadline, addDaysToKey(previousTodayKey, -cutoffDays)) <= 0;
+};
+
+// Moves the todo to `dateKey` while keeping the length of its start-to-due span.
+export const rescheduleTodo = (todo: TodoItem, dateKey: string): TodoItem => {
+  if (todo.dueDateMode !== 'date' || !todo.dueDate) {
+    return { ...todo, startDate: dateKey };
+  }
+  const span = Math.max(dayDifference(todo.startDate, todo.dueDate), 0);
+  return { ...todo, startDate: dateKey, dueDate: addDaysToKey(dateKey, span) };
+};
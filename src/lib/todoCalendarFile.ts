@@ -0,0 +1,46 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import type { TodoItem } from '../store/petLoopStore';
+import type { IcsComponentKind, IcsImportResult } from './icalendar';
+import { parseIcsTodos, serializeTodosToIcs } from './icalendar';
+import { toDateKey } from './dateKeys';
+
+export const shareTodosAsIcs = async (
+  todos: TodoItem[],
+  kind: IcsComponentKind = 'VTODO'
+): Promise<boolean> => {
+  try {
+    if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+      return false;
+    }
+
+    const fileUri = `${FileSystem.cacheDirectory}pixel-paw-todos-${toDateKey()}.ics`;
+    await FileSystem.writeAsStringAsync(fileUri, serializeTodosToIcs(todos, { kind }));
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'text/calendar',
+      UTI: 'public.calendar-event',
+      dialogTitle: '할 일 캘린더 내보내기',
+    });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const pickIcsTodos = async (): Promise<IcsImportResult | null> => {
+  try {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/calendar', 'text/plain', 'application/octet-stream'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) {
+      return null;
+    }
+
+    const content = await FileSystem.readAsStringAsync(picked.assets[0].uri);
+    return parseIcsTodos(content);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,11 @@
+import type { Quadrant, TodoItem } from '../store/petLoopStore';
+
+export const resolveQuadrant = (importance: boolean, urgency: boolean): Quadrant => {
+  if (importance && urgency) return 'do';
+  if (importance && !urgency) return 'schedule';
+  if (!importance && urgency) return 'delegate';
+  return 'eliminate';
+};
+
+export const getTodoQuadrant = (todo: Pick<TodoItem, 'importance' | 'urgency'>): Quadrant =>
+  resolveQuadrant(todo.importance, todo.urgency);
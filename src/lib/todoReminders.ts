@@ -0,0 +1,126 @@
+import * as Notifications from 'expo-notifications';
+import type { TodoItem } from '../store/petLoopStore';
+import { combineDateAndTime } from './dateKeys';
+import { hasNotificationPermission, requestLockscreenPermission } from './lockscreenDigest';
+
+const REMINDER_TYPE = 'todo-reminder';
+const IDENTIFIER_PREFIX = 'todo-reminder-';
+
+interface DesiredReminder {
+  identifier: string;
+  fireAt: number;
+  title: string;
+  body: string;
+}
+
+const reminderIdentifier = (todoId: string): string => `${IDENTIFIER_PREFIX}${todoId}`;
+
+const formatLead = (leadMinutes: number): string => {
+  if (leadMinutes <= 0) return '지금 시작할 시간이에요.';
+  if (leadMinutes % 1440 === 0) return `${leadMinutes / 1440}일 뒤 예정이에요.`;
+  if (leadMinutes % 60 === 0) return `${leadMinutes / 60}시간 뒤 예정이에요.`;
+  return `${leadMinutes}분 뒤 예정이에요.`;
+};
+
+// Dated todos remind relative to the due date, open-ended ones relative to the start date.
+export const getReminderFireAt = (
+  todo: Pick<TodoItem, 'reminder' | 'dueDateMode' | 'dueDate' | 'startDate'>
+): number | null => {
+  if (!todo.reminder) {
+    return null;
+  }
+  const anchorDate = todo.dueDateMode === 'date' && todo.dueDate ? todo.dueDate : todo.startDate;
+  const anchor = combineDateAndTime(anchorDate, todo.reminder.time);
+  return anchor.getTime() - todo.reminder.leadMinutes * 60 * 1000;
+};
+
+const buildDesiredReminders = (todos: TodoItem[], now: number): Map<string, DesiredReminder> => {
+  const desired = new Map<string, DesiredReminder>();
+  todos.forEach((todo) => {
+    const fireAt = getReminderFireAt(todo);
+    if (todo.done || fireAt === null || fireAt <= now || !todo.reminder) {
+      return;
+    }
+    desired.set(reminderIdentifier(todo.id), {
+      identifier: reminderIdentifier(todo.id),
+      fireAt,
+      title: `⏰ ${todo.title}`,
+      body: formatLead(todo.reminder.leadMinutes),
+    });
+  });
+  return desired;
+};
+
+const isSameReminder = (
+  request: Notifications.NotificationRequest,
+  reminder: DesiredReminder
+): boolean =>
+  request.content.data?.fireAt === reminder.fireAt && request.content.title === reminder.title;
+
+const reconcile = async (todos: TodoItem[]): Promise<boolean> => {
+  const desired = buildDesiredReminders(todos, Date.now());
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).filter(
+    (request) => request.content.data?.type === REMINDER_TYPE
+  );
+
+  const upToDate = new Set<string>();
+  await Promise.all(
+    scheduled.map(async (request) => {
+      const reminder = desired.get(request.identifier);
+      if (reminder && isSameReminder(request, reminder)) {
+        upToDate.add(request.identifier);
+        return;
+      }
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    })
+  );
+
+  const pending = Array.from(desired.values()).filter(
+    (reminder) => !upToDate.has(reminder.identifier)
+  );
+  if (pending.length === 0) {
+    return true;
+  }
+  if (!(await hasNotificationPermission())) {
+    return false;
+  }
+
+  await Promise.all(
+    pending.map((reminder) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: reminder.identifier,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          sound: 'default',
+          data: {
+            type: REMINDER_TYPE,
+            fireAt: reminder.fireAt,
+          },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.fireAt,
+        },
+      })
+    )
+  );
+  return true;
+};
+
+let queue: Promise<boolean> = Promise.resolve(true);
+
+// Brings the OS schedule in line with the todo list: stale, completed and removed
+// reminders are cancelled and edited ones are replaced. Calls are serialized.
+export const reconcileTodoReminders = (todos: TodoItem[]): Promise<boolean> => {
+  queue = queue.then(() => reconcile(todos).catch(() => false));
+  return queue;
+};
+
+// Reconciling never prompts; the OS dialog only appears right after the user sets a reminder.
+export const requestReminderPermission = async (todos: TodoItem[]): Promise<boolean> => {
+  if (!(await requestLockscreenPermission())) {
+    return false;
+  }
+  return reconcileTodoReminders(todos);
+};
@@ -0,0 +1,40 @@
+import { addDaysToKey, dayDifference, toDateKey } from './dateKeys';
+import type { TodoItem, TodoTag } from '../store/petLoopStore';
+
+export const TAG_COLORS = ['#e98a6b', '#e6b450', '#7fb06f', '#5fa8b8', '#8d84d6', '#d57fb0'];
+
+export type TagFilter = 'all' | 'untagged' | string;
+
+export interface TagStats {
+  tag: TodoTag;
+  open: number;
+  completed: number;
+  completedLast7Days: number;
+}
+
+export const matchesTagFilter = (todo: Pick<TodoItem, 'tagIds'>, filter: TagFilter): boolean => {
+  if (filter === 'all') return true;
+  if (filter === 'untagged') return todo.tagIds.length === 0;
+  return todo.tagIds.includes(filter);
+};
+
+export const computeTagStats = (
+  tags: TodoTag[],
+  todos: TodoItem[],
+  todayKey: string = toDateKey()
+): TagStats[] => {
+  const weekStart = addDaysToKey(todayKey, -6);
+
+  return tags.map((tag) => {
+    const tagged = todos.filter((todo) => todo.tagIds.includes(tag.id));
+    const completed = tagged.filter((todo) => todo.done && todo.completedAt);
+    return {
+      tag,
+      open: tagged.filter((todo) => !todo.done).length,
+      completed: completed.length,
+      completedLast7Days: completed.filter(
+        (todo) => dayDifference(weekStart, toDateKey(new Date(todo.completedAt as number))) >= 0
+      ).length,
+    };
+  });
+};
@@ -0,0 +1,39 @@
+import { Platform } from 'react-native';
+import { requireOptionalNativeModule } from 'expo';
+import type { WidgetSnapshot } from './widgetSnapshot';
+import { isSameWidgetContent } from './widgetSnapshot';
+
+interface WidgetBridgeModule {
+  setSnapshot(json: string): Promise<boolean>;
+  clearSnapshot(): Promise<void>;
+}
+
+// Missing on Android, web and in builds made before the widget target existed.
+const bridge =
+  Platform.OS === 'ios' ? requireOptionalNativeModule<WidgetBridgeModule>('PixelPawWidgetBridge') : null;
+
+let lastWritten: WidgetSnapshot | null = null;
+let queue: Promise<boolean> = Promise.resolve(true);
+
+const write = async (snapshot: WidgetSnapshot): Promise<boolean> => {
+  if (!bridge) {
+    return false;
+  }
+  if (lastWritten && isSameWidgetContent(lastWritten, snapshot)) {
+    return true;
+  }
+  const written = await bridge.setSnapshot(JSON.stringify(snapshot));
+  if (written) {
+    lastWritten = snapshot;
+  }
+  return written;
+};
+
+export const isWidgetBridgeAvailable = (): boolean => bridge !== null;
+
+// Writes the snapshot into the shared app-group container and reloads the widget timelines.
+// Unchanged content is skipped so the widget is not reloaded on every render. Calls are serialized.
+export const publishWidgetSnapshot = (snapshot: WidgetSnapshot): Promise<boolean> => {
+  queue = queue.then(() => write(snapshot).catch(() => false));
+  return queue;
+};
@@ -0,0 +1,131 @@
+import type { Quadrant, TodoItem } from '../store/petLoopStore';
+import { getTodoQuadrant } from './todoQuadrant';
+import type { MoodKind } from './petEvolution';
+import type { PetNeeds } from './petNeeds';
+import { getMoodKind } from './petEvolution';
+import { dayDifference } from './dateKeys';
+import { getTodoDeadlineKey, isTodoOverdue } from './todoArchive';
+
+// Bump when the JSON shape changes; the widget ignores snapshots it does not understand.
+export const WIDGET_SNAPSHOT_VERSION = 1;
+// The medium widget lists at most this many todos; the small one shows the first.
+export const WIDGET_TODO_LIMIT = 4;
+
+export interface WidgetTodo {
+  id: string;
+  title: string;
+  quadrant: Quadrant;
+  dueDate: string | null;
+  overdue: boolean;
+}
+
+export interface WidgetSnapshot {
+  version: number;
+  generatedAt: number;
+  dateKey: string;
+  pet: {
+    name: string;
+    emoji: string;
+    mood: MoodKind;
+    moodLabel: string;
+    level: number;
+  };
+  streak: number;
+  openCount: number;
+  todos: WidgetTodo[];
+}
+
+export interface WidgetSnapshotSource extends PetNeeds {
+  petName: string;
+  petEmoji: string;
+  level: number;
+  streak: number;
+  todos: TodoItem[];
+}
+
+const MOOD_LABELS: Record<MoodKind, string> = {
+  overdue: '시무룩',
+  hungry: '배고파요',
+  dirty: '꼬질꼬질',
+  great: '최고 컨디션',
+  good: '기분 좋음',
+  tired: '피곤해요',
+  bored: '심심해요',
+};
+
+const QUADRANT_ORDER: Quadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
+
+// Open todos that have started by `todayKey`: overdue first, then by quadrant and deadline.
+const pickWidgetTodos = (todos: TodoItem[], todayKey: string): WidgetTodo[] =>
+  todos
+    .filter((todo) => !todo.done && dayDifference(todo.startDate, todayKey) >= 0)
+    .map((todo) => ({
+      todo,
+      entry: {
+        id: todo.id,
+        title: todo.title,
+        quadrant: getTodoQuadrant(todo),
+        dueDate: todo.dueDateMode === 'date' ? todo.dueDate : null,
+        overdue: isTodoOverdue(todo, todayKey),
+      },
+    }))
+    .sort((a, b) => {
+      if (a.entry.overdue !== b.entry.overdue) {
+        return a.entry.overdue ? -1 : 1;
+      }
+      const byQuadrant =
+        QUADRANT_ORDER.indexOf(a.entry.quadrant) - QUADRANT_ORDER.indexOf(b.entry.quadrant);
+      if (byQuadrant !== 0) return byQuadrant;
+      const aDeadline = getTodoDeadlineKey(a.todo);
+      const bDeadline = getTodoDeadlineKey(b.todo);
+      if (aDeadline && bDeadline) {
+        const byDeadline = dayDifference(bDeadline, aDeadline);
+        if (byDeadline !== 0) return byDeadline;
+      } else if (aDeadline !== bDeadline) {
+        return aDeadline ? -1 : 1;
+      }
+      return a.todo.createdAt - b.todo.createdAt;
+    })
+    .map(({ entry }) => entry);
+
+/**
+ * Serializable view of the store for the home-screen widget. Pure, so the same state and
+ * clock always produce the same snapshot and unchanged state never reloads the widget.
+ */
+export const buildWidgetSnapshot = (
+  source: WidgetSnapshotSource,
+  todayKey: string,
+  now: number
+): WidgetSnapshot => {
+  const openTodos = pickWidgetTodos(source.todos, todayKey);
+  const overdueCount = openTodos.filter((todo) => todo.overdue).length;
+  const mood = getMoodKind(
+    {
+      hunger: source.hunger,
+      energy: source.energy,
+      happiness: source.happiness,
+      cleanliness: source.cleanliness,
+    },
+    overdueCount
+  );
+
+  return {
+    version: WIDGET_SNAPSHOT_VERSION,
+    generatedAt: now,
+    dateKey: todayKey,
+    pet: {
+      name: source.petName,
+      emoji: source.petEmoji,
+      mood,
+      moodLabel: MOOD_LABELS[mood],
+      level: source.level,
+    },
+    streak: source.streak,
+    openCount: openTodos.length,
+    todos: openTodos.slice(0, WIDGET_TODO_LIMIT),
+  };
+};
+
+// Two snapshots that differ only in when they were built render the same widget.
+export const isSameWidgetContent = (a: WidgetSnapshot, b: WidgetSnapshot): boolean =>
+  JSON.stringify({ ...a, generatedAt: 0 }) === JSON.stringify({ ...b, generatedAt: 0 });
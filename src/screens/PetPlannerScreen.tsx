@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Animated,
+  AppState,
   SafeAreaView,
   ScrollView,
   StyleSheet,
@@ -11,21 +12,87 @@ import {
   View,
 } from 'react-native';
 import type {
-  CareAction,
+  AddTodoInput,
+  ItemId,
   CreatureType,
   DecorationId,
+  DigestSettings,
   DueDateMode,
   Quadrant,
+  RecurringTodo,
   TodoItem,
+  TodoReminder,
 } from '../store/petLoopStore';
 import {
+  getAchievementSnapshot,
+  getPetCollection,
   getRecentDateKeys,
   getTodoQuadrant,
   isValidDateKey,
   toDateKey,
   usePetLoopStore,
 } from '../store/petLoopStore';
-import { sendLockscreenDigest } from '../lib/lockscreenDigest';
+import {
+  buildDigestBody,
+  requestDigestPermission,
+  requestLockscreenPermission,
+  scheduleDailyDigests,
+  sendLockscreenDigest,
+} from '../lib/lockscreenDigest';
+import { reconcileTodoReminders, requestReminderPermission } from '../lib/todoReminders';
+import { reconcileNeedAlerts } from '../lib/petNeedAlerts';
+import { getDecayIntervals } from '../lib/decorationCatalog';
+import { getItem } from '../lib/petItems';
+import { ACHIEVEMENTS } from '../lib/achievements';
+import { buildWidgetSnapshot } from '../lib/widgetSnapshot';
+import { publishWidgetSnapshot } from '../lib/widgetBridge';
+import { summarizeTodoFocus } from '../lib/focusTimer';
+import { reconcileFocusAlert, requestFocusAlertPermission } from '../lib/focusNotifications';
+import {
+  compareTimeRanges,
+  formatTimeRange,
+  getTimeInputError,
+  getUtcOffsetMinutes,
+} from '../lib/timeKeys';
+import { dayDifference, isValidTimeKey } from '../lib/dateKeys';
+import { getTodoDeadlineKey, isTodoOverdue } from '../lib/todoArchive';
+import { PET_UNLOCK_RULES, describeUnlockRule, getPetUnlockState } from '../lib/petCollection';
+import type { MoodKind } from '../lib/petEvolution';
+import {
+  getEvolutionStage,
+  getMoodKind,
+  getNextEvolutionRule,
+  getStageName,
+  pickPetAnimation,
+} from '../lib/petEvolution';
+import type { TagFilter } from '../lib/todoTags';
+import { TAG_COLORS, computeTagStats, matchesTagFilter } from '../lib/todoTags';
+import { parseQuickAdd } from '../lib/quickAdd';
+import type { RepeatKind } from '../lib/recurrence';
+import { buildRepeatRule, describeRepeatRule } from '../lib/recurrence';
+import CalendarFileCard from './planner/CalendarFileCard';
+import DayTimeline from './planner/DayTimeline';
+import DecorationShopCard from './planner/DecorationShopCard';
+import FocusTimerCard from './planner/FocusTimerCard';
+import HabitatScene from './planner/HabitatScene';
+import DailyDigestSettings from './planner/DailyDigestSettings';
+import ScheduleFields from './planner/ScheduleFields';
+import SubtaskChecklist from './planner/SubtaskChecklist';
+import ArchiveReviewSheet from './planner/ArchiveReviewSheet';
+import BadgeShelf from './planner/BadgeShelf';
+import CompletionHistorySheet from './planner/CompletionHistorySheet';
+import StatsDashboardSheet from './planner/StatsDashboardSheet';
+import StreakProtectionCard from './planner/StreakProtectionCard';
+import TagChips from './planner/TagChips';
+import TagFilterBar from './planner/TagFilterBar';
+import TagManagerCard from './planner/TagManagerCard';
+import type { RewardTierOption } from './planner/TodoEditSheet';
+import TodoEditSheet from './planner/TodoEditSheet';
+import PetInventory from './planner/PetInventory';
+import PetSprite from './planner/PetSprite';
+import PlannerCalendar from './planner/PlannerCalendar';
+import QuickAddPreview from './planner/QuickAddPreview';
+import RolloverSheet from './planner/RolloverSheet';
 
 interface CreatureMeta {
   id: CreatureType;
@@ -33,11 +100,10 @@ interface CreatureMeta {
   title: string;
 }
 
-interface DecorationItem {
-  id: DecorationId;
-  emoji: string;
-  title: string;
-  cost: number;
+interface UndoToast {
+  kind: 'complete' | 'remove';
+  todoId: string;
+  message: string;
 }
 
 interface QuadrantMeta {
@@ -52,12 +118,8 @@ const CREATURES: CreatureMeta[] = [
   { id: 'chick', emoji: '🐥', title: '병아리' },
   { id: 'sprout', emoji: '🌱', title: '새싹' },
   { id: 'bunny', emoji: '🐰', title: '토끼' },
-];
-
-const DECORATIONS: DecorationItem[] = [
-  { id: 'sun-lamp', emoji: '🪔', title: '햇살 램프', cost: 28 },
-  { id: 'moss-rock', emoji: '🪨', title: '이끼 바위', cost: 34 },
-  { id: 'rain-bell', emoji: '🔔', title: '빗방울 벨', cost: 48 },
+  { id: 'kitten', emoji: '🐱', title: '고양이' },
+  { id: 'dino', emoji: '🦖', title: '공룡' },
 ];
 
 const QUADRANT_META: QuadrantMeta[] = [
@@ -91,10 +153,21 @@ const QUADRANT_META: QuadrantMeta[] = [
   },
 ];
 
-const DUE_MODE_META: Array<{ id: DueDateMode; title: string }> = [
-  { id: 'date', title: '날짜 지정' },
-  { id: 'ongoing', title: '계속' },
-  { id: 'unscheduled', title: '미정' },
+const REPEAT_MODE_META: Array<{ id: RepeatKind | 'none'; title: string }> = [
+  { id: 'none', title: '반복 없음' },
+  { id: 'daily', title: '매일' },
+  { id: 'weekdays', title: '평일' },
+  { id: 'everyNDays', title: 'N일마다' },
+  { id: 'weekly', title: '매주' },
+  { id: 'monthly', title: '매월' },
+];
+
+const REMINDER_LEAD_META: Array<{ minutes: number; title: string }> = [
+  { minutes: 0, title: '정시' },
+  { minutes: 10, title: '10분 전' },
+  { minutes: 30, title: '30분 전' },
+  { minutes: 60, title: '1시간 전' },
+  { minutes: 1440, title: '하루 전' },
 ];
 
 const QUADRANT_LABEL: Record<Quadrant, string> = {
@@ -129,9 +202,6 @@ const dateKeyToEpoch = (dateKey: string): number => {
 const isOnOrBefore = (leftDateKey: string, rightDateKey: string): boolean =>
   dateKeyToEpoch(leftDateKey) <= dateKeyToEpoch(rightDateKey);
 
-const isBefore = (leftDateKey: string, rightDateKey: string): boolean =>
-  dateKeyToEpoch(leftDateKey) < dateKeyToEpoch(rightDateKey);
-
 const getNextQuadrant = (quadrant: Quadrant): Quadrant => {
   const ordered: Quadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
   const index = ordered.indexOf(quadrant);
@@ -144,19 +214,48 @@ const getDueLabel = (mode: DueDateMode, dueDate: string | null): string => {
   return `마감: ${dueDate ?? '-'}`;
 };
 
-const getTodoScheduleSummary = (todo: TodoItem): string =>
-  `시작: ${todo.startDate} · ${getDueLabel(todo.dueDateMode, todo.dueDate)}`;
+const getTodoScheduleSummary = (todo: TodoItem): string => {
+  const timeRange = formatTimeRange(todo);
+  const start = timeRange ? `${todo.startDate} ${timeRange}` : todo.startDate;
+  return `시작: ${start} · ${getDueLabel(todo.dueDateMode, todo.dueDate)}`;
+};
 
-const creatureMood = (happiness: number, energy: number): string => {
-  if (happiness >= 75 && energy >= 65) return '반짝반짝 최고 컨디션!';
-  if (happiness >= 55) return '기분이 좋아요. 오늘도 성장 중!';
-  if (energy < 35) return '조금 지친 상태예요. 먹이와 휴식이 필요해요.';
+const getReminderSummary = (reminder: TodoReminder): string => {
+  const lead = REMINDER_LEAD_META.find((entry) => entry.minutes === reminder.leadMinutes);
+  return `알림: ${reminder.time} · ${lead ? lead.title : `${reminder.leadMinutes}분 전`}`;
+};
+
+const getSeriesSummary = (series: RecurringTodo): string =>
+  series.streak > 0
+    ? `반복: ${describeRepeatRule(series.repeat)} · ${series.streak}회 연속`
+    : `반복: ${describeRepeatRule(series.repeat)}`;
+
+const creatureMood = (mood: MoodKind, overdueCount: number): string => {
+  if (mood === 'overdue') return `밀린 할 일 ${overdueCount}개 때문에 시무룩해요.`;
+  if (mood === 'hungry') return '배가 고파요. 먹이를 챙겨 주세요.';
+  if (mood === 'dirty') return '꼬질꼬질해요. 깨끗하게 씻겨 주세요.';
+  if (mood === 'great') return '반짝반짝 최고 컨디션!';
+  if (mood === 'good') return '기분이 좋아요. 오늘도 성장 중!';
+  if (mood === 'tired') return '조금 지친 상태예요. 먹이와 휴식이 필요해요.';
   return '심심해요. 할 일을 끝내고 놀아 주세요.';
 };
 
+const EATING_ANIMATION_MS = 2400;
+const NEEDS_TICK_MS = 60 * 1000;
+
 const rewardPreset = (tier: 'mini' | 'focus'): { coins: number; xp: number } =>
   tier === 'mini' ? { coins: 12, xp: 10 } : { coins: 22, xp: 18 };
 
+const REWARD_TIER_OPTIONS: RewardTierOption[] = (['mini', 'focus'] as const).map((id) => {
+  const reward = rewardPreset(id);
+  return {
+    id,
+    title: `${id === 'mini' ? '미니' : '집중'} (+${reward.coins})`,
+    coins: reward.coins,
+    xp: reward.xp,
+  };
+});
+
 const sortVisibleTodos = (items: TodoItem[]): TodoItem[] =>
   [...items].sort((a, b) => {
     if (a.done !== b.done) {
@@ -164,6 +263,9 @@ const sortVisibleTodos = (items: TodoItem[]): TodoItem[] =>
     }
     const byStart = dateKeyToEpoch(a.startDate) - dateKeyToEpoch(b.startDate);
     if (byStart !== 0) return byStart;
+    // Within a day, timed todos come first in chronological order.
+    const byTime = compareTimeRanges(a, b);
+    if (byTime !== 0) return byTime;
     return b.createdAt - a.createdAt;
   });
 
@@ -171,27 +273,83 @@ export default function PetPlannerScreen() {
   const {
     petName,
     creature,
+    pets,
+    activePetId,
     level,
     xp,
     xpGoal,
     coins,
     happiness,
     energy,
+    hunger,
+    cleanliness,
+    needsClock,
+    careCount,
     habitatTier,
     streak,
+    bestStreak,
+    streakFreezes,
+    frozenDates,
+    vacation,
+    focusSettings,
+    activeFocus,
+    focusLog,
     todos,
+    recurringTodos,
+    tags,
     purchasedDecorations,
+    placedDecorations,
+    inventory,
     completionLog,
+    digestSettings,
+    needAlertsEnabled,
+    completionJournal,
+    unlockedAchievements,
+    journalRetentionDays,
+    archivedTodos,
+    staleArchiveDays,
+    pendingRollover,
     addTodo,
+    updateTodo,
     completeTodo,
+    uncompleteTodo,
     removeTodo,
+    undoRemoveTodo,
+    addSubtask,
+    removeSubtask,
+    toggleSubtask,
+    moveSubtask,
+    createTag,
+    removeTag,
+    stopRecurringTodo,
     setTodoPriority,
     setTodoQuadrant,
+    setTodoReminder,
     runDailyTick,
-    careCreature,
-    changeCreature,
+    tickNeeds,
+    buyItem,
+    consumeItem,
+    adoptPet,
+    switchPet,
     purchaseDecoration,
+    placeDecoration,
+    storeDecoration,
     seedStarterTodos,
+    setDigestSettings,
+    setNeedAlertsEnabled,
+    setJournalRetention,
+    setStaleArchiveDays,
+    restoreArchivedTodos,
+    rescheduleArchivedTodos,
+    discardArchivedTodos,
+    rollOverTodos,
+    dismissRollover,
+    buyStreakFreeze,
+    setVacation,
+    setFocusSettings,
+    startFocus,
+    stopFocus,
+    advanceFocus,
   } = usePetLoopStore((state) => state);
 
   const todayKey = useMemo(() => toDateKey(), []);
@@ -206,8 +364,16 @@ export default function PetPlannerScreen() {
   const [startDateInput, setStartDateInput] = useState(todayKey);
   const [dueDateMode, setDueDateMode] = useState<DueDateMode>('date');
   const [dueDateInput, setDueDateInput] = useState(todayKey);
+  const [startTimeInput, setStartTimeInput] = useState('');
+  const [endTimeInput, setEndTimeInput] = useState('');
   const [isImportant, setIsImportant] = useState(true);
   const [isUrgent, setIsUrgent] = useState(true);
+  const [repeatMode, setRepeatMode] = useState<RepeatKind | 'none'>('none');
+  const [repeatIntervalInput, setRepeatIntervalInput] = useState('2');
+  const [reminderTimeInput, setReminderTimeInput] = useState('');
+  const [reminderLead, setReminderLead] = useState(0);
+  const [draftTagIds, setDraftTagIds] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState<TagFilter>('all');
   const [quadrantDrafts, setQuadrantDrafts] = useState<Record<Quadrant, string>>({
     do: '',
     schedule: '',
@@ -215,9 +381,20 @@ export default function PetPlannerScreen() {
     eliminate: '',
   });
   const [lockscreenStatus, setLockscreenStatus] = useState('');
+  const [editingTodoId, setEditingTodoId] = useState<string | null>(null);
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const [statsVisible, setStatsVisible] = useState(false);
+  const [archiveVisible, setArchiveVisible] = useState(false);
+  const [undoToast, setUndoToast] = useState<UndoToast | null>(null);
+  const undoTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isEating, setIsEating] = useState(false);
+  const eatingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [focusNow, setFocusNow] = useState(() => Date.now());
+  const [utcOffset, setUtcOffset] = useState(() => getUtcOffsetMinutes());
+  const mountedAtRef = useRef(Date.now());
+  const announcedAchievementsRef = useRef<Set<string>>(new Set());
 
   const pulse = useRef(new Animated.Value(1)).current;
-  const float = useRef(new Animated.Value(0)).current;
 
   const openTodos = useMemo(
     () => todos.filter((todo) => !todo.done && isOnOrBefore(todo.startDate, todayKey)),
@@ -234,8 +411,65 @@ export default function PetPlannerScreen() {
       }
       return toDateKey(new Date(todo.completedAt)) === todayKey;
     });
-    return sortVisibleTodos(merged);
-  }, [todos, todayKey]);
+    return sortVisibleTodos(merged.filter((todo) => matchesTagFilter(todo, tagFilter)));
+  }, [todos, todayKey, tagFilter]);
+
+  const overdueTodos = useMemo(
+    () => visibleTodos.filter((todo) => isTodoOverdue(todo, todayKey)),
+    [visibleTodos, todayKey]
+  );
+  const onTrackTodos = useMemo(
+    () => visibleTodos.filter((todo) => !isTodoOverdue(todo, todayKey)),
+    [visibleTodos, todayKey]
+  );
+  const overdueCount = useMemo(
+    () => todos.filter((todo) => isTodoOverdue(todo, todayKey)).length,
+    [todos, todayKey]
+  );
+
+  const rolloverTodos = useMemo(
+    () =>
+      pendingRollover
+        ? todos.filter((todo) => pendingRollover.todoIds.includes(todo.id) && !todo.done)
+        : [],
+    [todos, pendingRollover]
+  );
+
+  useEffect(() => {
+    if (pendingRollover && rolloverTodos.length === 0) {
+      dismissRollover();
+    }
+  }, [pendingRollover, rolloverTodos, dismissRollover]);
+
+  // Conflicts are judged across every tag, so the timeline ignores the tag filter.
+  const todayTimedTodos = useMemo(
+    () => todos.filter((todo) => todo.startTime && todo.startDate === todayKey),
+    [todos, todayKey]
+  );
+
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+  const tagStats = useMemo(() => computeTagStats(tags, todos, todayKey), [tags, todos, todayKey]);
+  const quickAdd = useMemo(
+    () => parseQuickAdd(todoDraft, { today: todayKey, tags }),
+    [todoDraft, todayKey, tags]
+  );
+
+  useEffect(() => {
+    if (tagFilter !== 'all' && tagFilter !== 'untagged' && !tagsById.has(tagFilter)) {
+      setTagFilter('all');
+    }
+    setDraftTagIds((prev) => prev.filter((id) => tagsById.has(id)));
+  }, [tagFilter, tagsById]);
+
+  const editingTodo = useMemo(
+    () => todos.find((todo) => todo.id === editingTodoId) ?? null,
+    [todos, editingTodoId]
+  );
+
+  const seriesById = useMemo(
+    () => new Map(recurringTodos.map((series) => [series.id, series])),
+    [recurringTodos]
+  );
 
   const matrixBuckets = useMemo(() => {
     const grouped: Record<Quadrant, TodoItem[]> = {
@@ -244,11 +478,13 @@ export default function PetPlannerScreen() {
       delegate: [],
       eliminate: [],
     };
-    openTodos.forEach((todo) => {
-      grouped[getTodoQuadrant(todo)].push(todo);
-    });
+    openTodos
+      .filter((todo) => matchesTagFilter(todo, tagFilter))
+      .forEach((todo) => {
+        grouped[getTodoQuadrant(todo)].push(todo);
+      });
     return grouped;
-  }, [openTodos]);
+  }, [openTodos, tagFilter]);
 
   const todayDoneCount = completionLog[todayKey] ?? 0;
   const loopSummary =
@@ -261,26 +497,142 @@ export default function PetPlannerScreen() {
     seedStarterTodos(todayKey);
   }, [runDailyTick, seedStarterTodos, todayKey]);
 
+  useEffect(
+    () => () => {
+      if (undoTimeoutRef.current) clearTimeout(undoTimeoutRef.current);
+    },
+    []
+  );
+
+  // Reminder instants are derived from wall-clock times, so they are rebuilt after the
+  // device changes timezone.
   useEffect(() => {
-    const floatLoop = Animated.loop(
-      Animated.sequence([
-        Animated.timing(float, {
-          toValue: -8,
-          duration: 1200,
-          useNativeDriver: true,
-        }),
-        Animated.timing(float, {
-          toValue: 0,
-          duration: 1200,
-          useNativeDriver: true,
-        }),
-      ])
-    );
-    floatLoop.start();
+    reconcileTodoReminders(todos);
+  }, [todos, utcOffset]);
+
+  // Needs decay by elapsed time, so catch up whenever the app returns and once a minute
+  // while it stays open.
+  useEffect(() => {
+    const timer = setInterval(() => tickNeeds(), NEEDS_TICK_MS);
+    const subscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        tickNeeds();
+        runDailyTick();
+        setUtcOffset(getUtcOffsetMinutes());
+      }
+    });
     return () => {
-      floatLoop.stop();
+      clearInterval(timer);
+      subscription.remove();
     };
-  }, [float]);
+  }, [tickNeeds, runDailyTick]);
+
+  // The countdown only re-renders once a second while a phase is running.
+  useEffect(() => {
+    if (!activeFocus) {
+      return undefined;
+    }
+    setFocusNow(Date.now());
+    const timer = setInterval(() => setFocusNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [activeFocus]);
+
+  useEffect(() => {
+    if (!activeFocus || focusNow < activeFocus.endsAt) {
+      return;
+    }
+    const finished = advanceFocus(focusNow);
+    if (finished) {
+      triggerRewardPulse();
+      Alert.alert('집중 완료!', `+${finished.xp} XP를 받았어요. 잠깐 쉬어 가요.`);
+    }
+  }, [activeFocus, focusNow, advanceFocus]);
+
+  const focusTodo = useMemo(
+    () => (activeFocus ? todos.find((todo) => todo.id === activeFocus.todoId) ?? null : null),
+    [todos, activeFocus]
+  );
+
+  useEffect(() => {
+    reconcileFocusAlert(activeFocus, focusTodo?.title ?? '');
+  }, [activeFocus, focusTodo]);
+
+  // Announce badges earned while the screen is open; older ones only show on the shelf.
+  useEffect(() => {
+    const fresh = unlockedAchievements.filter(
+      (entry) =>
+        entry.unlockedAt >= mountedAtRef.current &&
+        !announcedAchievementsRef.current.has(entry.id)
+    );
+    if (fresh.length === 0) {
+      return;
+    }
+    fresh.forEach((entry) => announcedAchievementsRef.current.add(entry.id));
+    const lines = fresh
+      .map((entry) => ACHIEVEMENTS.find((achievement) => achievement.id === entry.id))
+      .filter((achievement): achievement is (typeof ACHIEVEMENTS)[number] => Boolean(achievement))
+      .map((achievement) => `${achievement.emoji} ${achievement.title} (+${achievement.rewardCoins}코인)`);
+    Alert.alert('배지 획득!', lines.join('\n'));
+  }, [unlockedAchievements]);
+
+  const decayIntervals = useMemo(
+    () => getDecayIntervals(placedDecorations.map((entry) => entry.id)),
+    [placedDecorations]
+  );
+
+  useEffect(() => {
+    reconcileNeedAlerts(
+      needAlertsEnabled,
+      petName,
+      { hunger, energy, happiness, cleanliness },
+      needsClock,
+      decayIntervals
+    );
+  }, [
+    needAlertsEnabled,
+    petName,
+    hunger,
+    energy,
+    happiness,
+    cleanliness,
+    needsClock,
+    decayIntervals,
+  ]);
+
+  useEffect(() => {
+    scheduleDailyDigests(todos, digestSettings);
+  }, [todos, digestSettings]);
+
+  const widgetSnapshot = useMemo(
+    () =>
+      buildWidgetSnapshot(
+        {
+          petName,
+          petEmoji: selectedCreature.emoji,
+          level,
+          streak,
+          hunger,
+          energy,
+          happiness,
+          cleanliness,
+          todos,
+        },
+        todayKey,
+        Date.now()
+      ),
+    [petName, selectedCreature, level, streak, hunger, energy, happiness, cleanliness, todos, todayKey]
+  );
+
+  useEffect(() => {
+    publishWidgetSnapshot(widgetSnapshot);
+  }, [widgetSnapshot]);
+
+  useEffect(
+    () => () => {
+      if (eatingTimeoutRef.current) clearTimeout(eatingTimeoutRef.current);
+    },
+    []
+  );
 
   const triggerRewardPulse = () => {
     Animated.sequence([
@@ -297,6 +649,9 @@ export default function PetPlannerScreen() {
     ]).start();
   };
 
+  const getFilterTagIds = (): string[] =>
+    tagFilter !== 'all' && tagFilter !== 'untagged' ? [tagFilter] : [];
+
   const getSafeSchedule = (): { safeStartDate: string; safeDueDate: string } => {
     const safeStartDate = isValidDateKey(startDateInput) ? startDateInput : todayKey;
     const safeDueDate = isValidDateKey(dueDateInput) ? dueDateInput : safeStartDate;
@@ -307,20 +662,64 @@ export default function PetPlannerScreen() {
     if (!todoDraft.trim()) {
       return;
     }
+    // Phrases typed into the title ("내일 오후 3시", "!긴급", "#work") win over the form below.
+    const parsed = quickAdd.input;
+    if (!parsed.title) {
+      Alert.alert('제목을 확인해 주세요', '날짜·시간·태그 말고 할 일 제목도 적어 주세요.');
+      return;
+    }
+    const timeError =
+      parsed.startTime === undefined ? getTimeInputError(startTimeInput, endTimeInput) : '';
+    if (timeError) {
+      Alert.alert('시간을 확인해 주세요', timeError);
+      return;
+    }
 
     const { safeStartDate, safeDueDate } = getSafeSchedule();
+    // A deadline earlier than the form's start pulls the start back to it.
+    const startDate =
+      parsed.startDate ??
+      (parsed.dueDate && dayDifference(safeStartDate, parsed.dueDate) < 0
+        ? parsed.dueDate
+        : safeStartDate);
     const reward = rewardPreset(tier);
+    const reminder: TodoReminder | null = isValidTimeKey(reminderTimeInput)
+      ? { time: reminderTimeInput, leadMinutes: reminderLead }
+      : null;
+    const repeat =
+      parsed.repeat ??
+      (repeatMode === 'none'
+        ? null
+        : buildRepeatRule(repeatMode, startDate, Number(repeatIntervalInput) || 2));
+    const createdTagIds = quickAdd.newTagNames
+      .map((name, index) => createTag(name, TAG_COLORS[(tags.length + index) % TAG_COLORS.length]))
+      .filter((id): id is string => Boolean(id));
 
     addTodo({
-      title: todoDraft,
-      startDate: safeStartDate,
-      dueDateMode,
-      dueDate: dueDateMode === 'date' ? safeDueDate : null,
+      title: parsed.title,
+      startDate,
+      startTime: parsed.startTime !== undefined ? parsed.startTime : startTimeInput.trim() || null,
+      endTime: parsed.startTime !== undefined ? parsed.endTime : endTimeInput.trim() || null,
+      dueDateMode: parsed.dueDateMode ?? dueDateMode,
+      dueDate:
+        parsed.dueDate !== undefined ? parsed.dueDate : dueDateMode === 'date' ? safeDueDate : null,
       rewardCoins: reward.coins,
       rewardXp: reward.xp,
-      importance: isImportant,
-      urgency: isUrgent,
+      importance: parsed.importance ?? isImportant,
+      urgency: parsed.urgency ?? isUrgent,
+      repeat,
+      reminder,
+      tagIds: Array.from(
+        new Set([...draftTagIds, ...(parsed.tagIds ?? []), ...createdTagIds, ...getFilterTagIds()])
+      ),
     });
+    if (reminder) {
+      requestReminderPermission(usePetLoopStore.getState().todos).then((granted) => {
+        if (!granted) {
+          Alert.alert('알림 권한 필요', '설정에서 알림 권한을 허용하면 할 일 알림을 받을 수 있어요.');
+        }
+      });
+    }
 
     if (!isValidDateKey(startDateInput)) {
       setStartDateInput(safeStartDate);
@@ -330,8 +729,13 @@ export default function PetPlannerScreen() {
     }
 
     setTodoDraft('');
+    setStartTimeInput('');
+    setEndTimeInput('');
     setIsImportant(true);
     setIsUrgent(true);
+    setRepeatMode('none');
+    setReminderTimeInput('');
+    setDraftTagIds([]);
     triggerRewardPulse();
   };
 
@@ -354,6 +758,7 @@ export default function PetPlannerScreen() {
       rewardXp: reward.xp,
       importance: flags.importance,
       urgency: flags.urgency,
+      tagIds: getFilterTagIds(),
     });
 
     if (!isValidDateKey(startDateInput)) {
@@ -371,7 +776,7 @@ export default function PetPlannerScreen() {
   };
 
   const onSendLockscreenDigest = async () => {
-    const success = await sendLockscreenDigest(openTodos);
+    const success = await sendLockscreenDigest(openTodos, digestSettings.previewLimit);
     if (!success) {
       setLockscreenStatus('알림 권한이 없어 잠금화면 요약을 보낼 수 없어요.');
       Alert.alert('알림 권한 필요', '설정에서 알림 권한을 허용한 뒤 다시 시도해 주세요.');
@@ -380,18 +785,244 @@ export default function PetPlannerScreen() {
     setLockscreenStatus('잠금화면 알림으로 현재 투두 요약을 보냈어요.');
   };
 
+  const onChangeDigestSettings = (patch: Partial<DigestSettings>) => {
+    setDigestSettings(patch);
+    if (!patch.morningTime && !patch.eveningTime) {
+      return;
+    }
+    const current = usePetLoopStore.getState();
+    requestDigestPermission(current.todos, current.digestSettings).then((granted) => {
+      if (!granted) {
+        Alert.alert('알림 권한 필요', '설정에서 알림 권한을 허용하면 요약 알림을 받을 수 있어요.');
+      }
+    });
+  };
+
+  const onToggleNeedAlerts = async () => {
+    if (needAlertsEnabled) {
+      setNeedAlertsEnabled(false);
+      return;
+    }
+    if (!(await requestLockscreenPermission())) {
+      Alert.alert('알림 권한 필요', '설정에서 알림 권한을 허용하면 돌봄 알림을 받을 수 있어요.');
+      return;
+    }
+    setNeedAlertsEnabled(true);
+  };
+
+  const onAddTodoOnDate = (dateKey: string, title: string) => {
+    const reward = rewardPreset(tier);
+    addTodo({
+      title,
+      startDate: dateKey,
+      dueDateMode: 'date',
+      dueDate: dateKey,
+      rewardCoins: reward.coins,
+      rewardXp: reward.xp,
+    });
+    triggerRewardPulse();
+  };
+
+  const onImportTodos = (inputs: AddTodoInput[]) => {
+    const reward = rewardPreset('mini');
+    inputs.forEach((input) => {
+      addTodo({
+        rewardCoins: reward.coins,
+        rewardXp: reward.xp,
+        ...input,
+      });
+    });
+    triggerRewardPulse();
+  };
+
+  const showUndoToast = (toast: UndoToast) => {
+    if (undoTimeoutRef.current) clearTimeout(undoTimeoutRef.current);
+    setUndoToast(toast);
+    undoTimeoutRef.current = setTimeout(() => setUndoToast(null), 4000);
+  };
+
   const onCompleteTodo = (todoId: string) => {
     completeTodo(todoId);
     triggerRewardPulse();
+    showUndoToast({ kind: 'complete', todoId, message: '완료! 보상을 받았어요.' });
   };
 
-  const onCarePress = (action: CareAction) => {
-    careCreature(action);
+  const onToggleSubtask = (todoId: string, subtaskId: string) => {
+    toggleSubtask(todoId, subtaskId);
+    const parent = usePetLoopStore.getState().todos.find((todo) => todo.id === todoId);
     triggerRewardPulse();
+    if (parent?.done) {
+      showUndoToast({ kind: 'complete', todoId, message: '체크리스트 완료! 퀘스트도 끝났어요.' });
+    }
+  };
+
+  const onRemoveTodo = (todoId: string) => {
+    removeTodo(todoId);
+    showUndoToast({ kind: 'remove', todoId, message: '할 일을 삭제했어요.' });
+  };
+
+  const onUndo = () => {
+    if (!undoToast) {
+      return;
+    }
+    if (undoToast.kind === 'complete') {
+      uncompleteTodo(undoToast.todoId);
+    } else {
+      undoRemoveTodo();
+    }
+    if (undoTimeoutRef.current) clearTimeout(undoTimeoutRef.current);
+    setUndoToast(null);
+  };
+
+  const onStartFocus = (todo: TodoItem) => {
+    const begin = () => {
+      if (startFocus(todo.id)) {
+        requestFocusAlertPermission(usePetLoopStore.getState().activeFocus, todo.title);
+      }
+    };
+    if (!activeFocus) {
+      begin();
+      return;
+    }
+    Alert.alert('집중 바꾸기', `진행 중인 타이머를 멈추고 "${todo.title}"에 집중할까요?`, [
+      { text: '취소', style: 'cancel' },
+      { text: '바꾸기', onPress: begin },
+    ]);
+  };
+
+  const onUseItem = (id: ItemId) => {
+    if (!consumeItem(id)) {
+      return;
+    }
+    triggerRewardPulse();
+    if (getItem(id)?.kind === 'food') {
+      if (eatingTimeoutRef.current) clearTimeout(eatingTimeoutRef.current);
+      setIsEating(true);
+      eatingTimeoutRef.current = setTimeout(() => setIsEating(false), EATING_ANIMATION_MS);
+    }
+  };
+
+  const moodKind = getMoodKind({ hunger, energy, happiness, cleanliness }, overdueCount);
+  const evolutionStage = getEvolutionStage(level, careCount);
+  const nextEvolution = getNextEvolutionRule(evolutionStage);
+  const evolutionHint = nextEvolution
+    ? `다음 진화 Lv.${nextEvolution.level} · 돌봄 ${Math.min(careCount, nextEvolution.careCount)}/${nextEvolution.careCount}`
+    : '최종 진화';
+
+  const petCollection = useMemo(
+    () =>
+      getPetCollection({
+        petName,
+        creature,
+        level,
+        xp,
+        xpGoal,
+        happiness,
+        energy,
+        hunger,
+        cleanliness,
+        careCount,
+        pets,
+        activePetId,
+      }),
+    [
+      petName,
+      creature,
+      level,
+      xp,
+      xpGoal,
+      happiness,
+      energy,
+      hunger,
+      cleanliness,
+      careCount,
+      pets,
+      activePetId,
+    ]
+  );
+
+  const achievementSnapshot = useMemo(
+    () =>
+      getAchievementSnapshot(
+        {
+          level,
+          streak,
+          bestStreak,
+          habitatTier,
+          completionLog,
+          completionJournal,
+          todos,
+          purchasedDecorations,
+          petName,
+          creature,
+          xp,
+          xpGoal,
+          happiness,
+          energy,
+          hunger,
+          cleanliness,
+          careCount,
+          pets,
+          activePetId,
+        },
+        todayKey
+      ),
+    [
+      level,
+      streak,
+      bestStreak,
+      habitatTier,
+      completionLog,
+      completionJournal,
+      todos,
+      purchasedDecorations,
+      petName,
+      creature,
+      xp,
+      xpGoal,
+      happiness,
+      energy,
+      hunger,
+      cleanliness,
+      careCount,
+      pets,
+      activePetId,
+      todayKey,
+    ]
+  );
+
+  const onPressCreature = (entry: CreatureMeta) => {
+    const owned = petCollection.find((pet) => pet.creature === entry.id);
+    if (owned) {
+      switchPet(owned.id);
+      return;
+    }
+
+    const unlock = getPetUnlockState(entry.id, petCollection, coins);
+    if (unlock === 'locked') {
+      Alert.alert(`${entry.title} 잠김`, `${describeUnlockRule(entry.id)}이 필요해요.`);
+      return;
+    }
+    const cost = unlock === 'buy' ? PET_UNLOCK_RULES[entry.id].coins ?? 0 : 0;
+    Alert.alert(
+      `${entry.title} 데려오기`,
+      cost > 0 ? `${cost}코인으로 새 친구를 데려올까요?` : '레벨 보상으로 새 친구를 데려올 수 있어요.',
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '데려오기',
+          onPress: () => {
+            if (adoptPet(entry.id)) {
+              triggerRewardPulse();
+            }
+          },
+        },
+      ]
+    );
   };
 
-  const onBuyDecoration = (id: DecorationId, cost: number) => {
-    const purchased = purchaseDecoration(id, cost);
+  const onBuyDecoration = (id: DecorationId) => {
+    const purchased = purchaseDecoration(id);
     if (purchased) {
       triggerRewardPulse();
     }
@@ -422,12 +1053,20 @@ export default function PetPlannerScreen() {
         <View style={styles.widgetCard}>
           <Text style={styles.widgetTitle}>홈 위젯 미리보기</Text>
           <View style={styles.widgetBody}>
-            <Text style={styles.widgetEmoji}>{selectedCreature.emoji}</Text>
+            <Text style={styles.widgetEmoji}>{widgetSnapshot.pet.emoji}</Text>
             <View style={styles.widgetCopy}>
-              <Text style={styles.widgetMain}>{petName} Lv.{level}</Text>
-              <Text style={styles.widgetSub}>남은 퀘스트 {openTodos.length}개</Text>
+              <Text style={styles.widgetMain}>
+                {widgetSnapshot.pet.name} Lv.{widgetSnapshot.pet.level} · {widgetSnapshot.pet.moodLabel}
+              </Text>
+              <Text style={styles.widgetSub} numberOfLines={1}>
+                {widgetSnapshot.todos[0]
+                  ? `${widgetSnapshot.todos[0].title}${
+                      widgetSnapshot.openCount > 1 ? ` 외 ${widgetSnapshot.openCount - 1}개` : ''
+                    }`
+                  : '남은 할 일이 없어요.'}
+              </Text>
             </View>
-            <Text style={styles.widgetReward}>🌾 {coins}</Text>
+            <Text style={styles.widgetReward}>🔥 {widgetSnapshot.streak}</Text>
           </View>
         </View>
 
@@ -437,58 +1076,20 @@ export default function PetPlannerScreen() {
             <Text style={styles.cardBadge}>우선순위 먼저</Text>
           </View>
           <Text style={styles.matrixCaption}>사분면에서 바로 작성하고 즉시 실행해요.</Text>
-
-          <View style={styles.scheduleRow}>
-            <View style={styles.scheduleField}>
-              <Text style={styles.scheduleLabel}>시작일</Text>
-              <TextInput
-                style={styles.scheduleInput}
-                value={startDateInput}
-                onChangeText={setStartDateInput}
-                placeholder="YYYY-MM-DD"
-                placeholderTextColor="#9da29b"
-                autoCapitalize="none"
-                autoCorrect={false}
-              />
-            </View>
-            <View style={styles.scheduleField}>
-              <Text style={styles.scheduleLabel}>마감일</Text>
-              {dueDateMode === 'date' ? (
-                <TextInput
-                  style={styles.scheduleInput}
-                  value={dueDateInput}
-                  onChangeText={setDueDateInput}
-                  placeholder="YYYY-MM-DD"
-                  placeholderTextColor="#9da29b"
-                  autoCapitalize="none"
-                  autoCorrect={false}
-                />
-              ) : (
-                <View style={styles.scheduleGhost}>
-                  <Text style={styles.scheduleGhostText}>
-                    {dueDateMode === 'ongoing' ? '계속 진행' : '미정'}
-                  </Text>
-                </View>
-              )}
-            </View>
-          </View>
-
-          <View style={styles.modeRow}>
-            {DUE_MODE_META.map((mode) => {
-              const selected = mode.id === dueDateMode;
-              return (
-                <TouchableOpacity
-                  key={mode.id}
-                  onPress={() => setDueDateMode(mode.id)}
-                  style={[styles.modeChip, selected && styles.modeChipSelected]}
-                >
-                  <Text style={[styles.modeChipText, selected && styles.modeChipTextSelected]}>
-                    {mode.title}
-                  </Text>
-                </TouchableOpacity>
-              );
-            })}
-          </View>
+          <TagFilterBar tags={tags} value={tagFilter} onChange={setTagFilter} />
+
+          <ScheduleFields
+            startDate={startDateInput}
+            onStartDateChange={setStartDateInput}
+            dueDateMode={dueDateMode}
+            onDueDateModeChange={setDueDateMode}
+            dueDate={dueDateInput}
+            onDueDateChange={setDueDateInput}
+            startTime={startTimeInput}
+            onStartTimeChange={setStartTimeInput}
+            endTime={endTimeInput}
+            onEndTimeChange={setEndTimeInput}
+          />
 
           <View style={styles.matrixGrid}>
             {QUADRANT_META.map((meta) => {
@@ -567,29 +1168,49 @@ export default function PetPlannerScreen() {
             <Text style={styles.cardBadge}>Habitat T{habitatTier}</Text>
           </View>
 
-          <View style={styles.creatureRow}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.creatureRow}
+          >
             {CREATURES.map((entry) => {
-              const isSelected = entry.id === creature;
+              const owned = petCollection.find((pet) => pet.creature === entry.id);
+              const isSelected = owned?.id === activePetId;
+              const unlock = owned ? 'owned' : getPetUnlockState(entry.id, petCollection, coins);
               return (
                 <TouchableOpacity
                   key={entry.id}
-                  onPress={() => changeCreature(entry.id)}
-                  style={[styles.creatureChip, isSelected && styles.creatureChipSelected]}
+                  onPress={() => onPressCreature(entry)}
+                  style={[
+                    styles.creatureChip,
+                    isSelected && styles.creatureChipSelected,
+                    unlock === 'locked' && styles.creatureChipLocked,
+                  ]}
                 >
-                  <Text style={styles.creatureChipEmoji}>{entry.emoji}</Text>
+                  <Text style={styles.creatureChipEmoji}>{unlock === 'locked' ? '🔒' : entry.emoji}</Text>
                   <Text style={[styles.creatureChipText, isSelected && styles.creatureChipTextSelected]}>
-                    {entry.title}
+                    {owned ? `${owned.name} Lv.${owned.level}` : entry.title}
                   </Text>
+                  {!owned && (
+                    <Text style={styles.creatureChipHint}>
+                      {unlock === 'locked' ? describeUnlockRule(entry.id) : '데려오기 가능'}
+                    </Text>
+                  )}
                 </TouchableOpacity>
               );
             })}
-          </View>
+          </ScrollView>
 
           <View style={styles.petStage}>
-            <Animated.Text style={[styles.petEmoji, { transform: [{ translateY: float }] }]}>
-              {selectedCreature.emoji}
-            </Animated.Text>
-            <Text style={styles.petMood}>{creatureMood(happiness, energy)}</Text>
+            <PetSprite
+              creature={creature}
+              stage={evolutionStage}
+              animation={pickPetAnimation(moodKind, isEating)}
+            />
+            <Text style={styles.petStageName}>
+              {getStageName(creature, evolutionStage)} · {evolutionHint}
+            </Text>
+            <Text style={styles.petMood}>{creatureMood(moodKind, overdueCount)}</Text>
           </View>
 
           <View style={styles.barGroup}>
@@ -605,16 +1226,17 @@ export default function PetPlannerScreen() {
             <View style={styles.barTrack}>
               <View style={[styles.barFillCool, { width: percent(energy, 100) }]} />
             </View>
+            <Text style={styles.barLabel}>배부름 {hunger}%</Text>
+            <View style={styles.barTrack}>
+              <View style={[styles.barFillHunger, { width: percent(hunger, 100) }]} />
+            </View>
+            <Text style={styles.barLabel}>청결 {cleanliness}%</Text>
+            <View style={styles.barTrack}>
+              <View style={[styles.barFillClean, { width: percent(cleanliness, 100) }]} />
+            </View>
           </View>
 
-          <View style={styles.actionRow}>
-            <TouchableOpacity style={styles.feedButton} onPress={() => onCarePress('feed')}>
-              <Text style={styles.actionText}>먹이 주기 (-20)</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.playButton} onPress={() => onCarePress('play')}>
-              <Text style={styles.actionText}>놀아주기</Text>
-            </TouchableOpacity>
-          </View>
+          <PetInventory inventory={inventory} coins={coins} onUse={onUseItem} onBuy={buyItem} />
         </View>
 
         <View style={styles.card}>
@@ -624,7 +1246,7 @@ export default function PetPlannerScreen() {
               style={styles.input}
               value={todoDraft}
               onChangeText={setTodoDraft}
-              placeholder="예: 보고서 30분 집중 작성"
+              placeholder="예: 내일 오후 3시 보고서 !긴급 #work"
               placeholderTextColor="#8a8f8b"
               returnKeyType="done"
               onSubmitEditing={onAddTodo}
@@ -633,6 +1255,7 @@ export default function PetPlannerScreen() {
               <Text style={styles.addButtonText}>추가</Text>
             </TouchableOpacity>
           </View>
+          <QuickAddPreview title={quickAdd.input.title} chips={quickAdd.chips} />
 
           <View style={styles.priorityRow}>
             <TouchableOpacity
@@ -653,6 +1276,16 @@ export default function PetPlannerScreen() {
             </TouchableOpacity>
           </View>
 
+          <TagChips
+            tags={tags}
+            selectedIds={draftTagIds}
+            onToggle={(tagId) =>
+              setDraftTagIds((prev) =>
+                prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]
+              )
+            }
+          />
+
           <View style={styles.tierRow}>
             <TouchableOpacity
               style={[styles.tierChip, tier === 'mini' && styles.tierChipSelected]}
@@ -671,35 +1304,171 @@ export default function PetPlannerScreen() {
               </Text>
             </TouchableOpacity>
           </View>
+
+          <View style={styles.repeatRow}>
+            {REPEAT_MODE_META.map((mode) => {
+              const selected = mode.id === repeatMode;
+              return (
+                <TouchableOpacity
+                  key={mode.id}
+                  onPress={() => setRepeatMode(mode.id)}
+                  style={[styles.modeChip, styles.repeatChip, selected && styles.modeChipSelected]}
+                >
+                  <Text style={[styles.modeChipText, selected && styles.modeChipTextSelected]}>
+                    {mode.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {repeatMode === 'everyNDays' && (
+            <View style={styles.repeatIntervalRow}>
+              <TextInput
+                style={[styles.scheduleInput, styles.repeatIntervalInput]}
+                value={repeatIntervalInput}
+                onChangeText={setRepeatIntervalInput}
+                keyboardType="number-pad"
+                placeholder="2"
+                placeholderTextColor="#9da29b"
+              />
+              <Text style={styles.scheduleLabel}>일마다 반복 (시작일 기준)</Text>
+            </View>
+          )}
+
+          <View style={styles.repeatIntervalRow}>
+            <TextInput
+              style={[styles.scheduleInput, styles.reminderTimeInput]}
+              value={reminderTimeInput}
+              onChangeText={setReminderTimeInput}
+              placeholder="HH:MM"
+              placeholderTextColor="#9da29b"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={styles.scheduleLabel}>알림 시간 (비우면 알림 없음)</Text>
+          </View>
+          {isValidTimeKey(reminderTimeInput) && (
+            <View style={styles.repeatRow}>
+              {REMINDER_LEAD_META.map((lead) => {
+                const selected = lead.minutes === reminderLead;
+                return (
+                  <TouchableOpacity
+                    key={lead.minutes}
+                    onPress={() => setReminderLead(lead.minutes)}
+                    style={[styles.modeChip, styles.repeatChip, selected && styles.modeChipSelected]}
+                  >
+                    <Text style={[styles.modeChipText, selected && styles.modeChipTextSelected]}>
+                      {lead.title}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
         </View>
 
         <View style={styles.card}>
-          <Text style={styles.cardTitle}>오늘 활성 투두</Text>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>오늘 타임라인</Text>
+            <Text style={styles.cardBadge}>시간순</Text>
+          </View>
+          <DayTimeline todos={todayTimedTodos} onPressTodo={setEditingTodoId} />
+        </View>
+
+        <FocusTimerCard
+          session={activeFocus}
+          todoTitle={focusTodo?.title ?? ''}
+          summary={activeFocus ? summarizeTodoFocus(focusLog, activeFocus.todoId) : null}
+          settings={focusSettings}
+          now={focusNow}
+          onChangeSettings={setFocusSettings}
+          onStop={stopFocus}
+        />
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>오늘 활성 투두</Text>
+            <TouchableOpacity onPress={() => setArchiveVisible(true)}>
+              <Text style={styles.cardBadge}>보관함 {archivedTodos.length}</Text>
+            </TouchableOpacity>
+          </View>
+          <TagFilterBar tags={tags} value={tagFilter} onChange={setTagFilter} />
           <View style={styles.todoList}>
             {visibleTodos.length === 0 && (
               <Text style={styles.emptyText}>시작일이 오늘 이전인 투두가 여기에 보여요.</Text>
             )}
-            {visibleTodos.map((todo) => {
+            {overdueTodos.length > 0 && (
+              <View style={styles.overdueHeader}>
+                <Text style={styles.overdueHeaderText}>밀린 할 일 {overdueTodos.length}</Text>
+                <TouchableOpacity
+                  onPress={() => rollOverTodos(overdueTodos.map((todo) => todo.id), todayKey)}
+                >
+                  <Text style={styles.overdueHeaderAction}>모두 오늘로</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {[...overdueTodos, ...onTrackTodos].map((todo) => {
               const quadrant = getTodoQuadrant(todo);
-              const overdue =
-                !todo.done &&
-                todo.dueDateMode === 'date' &&
-                Boolean(todo.dueDate) &&
-                isBefore(todo.dueDate as string, todayKey);
+              const series = todo.seriesId ? seriesById.get(todo.seriesId) : undefined;
+              const deadlineKey = getTodoDeadlineKey(todo);
+              const overdueDays =
+                deadlineKey && isTodoOverdue(todo, todayKey)
+                  ? dayDifference(deadlineKey, todayKey)
+                  : 0;
+              const focusSummary = summarizeTodoFocus(focusLog, todo.id);
+              const isFocusing = activeFocus?.todoId === todo.id;
 
               return (
-                <View key={todo.id} style={[styles.todoItem, todo.done && styles.todoItemDone]}>
+                <View
+                  key={todo.id}
+                  style={[
+                    styles.todoItem,
+                    overdueDays > 0 && styles.todoItemOverdue,
+                    todo.done && styles.todoItemDone,
+                  ]}
+                >
                   <View style={styles.todoHeaderRow}>
                     <Text style={[styles.todoTitle, todo.done && styles.todoTitleDone]} numberOfLines={1}>
                       [{QUADRANT_LABEL[quadrant]}] {todo.title}
                     </Text>
-                    {overdue && <Text style={styles.overdueBadge}>지남</Text>}
+                    {overdueDays > 0 && (
+                      <Text style={styles.overdueBadge}>{overdueDays}일 지남</Text>
+                    )}
                   </View>
 
+                  {todo.tagIds.length > 0 && (
+                    <View style={styles.todoTagRow}>
+                      {todo.tagIds.map((tagId) => {
+                        const tag = tagsById.get(tagId);
+                        return tag ? (
+                          <Text key={tag.id} style={[styles.todoTag, { color: tag.color }]}>
+                            #{tag.name}
+                          </Text>
+                        ) : null;
+                      })}
+                    </View>
+                  )}
                   <Text style={styles.todoMeta}>{getTodoScheduleSummary(todo)}</Text>
+                  {series && <Text style={styles.todoMeta}>{getSeriesSummary(series)}</Text>}
+                  {todo.reminder && !todo.done && (
+                    <Text style={styles.todoMeta}>{getReminderSummary(todo.reminder)}</Text>
+                  )}
                   <Text style={styles.todoMeta}>
                     보상 {todo.rewardCoins}코인 · {todo.rewardXp}XP
                   </Text>
+                  {focusSummary.sessions > 0 && (
+                    <Text style={styles.todoMeta}>
+                      🍅 집중 {focusSummary.sessions}회 · {focusSummary.minutes}분 (+{focusSummary.xp}XP)
+                    </Text>
+                  )}
+                  <SubtaskChecklist
+                    subtasks={todo.subtasks}
+                    locked={todo.done}
+                    onToggle={(subtaskId) => onToggleSubtask(todo.id, subtaskId)}
+                    onAdd={(title) => addSubtask(todo.id, title)}
+                    onRemove={(subtaskId) => removeSubtask(todo.id, subtaskId)}
+                    onMove={(subtaskId, offset) => moveSubtask(todo.id, subtaskId, offset)}
+                  />
 
                   {!todo.done && (
                     <View style={styles.todoControlRow}>
@@ -732,23 +1501,63 @@ export default function PetPlannerScreen() {
                           긴급
                         </Text>
                       </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.todoMetaButton, isFocusing && styles.todoMetaButtonOn]}
+                        disabled={isFocusing}
+                        onPress={() => onStartFocus(todo)}
+                      >
+                        <Text style={[styles.todoMetaButtonText, isFocusing && styles.todoMetaButtonTextOn]}>
+                          {isFocusing ? '집중 중' : '집중'}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.todoMetaButton}
+                        onPress={() => setEditingTodoId(todo.id)}
+                      >
+                        <Text style={styles.todoMetaButtonText}>수정</Text>
+                      </TouchableOpacity>
                       <TouchableOpacity
                         style={styles.todoMetaButton}
                         onPress={() => setTodoQuadrant(todo.id, getNextQuadrant(quadrant))}
                       >
                         <Text style={styles.todoMetaButtonText}>사분면 이동</Text>
                       </TouchableOpacity>
-                      <TouchableOpacity style={styles.todoDeleteButton} onPress={() => removeTodo(todo.id)}>
+                      {todo.reminder && (
+                        <TouchableOpacity
+                          style={styles.todoMetaButton}
+                          onPress={() => setTodoReminder(todo.id, null)}
+                        >
+                          <Text style={styles.todoMetaButtonText}>알림 끄기</Text>
+                        </TouchableOpacity>
+                      )}
+                      {series && (
+                        <TouchableOpacity
+                          style={styles.todoMetaButton}
+                          onPress={() => stopRecurringTodo(series.id)}
+                        >
+                          <Text style={styles.todoMetaButtonText}>반복 중단</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.todoDeleteButton} onPress={() => onRemoveTodo(todo.id)}>
                         <Text style={styles.todoDeleteButtonText}>삭제</Text>
                       </TouchableOpacity>
                     </View>
                   )}
+                  {todo.done && todo.completionReceipt && (
+                    <View style={styles.todoControlRow}>
+                      <TouchableOpacity style={styles.todoMetaButton} onPress={() => uncompleteTodo(todo.id)}>
+                        <Text style={styles.todoMetaButtonText}>완료 취소</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
                 </View>
               );
             })}
           </View>
         </View>
 
+        <TagManagerCard stats={tagStats} onCreateTag={createTag} onRemoveTag={removeTag} />
+
         <View style={styles.lockscreenCard}>
           <Text style={styles.cardTitle}>잠금화면 투두 확인</Text>
           <Text style={styles.lockscreenDescription}>
@@ -758,10 +1567,62 @@ export default function PetPlannerScreen() {
             <Text style={styles.lockscreenButtonText}>잠금화면 요약 보내기</Text>
           </TouchableOpacity>
           {lockscreenStatus ? <Text style={styles.lockscreenStatus}>{lockscreenStatus}</Text> : null}
+          <View style={styles.needAlertRow}>
+            <View style={styles.needAlertText}>
+              <Text style={styles.needAlertTitle}>돌봄 알림</Text>
+              <Text style={styles.lockscreenDescription}>
+                {petName}의 상태가 떨어지기 전에 알려 드려요.
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.needAlertToggle, needAlertsEnabled && styles.needAlertToggleOn]}
+              onPress={onToggleNeedAlerts}
+            >
+              <Text
+                style={[
+                  styles.needAlertToggleText,
+                  needAlertsEnabled && styles.needAlertToggleTextOn,
+                ]}
+              >
+                {needAlertsEnabled ? 'ON' : 'OFF'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <DailyDigestSettings
+            settings={digestSettings}
+            preview={buildDigestBody(openTodos, digestSettings.previewLimit)}
+            onChange={onChangeDigestSettings}
+          />
+        </View>
+
+        <CalendarFileCard todos={todos} onImportTodos={onImportTodos} />
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>캘린더</Text>
+            <Text style={styles.cardBadge}>날짜를 눌러 확인</Text>
+          </View>
+          <PlannerCalendar
+            todos={todos}
+            completionLog={completionLog}
+            todayKey={todayKey}
+            onAddTodoOnDate={onAddTodoOnDate}
+            onCompleteTodo={onCompleteTodo}
+          />
         </View>
 
         <View style={styles.card}>
-          <Text style={styles.cardTitle}>주간 성장 캘린더</Text>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>주간 성장 캘린더</Text>
+            <View style={styles.cardBadgeRow}>
+              <TouchableOpacity onPress={() => setStatsVisible(true)}>
+                <Text style={styles.cardBadge}>통계</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setHistoryVisible(true)}>
+                <Text style={styles.cardBadge}>완료 기록</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
           <View style={styles.calendarRow}>
             {recentDates.map((dateKey) => {
               const doneCount = completionLog[dateKey] ?? 0;
@@ -772,40 +1633,94 @@ export default function PetPlannerScreen() {
                   <Text style={[styles.dayDate, isToday && styles.dayDateToday]}>
                     {dateKey.split('-')[2]}
                   </Text>
-                  <Text style={[styles.dayCount, doneCount > 0 && styles.dayCountActive]}>{doneCount}</Text>
+                  <Text style={[styles.dayCount, doneCount > 0 && styles.dayCountActive]}>
+                    {doneCount === 0 && frozenDates.includes(dateKey) ? '❄️' : doneCount}
+                  </Text>
                 </View>
               );
             })}
           </View>
         </View>
 
-        <View style={styles.card}>
-          <Text style={styles.cardTitle}>보상 상점</Text>
-          {DECORATIONS.map((item) => {
-            const owned = purchasedDecorations.includes(item.id);
-            return (
-              <View key={item.id} style={styles.shopItem}>
-                <View style={styles.shopMeta}>
-                  <Text style={styles.shopEmoji}>{item.emoji}</Text>
-                  <View>
-                    <Text style={styles.shopTitle}>{item.title}</Text>
-                    <Text style={styles.shopCost}>{item.cost} 코인</Text>
-                  </View>
-                </View>
-                <TouchableOpacity
-                  style={[styles.shopButton, owned && styles.shopButtonOwned]}
-                  disabled={owned}
-                  onPress={() => onBuyDecoration(item.id, item.cost)}
-                >
-                  <Text style={[styles.shopButtonText, owned && styles.shopButtonTextOwned]}>
-                    {owned ? '보유중' : '구매'}
-                  </Text>
-                </TouchableOpacity>
-              </View>
-            );
-          })}
-        </View>
+        <StreakProtectionCard
+          freezes={streakFreezes}
+          coins={coins}
+          vacation={vacation}
+          todayKey={todayKey}
+          onBuyFreeze={buyStreakFreeze}
+          onSetVacation={setVacation}
+        />
+
+        <BadgeShelf
+          unlocked={unlockedAchievements}
+          snapshot={achievementSnapshot}
+        />
+
+        <DecorationShopCard
+          coins={coins}
+          habitatTier={habitatTier}
+          ownedIds={purchasedDecorations}
+          onBuy={onBuyDecoration}
+        />
+
+        <HabitatScene
+          habitatTier={habitatTier}
+          ownedIds={purchasedDecorations}
+          placed={placedDecorations}
+          onPlace={placeDecoration}
+          onStore={storeDecoration}
+        />
       </ScrollView>
+      {undoToast && (
+        <View style={styles.undoToast} pointerEvents="box-none">
+          <View style={styles.undoToastContent}>
+            <Text style={styles.undoToastText}>{undoToast.message}</Text>
+            <TouchableOpacity onPress={onUndo}>
+              <Text style={styles.undoToastAction}>되돌리기</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+      <TodoEditSheet
+        todo={editingTodo}
+        tags={tags}
+        rewardTiers={REWARD_TIER_OPTIONS}
+        onClose={() => setEditingTodoId(null)}
+        onSave={updateTodo}
+      />
+      <CompletionHistorySheet
+        visible={historyVisible}
+        entries={completionJournal}
+        retentionDays={journalRetentionDays}
+        onChangeRetention={setJournalRetention}
+        onClose={() => setHistoryVisible(false)}
+      />
+      <StatsDashboardSheet
+        visible={statsVisible}
+        completionLog={completionLog}
+        journal={completionJournal}
+        streak={streak}
+        bestStreak={bestStreak}
+        todayKey={todayKey}
+        onClose={() => setStatsVisible(false)}
+      />
+      <ArchiveReviewSheet
+        visible={archiveVisible}
+        archived={archivedTodos}
+        cutoffDays={staleArchiveDays}
+        todayKey={todayKey}
+        onChangeCutoff={setStaleArchiveDays}
+        onRestore={restoreArchivedTodos}
+        onReschedule={rescheduleArchivedTodos}
+        onDiscard={discardArchivedTodos}
+        onClose={() => setArchiveVisible(false)}
+      />
+      <RolloverSheet
+        todos={rolloverTodos}
+        todayKey={todayKey}
+        onRollOver={rollOverTodos}
+        onDismiss={dismissRollover}
+      />
     </SafeAreaView>
   );
 }
@@ -922,6 +1837,10 @@ const styles = StyleSheet.create({
     color: '#2f3930',
     fontSize: 18,
   },
+  cardBadgeRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
   cardBadge: {
     fontFamily: 'SpaceGrotesk_500Medium',
     fontSize: 12,
@@ -937,8 +1856,9 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   creatureChip: {
-    flex: 1,
+    minWidth: 78,
     alignItems: 'center',
+    paddingHorizontal: 10,
     borderRadius: 12,
     borderWidth: 1,
     borderColor: '#d8ddd1',
@@ -961,6 +1881,15 @@ const styles = StyleSheet.create({
   creatureChipTextSelected: {
     color: '#2f5132',
   },
+  creatureChipLocked: {
+    opacity: 0.6,
+  },
+  creatureChipHint: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#8a9488',
+    fontSize: 10,
+  },
   petStage: {
     marginTop: 14,
     borderRadius: 16,
@@ -970,9 +1899,12 @@ const styles = StyleSheet.create({
     minHeight: 132,
     padding: 12,
   },
-  petEmoji: {
-    fontSize: 56,
-    marginBottom: 8,
+  petStageName: {
+    marginTop: 6,
+    marginBottom: 4,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    fontSize: 12,
+    color: '#5d7a52',
   },
   petMood: {
     fontFamily: 'SpaceGrotesk_500Medium',
@@ -1011,29 +1943,15 @@ const styles = StyleSheet.create({
     borderRadius: 999,
     backgroundColor: '#7ab6bd',
   },
-  actionRow: {
-    marginTop: 14,
-    flexDirection: 'row',
-    gap: 10,
-  },
-  feedButton: {
-    flex: 1,
-    borderRadius: 12,
-    backgroundColor: '#ffd778',
-    paddingVertical: 10,
-    alignItems: 'center',
-  },
-  playButton: {
-    flex: 1,
-    borderRadius: 12,
-    backgroundColor: '#9ed3c9',
-    paddingVertical: 10,
-    alignItems: 'center',
+  barFillHunger: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: '#e6c25a',
   },
-  actionText: {
-    fontFamily: 'SpaceGrotesk_700Bold',
-    fontSize: 13,
-    color: '#2f342d',
+  barFillClean: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: '#a9b8e8',
   },
   inputRow: {
     flexDirection: 'row',
@@ -1064,15 +1982,6 @@ const styles = StyleSheet.create({
     color: '#f4f8f3',
     fontSize: 13,
   },
-  scheduleRow: {
-    marginTop: 10,
-    flexDirection: 'row',
-    gap: 8,
-  },
-  scheduleField: {
-    flex: 1,
-    gap: 6,
-  },
   scheduleLabel: {
     fontFamily: 'SpaceGrotesk_500Medium',
     color: '#5f6a5d',
@@ -1089,25 +1998,6 @@ const styles = StyleSheet.create({
     fontFamily: 'SpaceGrotesk_500Medium',
     fontSize: 13,
   },
-  scheduleGhost: {
-    borderWidth: 1,
-    borderColor: '#d8ddd0',
-    borderRadius: 10,
-    backgroundColor: '#f4f6ef',
-    paddingHorizontal: 10,
-    paddingVertical: 8,
-    justifyContent: 'center',
-  },
-  scheduleGhostText: {
-    fontFamily: 'SpaceGrotesk_500Medium',
-    color: '#738072',
-    fontSize: 13,
-  },
-  modeRow: {
-    marginTop: 10,
-    flexDirection: 'row',
-    gap: 8,
-  },
   modeChip: {
     flex: 1,
     alignItems: 'center',
@@ -1129,6 +2019,30 @@ const styles = StyleSheet.create({
   modeChipTextSelected: {
     color: '#325736',
   },
+  repeatRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  repeatChip: {
+    flex: 0,
+    paddingHorizontal: 12,
+  },
+  repeatIntervalRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  repeatIntervalInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  reminderTimeInput: {
+    width: 80,
+    textAlign: 'center',
+  },
   priorityRow: {
     marginTop: 10,
     flexDirection: 'row',
@@ -1217,6 +2131,25 @@ const styles = StyleSheet.create({
     textDecorationLine: 'line-through',
     color: '#8a9387',
   },
+  todoItemOverdue: {
+    borderColor: '#f0c4b5',
+    backgroundColor: '#fff7f3',
+  },
+  overdueHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  overdueHeaderText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#8f3f29',
+    fontSize: 13,
+  },
+  overdueHeaderAction: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#b0523d',
+    fontSize: 12,
+  },
   overdueBadge: {
     fontFamily: 'SpaceGrotesk_700Bold',
     color: '#8f3f29',
@@ -1226,6 +2159,16 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     fontSize: 11,
   },
+  todoTagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 2,
+  },
+  todoTag: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    fontSize: 11,
+  },
   todoMeta: {
     fontFamily: 'SpaceGrotesk_500Medium',
     color: '#647063',
@@ -1281,6 +2224,32 @@ const styles = StyleSheet.create({
     color: '#9e6952',
     fontSize: 11,
   },
+  undoToast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 28,
+    alignItems: 'center',
+  },
+  undoToastContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+    backgroundColor: 'rgba(40, 52, 38, 0.95)',
+  },
+  undoToastText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#f3f7ee',
+    fontSize: 13,
+  },
+  undoToastAction: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffd88a',
+    fontSize: 13,
+  },
   lockscreenCard: {
     borderRadius: 20,
     borderWidth: 1,
@@ -1312,6 +2281,40 @@ const styles = StyleSheet.create({
     color: '#2f5c5e',
     fontSize: 12,
   },
+  needAlertRow: {
+    marginTop: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  needAlertText: {
+    flex: 1,
+  },
+  needAlertTitle: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2e5561',
+    fontSize: 13,
+  },
+  needAlertToggle: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#b9cdd2',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  needAlertToggleOn: {
+    borderColor: '#2e5561',
+    backgroundColor: '#2e5561',
+  },
+  needAlertToggleText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#4f6366',
+    fontSize: 12,
+  },
+  needAlertToggleTextOn: {
+    color: '#f3f7f8',
+  },
   matrixCaption: {
     marginTop: 4,
     fontFamily: 'SpaceGrotesk_500Medium',
@@ -1459,51 +2462,4 @@ const styles = StyleSheet.create({
   dayCountActive: {
     color: '#3a6842',
   },
-  shopItem: {
-    marginTop: 10,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#eceee5',
-    padding: 10,
-    backgroundColor: '#fafcf7',
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-  },
-  shopMeta: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 9,
-  },
-  shopEmoji: {
-    fontSize: 23,
-  },
-  shopTitle: {
-    fontFamily: 'SpaceGrotesk_700Bold',
-    color: '#303730',
-    fontSize: 14,
-  },
-  shopCost: {
-    fontFamily: 'SpaceGrotesk_500Medium',
-    color: '#70806d',
-    fontSize: 12,
-    marginTop: 2,
-  },
-  shopButton: {
-    borderRadius: 999,
-    backgroundColor: '#1f3f2f',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-  },
-  shopButtonOwned: {
-    backgroundColor: '#d4ddd3',
-  },
-  shopButtonText: {
-    fontFamily: 'SpaceGrotesk_700Bold',
-    color: '#f3f7f2',
-    fontSize: 12,
-  },
-  shopButtonTextOwned: {
-    color: '#5b6759',
-  },
 });
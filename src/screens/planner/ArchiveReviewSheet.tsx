@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { ArchivedTodo } from '../../store/petLoopStore';
+import { ARCHIVE_CUTOFF_OPTIONS, getTodoDeadlineKey } from '../../lib/todoArchive';
+import { isValidDateKey } from '../../lib/dateKeys';
+
+interface ArchiveReviewSheetProps {
+  visible: boolean;
+  archived: ArchivedTodo[];
+  cutoffDays: number | null;
+  todayKey: string;
+  onChangeCutoff: (days: number | null) => void;
+  onRestore: (ids: string[]) => void;
+  onReschedule: (ids: string[], dateKey: string) => void;
+  onDiscard: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+export default function ArchiveReviewSheet({
+  visible,
+  archived,
+  cutoffDays,
+  todayKey,
+  onChangeCutoff,
+  onRestore,
+  onReschedule,
+  onDiscard,
+  onClose,
+}: ArchiveReviewSheetProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [rescheduleDate, setRescheduleDate] = useState(todayKey);
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedIds([]);
+      setRescheduleDate(todayKey);
+    }
+  }, [visible, todayKey]);
+
+  const allSelected = archived.length > 0 && selectedIds.length === archived.length;
+  const hasSelection = selectedIds.length > 0;
+  const dateValid = isValidDateKey(rescheduleDate);
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id]));
+
+  const runAndClear = (action: (ids: string[]) => void) => {
+    action(selectedIds);
+    setSelectedIds([]);
+  };
+
+  const onConfirmDiscard = () => {
+    Alert.alert('보관함 비우기', `선택한 ${selectedIds.length}개를 영구 삭제할까요?`, [
+      { text: '취소', style: 'cancel' },
+      { text: '삭제', style: 'destructive', onPress: () => runAndClear(onDiscard) },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>보관함 검토</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>닫기</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>기한이 지나고 며칠 뒤에 보관할까요?</Text>
+          <View style={styles.chipRow}>
+            {ARCHIVE_CUTOFF_OPTIONS.map((option) => {
+              const selected = option.days === cutoffDays;
+              return (
+                <TouchableOpacity
+                  key={option.title}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => onChangeCutoff(option.days)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {archived.length === 0 ? (
+            <Text style={styles.empty}>보관된 할 일이 없어요.</Text>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={styles.selectAll}
+                onPress={() =>
+                  setSelectedIds(allSelected ? [] : archived.map((entry) => entry.todo.id))
+                }
+              >
+                <Text style={styles.selectAllText}>
+                  {allSelected ? '전체 해제' : '전체 선택'} · {selectedIds.length}/{archived.length}
+                </Text>
+              </TouchableOpacity>
+
+              <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+                {archived.map(({ todo }) => {
+                  const selected = selectedIds.includes(todo.id);
+                  return (
+                    <TouchableOpacity
+                      key={todo.id}
+                      style={[styles.itemRow, selected && styles.itemRowSelected]}
+                      onPress={() => toggle(todo.id)}
+                    >
+                      <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                        {selected && <Text style={styles.checkmark}>✓</Text>}
+                      </View>
+                      <View style={styles.itemMain}>
+                        <Text style={styles.itemTitle} numberOfLines={1}>
+                          {todo.title}
+                        </Text>
+                        <Text style={styles.itemMeta}>기한 {getTodoDeadlineKey(todo) ?? '없음'}</Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+
+              <View style={styles.rescheduleRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={rescheduleDate}
+                  onChangeText={setRescheduleDate}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#9da29b"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={[styles.actionButton, (!hasSelection || !dateValid) && styles.actionDisabled]}
+                  disabled={!hasSelection || !dateValid}
+                  onPress={() => runAndClear((ids) => onReschedule(ids, rescheduleDate))}
+                >
+                  <Text style={styles.actionText}>날짜 변경</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.actionRow}>
+                <TouchableOpacity
+                  style={[styles.actionButton, !hasSelection && styles.actionDisabled]}
+                  disabled={!hasSelection}
+                  onPress={() => runAndClear(onRestore)}
+                >
+                  <Text style={styles.actionText}>그대로 복원</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.discardButton, !hasSelection && styles.actionDisabled]}
+                  disabled={!hasSelection}
+                  onPress={onConfirmDiscard}
+                >
+                  <Text style={styles.discardText}>삭제</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(28, 34, 26, 0.45)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    backgroundColor: '#ffffff',
+    padding: 18,
+    paddingBottom: 32,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  close: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#5f6a5d',
+    fontSize: 13,
+  },
+  label: {
+    marginTop: 12,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#5f6a5d',
+    fontSize: 12,
+  },
+  chipRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    flex: 1,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    paddingVertical: 7,
+    alignItems: 'center',
+    backgroundColor: '#f7f8f2',
+  },
+  chipSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#325736',
+  },
+  empty: {
+    marginTop: 18,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9aa096',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  selectAll: {
+    marginTop: 14,
+  },
+  selectAllText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#4f7d4f',
+    fontSize: 12,
+  },
+  list: {
+    marginTop: 8,
+  },
+  listContent: {
+    gap: 6,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  itemRowSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#f3f9ef',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#b9c2b0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+  },
+  checkboxSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e2f1da',
+  },
+  checkmark: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f7a45',
+    fontSize: 12,
+  },
+  itemMain: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#2f3930',
+    fontSize: 13,
+  },
+  itemMeta: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#b0523d',
+    fontSize: 11,
+  },
+  rescheduleRow: {
+    marginTop: 12,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  actionRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 11,
+    alignItems: 'center',
+    backgroundColor: '#4f7d4f',
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffffff',
+    fontSize: 13,
+  },
+  discardButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 11,
+    alignItems: 'center',
+    backgroundColor: '#f6e3dc',
+  },
+  discardText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#b0523d',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,123 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { UnlockedAchievement } from '../../store/petLoopStore';
+import type { AchievementSnapshot } from '../../lib/achievements';
+import { ACHIEVEMENTS, getAchievementProgress } from '../../lib/achievements';
+import { toDateKey } from '../../lib/dateKeys';
+
+interface BadgeShelfProps {
+  unlocked: UnlockedAchievement[];
+  snapshot: AchievementSnapshot;
+}
+
+export default function BadgeShelf({ unlocked, snapshot }: BadgeShelfProps) {
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>배지 선반</Text>
+        <Text style={styles.badge}>
+          {unlocked.length}/{ACHIEVEMENTS.length}
+        </Text>
+      </View>
+
+      <View style={styles.grid}>
+        {ACHIEVEMENTS.map((achievement) => {
+          const entry = unlocked.find((item) => item.id === achievement.id);
+          const progress = getAchievementProgress(achievement.condition, snapshot);
+          const progressLabel = `${Math.min(progress.current, progress.target)}/${progress.target}`;
+          return (
+            <View key={achievement.id} style={[styles.tile, !entry && styles.tileLocked]}>
+              <Text style={[styles.emoji, !entry && styles.emojiLocked]}>{achievement.emoji}</Text>
+              <Text style={styles.tileTitle} numberOfLines={1}>
+                {achievement.title}
+              </Text>
+              <Text style={styles.tileDescription} numberOfLines={2}>
+                {achievement.description}
+              </Text>
+              <Text style={[styles.tileMeta, entry && styles.tileMetaUnlocked]}>
+                {entry
+                  ? `${toDateKey(new Date(entry.unlockedAt))} 획득`
+                  : `${progressLabel} · +${achievement.rewardCoins}코인`}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    padding: 14,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  badge: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 12,
+    color: '#567451',
+    backgroundColor: '#e5f5e1',
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  grid: {
+    marginTop: 10,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tile: {
+    width: '48%',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2d9a8',
+    backgroundColor: '#fffbea',
+    padding: 10,
+  },
+  tileLocked: {
+    borderColor: '#eceee5',
+    backgroundColor: '#f6f7f2',
+  },
+  emoji: {
+    fontSize: 24,
+  },
+  emojiLocked: {
+    opacity: 0.35,
+  },
+  tileTitle: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#303730',
+    fontSize: 13,
+  },
+  tileDescription: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 11,
+    minHeight: 28,
+  },
+  tileMeta: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#8a9488',
+    fontSize: 10,
+  },
+  tileMetaUnlocked: {
+    color: '#9a7a1f',
+  },
+});
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { AddTodoInput, TodoItem } from '../../store/petLoopStore';
+import type { IcsComponentKind } from '../../lib/icalendar';
+import { pickIcsTodos, shareTodosAsIcs } from '../../lib/todoCalendarFile';
+
+interface CalendarFileCardProps {
+  todos: TodoItem[];
+  onImportTodos: (inputs: AddTodoInput[]) => void;
+}
+
+export default function CalendarFileCard({ todos, onImportTodos }: CalendarFileCardProps) {
+  const [status, setStatus] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const onExport = async (kind: IcsComponentKind) => {
+    if (todos.length === 0) {
+      setStatus('내보낼 할 일이 없어요.');
+      return;
+    }
+
+    setIsBusy(true);
+    const success = await shareTodosAsIcs(todos, kind);
+    setIsBusy(false);
+    if (!success) {
+      Alert.alert('내보내기 실패', '이 기기에서는 파일 공유를 사용할 수 없어요.');
+      return;
+    }
+    setStatus(`${todos.length}개 할 일을 ${kind === 'VTODO' ? '할 일' : '일정'} 형식으로 내보냈어요.`);
+  };
+
+  const onImport = async () => {
+    setIsBusy(true);
+    const result = await pickIcsTodos();
+    setIsBusy(false);
+    if (!result) {
+      return;
+    }
+
+    if (result.todos.length === 0) {
+      setStatus('가져올 수 있는 할 일을 찾지 못했어요.');
+      return;
+    }
+
+    onImportTodos(result.todos);
+    setStatus(
+      result.skipped > 0
+        ? `${result.todos.length}개 가져옴 · 완료/취소된 ${result.skipped}개 건너뜀`
+        : `${result.todos.length}개 할 일을 가져왔어요.`
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>캘린더 파일 (.ics)</Text>
+      <Text style={styles.description}>
+        다른 캘린더 앱과 마감일을 주고받아요. 우선순위는 사분면으로 변환돼요.
+      </Text>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={styles.button}
+          disabled={isBusy}
+          onPress={() => onExport('VTODO')}
+        >
+          <Text style={styles.buttonText}>할 일로 내보내기</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.button}
+          disabled={isBusy}
+          onPress={() => onExport('VEVENT')}
+        >
+          <Text style={styles.buttonText}>일정으로 내보내기</Text>
+        </TouchableOpacity>
+      </View>
+      <TouchableOpacity
+        style={[styles.button, styles.importButton]}
+        disabled={isBusy}
+        onPress={onImport}
+      >
+        <Text style={[styles.buttonText, styles.importButtonText]}>.ics 파일 가져오기</Text>
+      </TouchableOpacity>
+      {status ? <Text style={styles.status}>{status}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e6dfd0',
+    backgroundColor: '#fbf7ee',
+    padding: 14,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  description: {
+    marginTop: 6,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6a6253',
+    fontSize: 12,
+  },
+  buttonRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    backgroundColor: '#5d5240',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#fbf7ee',
+    fontSize: 13,
+  },
+  importButton: {
+    flex: 0,
+    marginTop: 8,
+    backgroundColor: '#efe6d3',
+  },
+  importButtonText: {
+    color: '#5d5240',
+  },
+  status: {
+    marginTop: 8,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6a5a3c',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { CompletionJournalEntry, Quadrant } from '../../store/petLoopStore';
+import { JOURNAL_RETENTION_OPTIONS, groupJournalByDay } from '../../lib/completionJournal';
+import { parseDateKey } from '../../lib/dateKeys';
+
+interface CompletionHistorySheetProps {
+  visible: boolean;
+  entries: CompletionJournalEntry[];
+  retentionDays: number | null;
+  onChangeRetention: (days: number | null) => void;
+  onClose: () => void;
+}
+
+const QUADRANT_TAG: Record<Quadrant, string> = {
+  do: 'Q1',
+  schedule: 'Q2',
+  delegate: 'Q3',
+  eliminate: 'Q4',
+};
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const formatDayTitle = (dateKey: string): string => {
+  const date = parseDateKey(dateKey);
+  return `${date.getMonth() + 1}월 ${date.getDate()}일 (${WEEKDAY_LABELS[date.getDay()]})`;
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+export default function CompletionHistorySheet({
+  visible,
+  entries,
+  retentionDays,
+  onChangeRetention,
+  onClose,
+}: CompletionHistorySheetProps) {
+  const days = useMemo(() => groupJournalByDay(entries), [entries]);
+  const [dayIndex, setDayIndex] = useState(0);
+
+  useEffect(() => {
+    if (visible) {
+      setDayIndex(0);
+    }
+  }, [visible]);
+
+  const day = days[Math.min(dayIndex, days.length - 1)];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>완료 기록</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>닫기</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>기록 보관 기간</Text>
+          <View style={styles.chipRow}>
+            {JOURNAL_RETENTION_OPTIONS.map((option) => {
+              const selected = option.days === retentionDays;
+              return (
+                <TouchableOpacity
+                  key={option.title}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => onChangeRetention(option.days)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {!day ? (
+            <Text style={styles.empty}>아직 완료한 기록이 없어요.</Text>
+          ) : (
+            <>
+              <View style={styles.dayNav}>
+                <TouchableOpacity
+                  disabled={dayIndex >= days.length - 1}
+                  onPress={() => setDayIndex((prev) => Math.min(prev + 1, days.length - 1))}
+                >
+                  <Text style={[styles.navText, dayIndex >= days.length - 1 && styles.navTextMuted]}>
+                    ‹ 이전
+                  </Text>
+                </TouchableOpacity>
+                <View style={styles.dayHeader}>
+                  <Text style={styles.dayTitle}>{formatDayTitle(day.dateKey)}</Text>
+                  <Text style={styles.daySummary}>
+                    {day.entries.length}개 완료 · +{day.coins}코인 · +{day.xp}XP
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  disabled={dayIndex === 0}
+                  onPress={() => setDayIndex((prev) => Math.max(prev - 1, 0))}
+                >
+                  <Text style={[styles.navText, dayIndex === 0 && styles.navTextMuted]}>다음 ›</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+                {day.entries.map((entry) => (
+                  <View key={entry.id} style={styles.entryRow}>
+                    <Text style={styles.entryTime}>{formatTime(entry.completedAt)}</Text>
+                    <View style={styles.entryMain}>
+                      <Text style={styles.entryTitle} numberOfLines={1}>
+                        [{QUADRANT_TAG[entry.quadrant]}] {entry.title}
+                      </Text>
+                      <Text style={styles.entryMeta}>
+                        +{entry.coins}코인 · +{entry.xp}XP
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(28, 34, 26, 0.45)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    backgroundColor: '#ffffff',
+    padding: 18,
+    paddingBottom: 32,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  close: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#5f6a5d',
+    fontSize: 13,
+  },
+  label: {
+    marginTop: 12,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#5f6a5d',
+    fontSize: 12,
+  },
+  chipRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flex: 1,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    paddingVertical: 7,
+    alignItems: 'center',
+    backgroundColor: '#f7f8f2',
+  },
+  chipSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#325736',
+  },
+  empty: {
+    marginTop: 18,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9aa096',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  dayNav: {
+    marginTop: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  navText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#4f7d4f',
+    fontSize: 13,
+  },
+  navTextMuted: {
+    color: '#ccd1c6',
+  },
+  dayHeader: {
+    alignItems: 'center',
+  },
+  dayTitle: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 15,
+  },
+  daySummary: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#7b846f',
+    fontSize: 12,
+  },
+  list: {
+    marginTop: 12,
+  },
+  listContent: {
+    gap: 8,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    backgroundColor: '#f7f8f2',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  entryTime: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  entryMain: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#2f3930',
+    fontSize: 13,
+  },
+  entryMeta: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#7b846f',
+    fontSize: 11,
+  },
+});
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { DigestSettings } from '../../store/petLoopStore';
+import { isValidTimeKey } from '../../lib/dateKeys';
+
+interface DailyDigestSettingsProps {
+  settings: DigestSettings;
+  preview: string;
+  onChange: (patch: Partial<DigestSettings>) => void;
+}
+
+interface SlotRowProps {
+  label: string;
+  time: string | null;
+  placeholder: string;
+  onCommit: (time: string | null) => void;
+}
+
+function SlotRow({ label, time, placeholder, onCommit }: SlotRowProps) {
+  const [draft, setDraft] = useState(time ?? '');
+
+  useEffect(() => {
+    setDraft(time ?? '');
+  }, [time]);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      onCommit(null);
+      return;
+    }
+    if (isValidTimeKey(trimmed)) {
+      onCommit(trimmed);
+      return;
+    }
+    setDraft(time ?? '');
+  };
+
+  return (
+    <View style={styles.slotRow}>
+      <Text style={styles.slotLabel}>{label}</Text>
+      <TextInput
+        style={styles.slotInput}
+        value={draft}
+        onChangeText={setDraft}
+        onBlur={commit}
+        onSubmitEditing={commit}
+        placeholder={placeholder}
+        placeholderTextColor="#8fa3a6"
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+      />
+      <Text style={styles.slotState}>{time ? '매일 발송' : '꺼짐'}</Text>
+      {time && (
+        <TouchableOpacity style={styles.slotOff} onPress={() => onCommit(null)}>
+          <Text style={styles.slotOffText}>끄기</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+export default function DailyDigestSettings({ settings, preview, onChange }: DailyDigestSettingsProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>자동 요약 알림</Text>
+      <SlotRow
+        label="아침"
+        time={settings.morningTime}
+        placeholder="08:00"
+        onCommit={(morningTime) => onChange({ morningTime })}
+      />
+      <SlotRow
+        label="저녁"
+        time={settings.eveningTime}
+        placeholder="21:00"
+        onCommit={(eveningTime) => onChange({ eveningTime })}
+      />
+
+      <View style={styles.limitRow}>
+        <Text style={styles.slotLabel}>미리보기 개수</Text>
+        <TouchableOpacity
+          style={styles.stepper}
+          onPress={() => onChange({ previewLimit: settings.previewLimit - 1 })}
+        >
+          <Text style={styles.stepperText}>-</Text>
+        </TouchableOpacity>
+        <Text style={styles.limitValue}>{settings.previewLimit}</Text>
+        <TouchableOpacity
+          style={styles.stepper}
+          onPress={() => onChange({ previewLimit: settings.previewLimit + 1 })}
+        >
+          <Text style={styles.stepperText}>+</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.preview}>
+        <Text style={styles.previewText}>{preview}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#d6e6ea',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2e5561',
+    fontSize: 14,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  slotLabel: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#4f6366',
+    fontSize: 12,
+    minWidth: 32,
+  },
+  slotInput: {
+    width: 72,
+    borderWidth: 1,
+    borderColor: '#cfe0e4',
+    borderRadius: 10,
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    textAlign: 'center',
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  slotState: {
+    flex: 1,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6c8387',
+    fontSize: 12,
+  },
+  slotOff: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    backgroundColor: '#dcebee',
+  },
+  slotOffText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#2e5561',
+    fontSize: 12,
+  },
+  limitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepper: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#dcebee',
+  },
+  stepperText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2e5561',
+    fontSize: 14,
+  },
+  limitValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2e5561',
+    fontSize: 13,
+  },
+  preview: {
+    borderRadius: 12,
+    padding: 10,
+    backgroundColor: '#ffffff',
+  },
+  previewText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3f5457',
+    fontSize: 12,
+    lineHeight: 18,
+  },
+});
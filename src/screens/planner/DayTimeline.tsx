@@ -0,0 +1,174 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { TodoItem } from '../../store/petLoopStore';
+import {
+  assignTimelineLanes,
+  findTimeConflicts,
+  formatTimeRange,
+  getTimeBlock,
+} from '../../lib/timeKeys';
+
+interface DayTimelineProps {
+  // Timed todos of a single day.
+  todos: TodoItem[];
+  onPressTodo: (id: string) => void;
+}
+
+const HOUR_HEIGHT = 44;
+const LABEL_WIDTH = 44;
+const MIN_BLOCK_HEIGHT = 22;
+
+export default function DayTimeline({ todos, onPressTodo }: DayTimelineProps) {
+  const layout = useMemo(() => {
+    const blocks = todos
+      .map((todo) => ({ todo, block: getTimeBlock(todo) }))
+      .filter((entry): entry is { todo: TodoItem; block: NonNullable<typeof entry.block> } =>
+        Boolean(entry.block)
+      );
+    if (blocks.length === 0) {
+      return null;
+    }
+    const firstHour = Math.floor(Math.min(...blocks.map((entry) => entry.block.start)) / 60);
+    const lastHour = Math.ceil(Math.max(...blocks.map((entry) => entry.block.end)) / 60);
+    return {
+      blocks,
+      firstHour,
+      hours: Array.from({ length: Math.max(lastHour - firstHour, 1) }, (_, index) => firstHour + index),
+      // Finished todos no longer compete for the time slot.
+      conflicts: findTimeConflicts(todos.filter((todo) => !todo.done)),
+      lanes: assignTimelineLanes(todos),
+    };
+  }, [todos]);
+
+  if (!layout) {
+    return (
+      <Text style={styles.emptyText}>시작 시각을 넣은 오늘 할 일이 여기에 시간순으로 보여요.</Text>
+    );
+  }
+
+  return (
+    <View>
+      {layout.conflicts.size > 0 && (
+        <Text style={styles.conflictSummary}>⚠️ 시간이 겹치는 할 일 {layout.conflicts.size}개</Text>
+      )}
+      <View style={[styles.grid, { height: layout.hours.length * HOUR_HEIGHT }]}>
+        {layout.hours.map((hour, index) => (
+          <View key={hour} style={[styles.hourRow, { top: index * HOUR_HEIGHT }]}>
+            <Text style={styles.hourLabel}>{String(hour).padStart(2, '0')}:00</Text>
+            <View style={styles.hourLine} />
+          </View>
+        ))}
+        <View style={styles.blockArea}>
+          {layout.blocks.map(({ todo, block }) => {
+            const lane = layout.lanes.get(todo.id) ?? { lane: 0, laneCount: 1 };
+            const conflicted = layout.conflicts.has(todo.id);
+            const top = ((block.start - layout.firstHour * 60) / 60) * HOUR_HEIGHT;
+            const height = Math.max(((block.end - block.start) / 60) * HOUR_HEIGHT, MIN_BLOCK_HEIGHT);
+            return (
+              <TouchableOpacity
+                key={todo.id}
+                style={[
+                  styles.block,
+                  {
+                    top,
+                    height,
+                    left: `${(lane.lane / lane.laneCount) * 100}%`,
+                    width: `${100 / lane.laneCount}%`,
+                  },
+                  conflicted && styles.blockConflict,
+                  todo.done && styles.blockDone,
+                ]}
+                onPress={() => onPressTodo(todo.id)}
+              >
+                <Text style={[styles.blockTitle, todo.done && styles.blockTitleDone]} numberOfLines={1}>
+                  {todo.title}
+                </Text>
+                {height > MIN_BLOCK_HEIGHT && (
+                  <Text style={styles.blockTime} numberOfLines={1}>
+                    {formatTimeRange(todo)}
+                    {conflicted ? ' · 겹침' : ''}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    marginTop: 8,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#8a9488',
+    fontSize: 12,
+  },
+  conflictSummary: {
+    marginTop: 8,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#b0523d',
+    fontSize: 12,
+  },
+  grid: {
+    marginTop: 10,
+    position: 'relative',
+  },
+  hourRow: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  hourLabel: {
+    width: LABEL_WIDTH,
+    marginTop: -6,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#8a9488',
+    fontSize: 10,
+  },
+  hourLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#eceee5',
+  },
+  blockArea: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: LABEL_WIDTH,
+    right: 0,
+  },
+  block: {
+    position: 'absolute',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bdd8a5',
+    backgroundColor: '#eaf6dd',
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    overflow: 'hidden',
+  },
+  blockConflict: {
+    borderColor: '#e0a08f',
+    backgroundColor: '#fbe9e3',
+  },
+  blockDone: {
+    opacity: 0.5,
+  },
+  blockTitle: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 11,
+  },
+  blockTitleDone: {
+    textDecorationLine: 'line-through',
+  },
+  blockTime: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#5f6a5d',
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { DecorationId } from '../../store/petLoopStore';
+import type { DecorationCategory, DecorationRarity } from '../../lib/decorationCatalog';
+import {
+  DECORATION_CATALOG,
+  DECORATION_CATEGORIES,
+  RARITY_LABELS,
+  describeDecorationEffect,
+  isDecorationUnlocked,
+} from '../../lib/decorationCatalog';
+
+interface DecorationShopCardProps {
+  coins: number;
+  habitatTier: number;
+  ownedIds: DecorationId[];
+  onBuy: (id: DecorationId) => void;
+}
+
+const RARITY_COLORS: Record<DecorationRarity, { background: string; text: string }> = {
+  common: { background: '#eef1e8', text: '#5f6a5d' },
+  rare: { background: '#e3eefb', text: '#3d6a9e' },
+  epic: { background: '#f6e6fb', text: '#8a3fa3' },
+};
+
+export default function DecorationShopCard({
+  coins,
+  habitatTier,
+  ownedIds,
+  onBuy,
+}: DecorationShopCardProps) {
+  const [category, setCategory] = useState<DecorationCategory | 'all'>('all');
+  const items = DECORATION_CATALOG.filter(
+    (item) => category === 'all' || item.category === category
+  );
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>보상 상점</Text>
+        <Text style={styles.badge}>Habitat T{habitatTier}</Text>
+      </View>
+
+      <View style={styles.chipRow}>
+        {[{ id: 'all' as const, title: '전체' }, ...DECORATION_CATEGORIES].map((entry) => {
+          const selected = entry.id === category;
+          return (
+            <TouchableOpacity
+              key={entry.id}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => setCategory(entry.id)}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{entry.title}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {items.map((item) => {
+        const owned = ownedIds.includes(item.id);
+        const unlocked = isDecorationUnlocked(item, habitatTier);
+        const affordable = coins >= item.cost;
+        const rarity = RARITY_COLORS[item.rarity];
+        return (
+          <View key={item.id} style={[styles.item, !unlocked && styles.itemLocked]}>
+            <View style={styles.meta}>
+              <Text style={styles.emoji}>{unlocked ? item.emoji : '🔒'}</Text>
+              <View style={styles.metaText}>
+                <View style={styles.titleRow}>
+                  <Text style={styles.itemTitle}>{item.title}</Text>
+                  <Text
+                    style={[styles.rarity, { backgroundColor: rarity.background, color: rarity.text }]}
+                  >
+                    {RARITY_LABELS[item.rarity]}
+                  </Text>
+                </View>
+                <Text style={styles.itemDetail}>
+                  {item.cost} 코인 · {describeDecorationEffect(item.effect)}
+                </Text>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                (owned || !unlocked || !affordable) && styles.buttonDisabled,
+              ]}
+              disabled={owned || !unlocked || !affordable}
+              onPress={() => onBuy(item.id)}
+            >
+              <Text
+                style={[
+                  styles.buttonText,
+                  (owned || !unlocked || !affordable) && styles.buttonTextDisabled,
+                ]}
+              >
+                {owned ? '보유중' : unlocked ? '구매' : `T${item.minHabitatTier} 필요`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    padding: 14,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  badge: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 12,
+    color: '#567451',
+    backgroundColor: '#e5f5e1',
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  chipRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#f7f8f2',
+  },
+  chipSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#325736',
+  },
+  item: {
+    marginTop: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#eceee5',
+    padding: 10,
+    backgroundColor: '#fafcf7',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  itemLocked: {
+    opacity: 0.6,
+  },
+  meta: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 9,
+  },
+  metaText: {
+    flex: 1,
+  },
+  emoji: {
+    fontSize: 23,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  itemTitle: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#303730',
+    fontSize: 14,
+  },
+  rarity: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 10,
+    borderRadius: 999,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  itemDetail: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#70806d',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  button: {
+    borderRadius: 999,
+    backgroundColor: '#1f3f2f',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  buttonDisabled: {
+    backgroundColor: '#d4ddd3',
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#f3f7f2',
+    fontSize: 12,
+  },
+  buttonTextDisabled: {
+    color: '#5b6759',
+  },
+});
@@ -0,0 +1,220 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { FocusSession, FocusSettings } from '../../store/petLoopStore';
+import type { TodoFocusSummary } from '../../lib/focusTimer';
+import {
+  FOCUS_BREAK_OPTIONS,
+  FOCUS_WORK_OPTIONS,
+  formatCountdown,
+  getFocusBonusXp,
+  getRemainingMs,
+} from '../../lib/focusTimer';
+
+interface FocusTimerCardProps {
+  session: FocusSession | null;
+  todoTitle: string;
+  summary: TodoFocusSummary | null;
+  settings: FocusSettings;
+  now: number;
+  onChangeSettings: (patch: Partial<FocusSettings>) => void;
+  onStop: () => void;
+}
+
+export default function FocusTimerCard({
+  session,
+  todoTitle,
+  summary,
+  settings,
+  now,
+  onChangeSettings,
+  onStop,
+}: FocusTimerCardProps) {
+  const phaseMinutes = session
+    ? session.phase === 'work'
+      ? session.workMinutes
+      : session.breakMinutes
+    : settings.workMinutes;
+  const remainingMs = session ? getRemainingMs(session, now) : settings.workMinutes * 60 * 1000;
+  const progress = session ? 1 - remainingMs / (phaseMinutes * 60 * 1000) : 0;
+  const badgeLabel = session
+    ? session.phase === 'work'
+      ? '🍅 집중 중'
+      : '☕ 휴식 중'
+    : `+${getFocusBonusXp(settings.workMinutes)} XP`;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>집중 타이머</Text>
+        <Text style={styles.badge}>{badgeLabel}</Text>
+      </View>
+
+      {session ? (
+        <>
+          <Text style={styles.todoTitle} numberOfLines={1}>
+            {todoTitle}
+          </Text>
+          <Text style={styles.countdown}>{formatCountdown(remainingMs)}</Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                session.phase === 'break' && styles.progressFillBreak,
+                { width: `${Math.round(Math.min(Math.max(progress, 0), 1) * 100)}%` },
+              ]}
+            />
+          </View>
+          {summary && summary.sessions > 0 && (
+            <Text style={styles.caption}>
+              이 할 일에 {summary.sessions}번 · {summary.minutes}분 집중했어요.
+            </Text>
+          )}
+          <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+            <Text style={styles.stopText}>
+              {session.phase === 'work' ? '집중 그만하기' : '휴식 건너뛰기'}
+            </Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <Text style={styles.caption}>할 일의 '집중' 버튼으로 시작해요. 다 채우면 보너스 XP를 받아요.</Text>
+          <Text style={styles.label}>집중</Text>
+          <View style={styles.chipRow}>
+            {FOCUS_WORK_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, settings.workMinutes === minutes && styles.chipActive]}
+                onPress={() => onChangeSettings({ workMinutes: minutes })}
+              >
+                <Text style={[styles.chipText, settings.workMinutes === minutes && styles.chipTextActive]}>
+                  {minutes}분
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>휴식</Text>
+          <View style={styles.chipRow}>
+            {FOCUS_BREAK_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, settings.breakMinutes === minutes && styles.chipActive]}
+                onPress={() => onChangeSettings({ breakMinutes: minutes })}
+              >
+                <Text style={[styles.chipText, settings.breakMinutes === minutes && styles.chipTextActive]}>
+                  {minutes}분
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    padding: 14,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  badge: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 12,
+    color: '#567451',
+    backgroundColor: '#e5f5e1',
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  todoTitle: {
+    marginTop: 10,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f4a3f',
+    fontSize: 14,
+  },
+  countdown: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 40,
+    textAlign: 'center',
+  },
+  progressTrack: {
+    marginTop: 8,
+    height: 8,
+    borderRadius: 999,
+    backgroundColor: '#eef1e8',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: '#e07a5f',
+  },
+  progressFillBreak: {
+    backgroundColor: '#6d9d62',
+  },
+  caption: {
+    marginTop: 6,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  label: {
+    marginTop: 10,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f4a3f',
+    fontSize: 13,
+  },
+  chipRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#5b6559',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#325736',
+  },
+  stopButton: {
+    marginTop: 10,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: '#f6e3dc',
+  },
+  stopText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#b0523d',
+    fontSize: 13,
+  },
+});
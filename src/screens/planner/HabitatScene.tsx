@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import type { GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import { Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { DecorationId, PlacedDecoration } from '../../store/petLoopStore';
+import { describeDecorationEffect, getDecoration } from '../../lib/decorationCatalog';
+
+interface HabitatSceneProps {
+  habitatTier: number;
+  ownedIds: DecorationId[];
+  placed: PlacedDecoration[];
+  onPlace: (id: DecorationId, x: number, y: number) => void;
+  onStore: (id: DecorationId) => void;
+}
+
+const SCENE_HEIGHT = 180;
+const ITEM_SIZE = 36;
+
+// Sky and ground colors per habitat tier; higher tiers reuse the last entry.
+const TIER_SCENERY = [
+  { sky: '#eef6e4', ground: '#cfe3b8' },
+  { sky: '#e6f3f4', ground: '#bfe0c4' },
+  { sky: '#f3efe2', ground: '#d8cfa3' },
+  { sky: '#eae8f7', ground: '#c6d9b1' },
+  { sky: '#e3e6f5', ground: '#b3cfa5' },
+];
+
+export default function HabitatScene({
+  habitatTier,
+  ownedIds,
+  placed,
+  onPlace,
+  onStore,
+}: HabitatSceneProps) {
+  const [selectedId, setSelectedId] = useState<DecorationId | null>(null);
+  const [sceneWidth, setSceneWidth] = useState(0);
+  const scenery = TIER_SCENERY[Math.min(Math.max(habitatTier, 1), TIER_SCENERY.length) - 1];
+  const stored = ownedIds.filter((id) => !placed.some((entry) => entry.id === id));
+  const selectedItem = selectedId ? getDecoration(selectedId) : undefined;
+  const selectedIsPlaced = placed.some((entry) => entry.id === selectedId);
+
+  const onLayout = (event: LayoutChangeEvent) => setSceneWidth(event.nativeEvent.layout.width);
+
+  const onPressScene = (event: GestureResponderEvent) => {
+    if (!selectedId || sceneWidth === 0) {
+      return;
+    }
+    const { locationX, locationY } = event.nativeEvent;
+    onPlace(selectedId, locationX / sceneWidth, locationY / SCENE_HEIGHT);
+    setSelectedId(null);
+  };
+
+  const onToggleSelect = (id: DecorationId) =>
+    setSelectedId((prev) => (prev === id ? null : id));
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>우리 집 꾸미기</Text>
+      <Text style={styles.caption}>
+        {selectedItem
+          ? `${selectedItem.title}: 놓을 자리를 눌러 주세요.`
+          : '장식을 고른 뒤 원하는 자리를 눌러 배치해요.'}
+      </Text>
+
+      <Pressable
+        style={[styles.scene, { backgroundColor: scenery.sky }]}
+        onLayout={onLayout}
+        onPress={onPressScene}
+      >
+        <View style={[styles.ground, { backgroundColor: scenery.ground }]} pointerEvents="none" />
+        {placed.map((entry) => {
+          const item = getDecoration(entry.id);
+          if (!item) {
+            return null;
+          }
+          return (
+            <TouchableOpacity
+              key={entry.id}
+              style={[
+                styles.placedItem,
+                {
+                  left: entry.x * sceneWidth - ITEM_SIZE / 2,
+                  top: entry.y * SCENE_HEIGHT - ITEM_SIZE / 2,
+                },
+                entry.id === selectedId && styles.itemSelected,
+              ]}
+              onPress={() => onToggleSelect(entry.id)}
+            >
+              <Text style={styles.itemEmoji}>{item.emoji}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </Pressable>
+
+      {selectedItem && (
+        <View style={styles.selectionRow}>
+          <Text style={styles.selectionText}>{describeDecorationEffect(selectedItem.effect)}</Text>
+          {selectedIsPlaced && selectedId && (
+            <TouchableOpacity
+              style={styles.storeButton}
+              onPress={() => {
+                onStore(selectedId);
+                setSelectedId(null);
+              }}
+            >
+              <Text style={styles.storeButtonText}>보관하기</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <Text style={styles.label}>보관함 {stored.length}</Text>
+      {stored.length === 0 ? (
+        <Text style={styles.empty}>
+          {ownedIds.length === 0 ? '상점에서 장식을 구매해 보세요.' : '모든 장식이 배치되어 있어요.'}
+        </Text>
+      ) : (
+        <View style={styles.trayRow}>
+          {stored.map((id) => {
+            const item = getDecoration(id);
+            if (!item) {
+              return null;
+            }
+            return (
+              <TouchableOpacity
+                key={id}
+                style={[styles.trayItem, id === selectedId && styles.itemSelected]}
+                onPress={() => onToggleSelect(id)}
+              >
+                <Text style={styles.itemEmoji}>{item.emoji}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    padding: 14,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  caption: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  scene: {
+    marginTop: 10,
+    height: SCENE_HEIGHT,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  ground: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: SCENE_HEIGHT * 0.35,
+  },
+  placedItem: {
+    position: 'absolute',
+    width: ITEM_SIZE,
+    height: ITEM_SIZE,
+    borderRadius: ITEM_SIZE / 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemSelected: {
+    borderWidth: 2,
+    borderColor: '#6d9d62',
+    backgroundColor: 'rgba(232, 243, 223, 0.8)',
+  },
+  itemEmoji: {
+    fontSize: 24,
+  },
+  selectionRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  selectionText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#4f5f52',
+    fontSize: 12,
+  },
+  storeButton: {
+    borderRadius: 999,
+    backgroundColor: '#e8f3df',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  storeButtonText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#325736',
+    fontSize: 12,
+  },
+  label: {
+    marginTop: 12,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#5f6a5d',
+    fontSize: 12,
+  },
+  empty: {
+    marginTop: 6,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9aa096',
+    fontSize: 12,
+  },
+  trayRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  trayItem: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fafcf7',
+  },
+});
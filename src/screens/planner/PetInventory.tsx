@@ -0,0 +1,120 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { Inventory, ItemId } from '../../store/petLoopStore';
+import type { ItemKind } from '../../lib/petItems';
+import { MAX_ITEM_STACK, PET_ITEMS, describeItemEffect } from '../../lib/petItems';
+
+interface PetInventoryProps {
+  inventory: Inventory;
+  coins: number;
+  onUse: (id: ItemId) => void;
+  onBuy: (id: ItemId) => void;
+}
+
+const KIND_COLORS: Record<ItemKind, string> = {
+  food: '#ffd778',
+  toy: '#9ed3c9',
+  potion: '#f3c6e0',
+  care: '#c9d3f2',
+};
+
+export default function PetInventory({ inventory, coins, onUse, onBuy }: PetInventoryProps) {
+  return (
+    <View style={styles.grid}>
+      {PET_ITEMS.map((item) => {
+        const count = inventory[item.id] ?? 0;
+        const canBuy = coins >= item.cost && count < MAX_ITEM_STACK;
+        return (
+          <View key={item.id} style={styles.tile}>
+            <TouchableOpacity
+              style={[
+                styles.useButton,
+                { backgroundColor: KIND_COLORS[item.kind] },
+                count === 0 && styles.disabled,
+              ]}
+              disabled={count === 0}
+              onPress={() => onUse(item.id)}
+            >
+              <Text style={styles.emoji}>{item.emoji}</Text>
+              <Text style={styles.count}>×{count}</Text>
+            </TouchableOpacity>
+            <Text style={styles.title} numberOfLines={1}>
+              {item.title}
+            </Text>
+            <Text style={styles.effect} numberOfLines={2}>
+              {describeItemEffect(item)}
+            </Text>
+            <TouchableOpacity
+              style={[styles.buyButton, !canBuy && styles.disabled]}
+              disabled={!canBuy}
+              onPress={() => onBuy(item.id)}
+            >
+              <Text style={styles.buyText}>+1 · {item.cost}코인</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    marginTop: 14,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tile: {
+    width: '31%',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#eceee5',
+    backgroundColor: '#fafcf7',
+    padding: 8,
+    alignItems: 'center',
+  },
+  useButton: {
+    width: '100%',
+    borderRadius: 10,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  emoji: {
+    fontSize: 22,
+  },
+  count: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    fontSize: 12,
+    color: '#2f342d',
+  },
+  title: {
+    marginTop: 6,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    fontSize: 12,
+    color: '#303730',
+  },
+  effect: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 10,
+    color: '#70806d',
+    textAlign: 'center',
+    minHeight: 26,
+  },
+  buyButton: {
+    marginTop: 6,
+    borderRadius: 999,
+    backgroundColor: '#1f3f2f',
+    paddingHorizontal: 8,
+    paddingVertical: 5,
+  },
+  buyText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#f3f7f2',
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { CreatureType } from '../../store/petLoopStore';
+import { SPRITE_SIZE } from '../../constants/petSprites';
+import { buildSpriteSheet, type EvolutionStage, type PetAnimation } from '../../lib/petEvolution';
+
+interface PetSpriteProps {
+  creature: CreatureType;
+  stage: EvolutionStage;
+  animation: PetAnimation;
+  pixelSize?: number;
+}
+
+interface PixelRun {
+  key: string;
+  left: number;
+  top: number;
+  width: number;
+  color: string;
+}
+
+// Same-colored neighbours on a row are drawn as one View to keep the element count low.
+const toPixelRuns = (rows: string[], palette: Record<string, string>): PixelRun[] => {
+  const runs: PixelRun[] = [];
+  rows.forEach((row, top) => {
+    let start = 0;
+    while (start < row.length) {
+      const char = row[start];
+      let end = start + 1;
+      while (end < row.length && row[end] === char) end += 1;
+      const color = palette[char];
+      if (char !== '.' && color) {
+        runs.push({ key: `${top}-${start}`, left: start, top, width: end - start, color });
+      }
+      start = end;
+    }
+  });
+  return runs;
+};
+
+export default function PetSprite({ creature, stage, animation, pixelSize = 6 }: PetSpriteProps) {
+  const sheet = useMemo(() => buildSpriteSheet(creature, stage), [creature, stage]);
+  const frames = sheet.frames[animation];
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  useEffect(() => {
+    setFrameIndex(0);
+    const timer = setInterval(
+      () => setFrameIndex((prev) => (prev + 1) % frames.length),
+      1000 / sheet.fps
+    );
+    return () => clearInterval(timer);
+  }, [frames, sheet.fps]);
+
+  const frame = frames[frameIndex % frames.length];
+  const runs = useMemo(() => toPixelRuns(frame.rows, sheet.palette), [frame, sheet.palette]);
+  const size = SPRITE_SIZE * pixelSize;
+
+  return (
+    <View style={[styles.canvas, { width: size, height: size + pixelSize * 3 }]}>
+      <View style={{ width: size, height: size, transform: [{ translateY: frame.offsetY * pixelSize }] }}>
+        {runs.map((run) => (
+          <View
+            key={run.key}
+            style={{
+              position: 'absolute',
+              left: run.left * pixelSize,
+              top: run.top * pixelSize,
+              width: run.width * pixelSize,
+              height: pixelSize,
+              backgroundColor: run.color,
+            }}
+          />
+        ))}
+      </View>
+      {frame.effect && <Text style={styles.effect}>{frame.effect}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    justifyContent: 'flex-end',
+  },
+  effect: {
+    position: 'absolute',
+    top: 0,
+    right: -10,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#c0607a',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,460 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { TodoItem } from '../../store/petLoopStore';
+import {
+  getMonthCursor,
+  getMonthGrid,
+  getWeekDateKeys,
+  groupTodosByDate,
+  isTodoOnDate,
+  shiftMonth,
+} from '../../lib/calendarGrid';
+import { addDaysToKey, parseDateKey } from '../../lib/dateKeys';
+
+type CalendarView = 'month' | 'week';
+
+interface PlannerCalendarProps {
+  todos: TodoItem[];
+  completionLog: Record<string, number>;
+  todayKey: string;
+  onAddTodoOnDate: (dateKey: string, title: string) => void;
+  onCompleteTodo: (id: string) => void;
+}
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const formatDayHeading = (dateKey: string): string => {
+  const date = parseDateKey(dateKey);
+  return `${date.getMonth() + 1}월 ${date.getDate()}일 (${WEEKDAY_LABELS[date.getDay()]})`;
+};
+
+export default function PlannerCalendar({
+  todos,
+  completionLog,
+  todayKey,
+  onAddTodoOnDate,
+  onCompleteTodo,
+}: PlannerCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => getMonthCursor(todayKey));
+  const [selectedDate, setSelectedDate] = useState(todayKey);
+  const [draft, setDraft] = useState('');
+
+  const weeks = useMemo(() => getMonthGrid(cursor), [cursor]);
+  const weekDates = useMemo(() => getWeekDateKeys(selectedDate), [selectedDate]);
+
+  const visibleDates = useMemo(
+    () => (view === 'month' ? weeks.flat().map((day) => day.dateKey) : weekDates),
+    [view, weeks, weekDates]
+  );
+  const todosByDate = useMemo(() => groupTodosByDate(todos, visibleDates), [todos, visibleDates]);
+  const selectedTodos = useMemo(
+    () => todos.filter((todo) => isTodoOnDate(todo, selectedDate)),
+    [todos, selectedDate]
+  );
+
+  const onSelectDate = (dateKey: string) => {
+    setSelectedDate(dateKey);
+    setCursor(getMonthCursor(dateKey));
+  };
+
+  const onShift = (direction: -1 | 1) => {
+    if (view === 'month') {
+      setCursor((prev) => shiftMonth(prev, direction));
+      return;
+    }
+    onSelectDate(addDaysToKey(selectedDate, direction * 7));
+  };
+
+  const onSubmitDraft = () => {
+    const title = draft.trim();
+    if (!title) {
+      return;
+    }
+    onAddTodoOnDate(selectedDate, title);
+    setDraft('');
+  };
+
+  const headerLabel =
+    view === 'month'
+      ? `${cursor.year}년 ${cursor.month + 1}월`
+      : `${formatDayHeading(weekDates[0])} ~ ${formatDayHeading(weekDates[6])}`;
+
+  return (
+    <View>
+      <View style={styles.toolbar}>
+        <View style={styles.viewToggle}>
+          {(['month', 'week'] as CalendarView[]).map((option) => {
+            const selected = option === view;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.viewChip, selected && styles.viewChipSelected]}
+                onPress={() => setView(option)}
+              >
+                <Text style={[styles.viewChipText, selected && styles.viewChipTextSelected]}>
+                  {option === 'month' ? '월간' : '주간'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <TouchableOpacity style={styles.todayButton} onPress={() => onSelectDate(todayKey)}>
+          <Text style={styles.todayButtonText}>오늘</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.navRow}>
+        <TouchableOpacity style={styles.navButton} onPress={() => onShift(-1)}>
+          <Text style={styles.navButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.navLabel} numberOfLines={1}>
+          {headerLabel}
+        </Text>
+        <TouchableOpacity style={styles.navButton} onPress={() => onShift(1)}>
+          <Text style={styles.navButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {view === 'month' ? (
+        <View>
+          <View style={styles.weekRow}>
+            {WEEKDAY_LABELS.map((label) => (
+              <Text key={label} style={styles.weekdayLabel}>
+                {label}
+              </Text>
+            ))}
+          </View>
+          {weeks.map((week) => (
+            <View key={week[0].dateKey} style={styles.weekRow}>
+              {week.map((day) => {
+                const scheduled = todosByDate[day.dateKey] ?? [];
+                const doneCount = completionLog[day.dateKey] ?? 0;
+                const isSelected = day.dateKey === selectedDate;
+                const isToday = day.dateKey === todayKey;
+                return (
+                  <TouchableOpacity
+                    key={day.dateKey}
+                    style={[
+                      styles.monthCell,
+                      isToday && styles.monthCellToday,
+                      isSelected && styles.monthCellSelected,
+                    ]}
+                    onPress={() => onSelectDate(day.dateKey)}
+                  >
+                    <Text style={[styles.monthCellDate, !day.inMonth && styles.monthCellDateMuted]}>
+                      {parseDateKey(day.dateKey).getDate()}
+                    </Text>
+                    <View style={styles.monthCellMarks}>
+                      {scheduled.length > 0 && (
+                        <Text style={styles.monthCellScheduled}>{scheduled.length}</Text>
+                      )}
+                      {doneCount > 0 && <Text style={styles.monthCellDone}>✓{doneCount}</Text>}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      ) : (
+        <View style={styles.agendaList}>
+          {weekDates.map((dateKey) => {
+            const scheduled = todosByDate[dateKey] ?? [];
+            const doneCount = completionLog[dateKey] ?? 0;
+            const isSelected = dateKey === selectedDate;
+            return (
+              <TouchableOpacity
+                key={dateKey}
+                style={[styles.agendaDay, isSelected && styles.agendaDaySelected]}
+                onPress={() => onSelectDate(dateKey)}
+              >
+                <View style={styles.agendaHeader}>
+                  <Text style={[styles.agendaDate, dateKey === todayKey && styles.agendaDateToday]}>
+                    {formatDayHeading(dateKey)}
+                  </Text>
+                  <Text style={styles.agendaDone}>완료 {doneCount}</Text>
+                </View>
+                {scheduled.length === 0 ? (
+                  <Text style={styles.agendaEmpty}>일정 없음</Text>
+                ) : (
+                  scheduled.map((todo) => (
+                    <Text
+                      key={todo.id}
+                      style={[styles.agendaItem, todo.done && styles.agendaItemDone]}
+                      numberOfLines={1}
+                    >
+                      {todo.done ? '✓' : '•'} {todo.title}
+                    </Text>
+                  ))
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={styles.dayPanel}>
+        <Text style={styles.dayPanelTitle}>{formatDayHeading(selectedDate)}</Text>
+        {selectedTodos.length === 0 && <Text style={styles.agendaEmpty}>이 날짜에 잡힌 할 일이 없어요.</Text>}
+        {selectedTodos.map((todo) => (
+          <View key={todo.id} style={styles.dayPanelRow}>
+            <Text style={[styles.dayPanelItem, todo.done && styles.agendaItemDone]} numberOfLines={1}>
+              {todo.title}
+            </Text>
+            {!todo.done && (
+              <TouchableOpacity style={styles.dayPanelAction} onPress={() => onCompleteTodo(todo.id)}>
+                <Text style={styles.dayPanelActionText}>완료</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <View style={styles.dayPanelComposer}>
+          <TextInput
+            style={styles.dayPanelInput}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="이 날짜에 할 일 추가"
+            placeholderTextColor="#8f9890"
+            returnKeyType="done"
+            onSubmitEditing={onSubmitDraft}
+          />
+          <TouchableOpacity style={styles.dayPanelAddButton} onPress={onSubmitDraft}>
+            <Text style={styles.dayPanelAddText}>추가</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolbar: {
+    marginTop: 10,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  viewChip: {
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f7f8f2',
+  },
+  viewChipSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  viewChipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  viewChipTextSelected: {
+    color: '#325736',
+  },
+  todayButton: {
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f2f5ec',
+  },
+  todayButtonText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#4f6d4f',
+    fontSize: 12,
+  },
+  navRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  navButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f2f5ec',
+  },
+  navButtonText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#4f6d4f',
+    fontSize: 18,
+  },
+  navLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 14,
+  },
+  weekRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#7b846f',
+    fontSize: 11,
+  },
+  monthCell: {
+    flex: 1,
+    minHeight: 48,
+    borderRadius: 10,
+    paddingVertical: 4,
+    alignItems: 'center',
+    backgroundColor: '#f7f8f2',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  monthCellToday: {
+    backgroundColor: '#eaf6dd',
+  },
+  monthCellSelected: {
+    borderColor: '#6d9d62',
+  },
+  monthCellDate: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 12,
+  },
+  monthCellDateMuted: {
+    color: '#b4b9ae',
+  },
+  monthCellMarks: {
+    marginTop: 2,
+    alignItems: 'center',
+  },
+  monthCellScheduled: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9a6b21',
+    fontSize: 10,
+  },
+  monthCellDone: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3f7a45',
+    fontSize: 10,
+  },
+  agendaList: {
+    marginTop: 8,
+    gap: 6,
+  },
+  agendaDay: {
+    borderRadius: 12,
+    padding: 10,
+    backgroundColor: '#f7f8f2',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  agendaDaySelected: {
+    borderColor: '#6d9d62',
+  },
+  agendaHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  agendaDate: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 13,
+  },
+  agendaDateToday: {
+    color: '#3f7a45',
+  },
+  agendaDone: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3f7a45',
+    fontSize: 12,
+  },
+  agendaEmpty: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9aa096',
+    fontSize: 12,
+  },
+  agendaItem: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3d463d',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  agendaItemDone: {
+    color: '#9aa096',
+    textDecorationLine: 'line-through',
+  },
+  dayPanel: {
+    marginTop: 12,
+    borderRadius: 14,
+    padding: 12,
+    backgroundColor: '#fbfcf8',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    gap: 6,
+  },
+  dayPanelTitle: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 14,
+  },
+  dayPanelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dayPanelItem: {
+    flex: 1,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3d463d',
+    fontSize: 13,
+  },
+  dayPanelAction: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    backgroundColor: '#dff0d7',
+  },
+  dayPanelActionText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#325736',
+    fontSize: 12,
+  },
+  dayPanelComposer: {
+    marginTop: 4,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dayPanelInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  dayPanelAddButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    backgroundColor: '#6d9d62',
+  },
+  dayPanelAddText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffffff',
+    fontSize: 13,
+  },
+});
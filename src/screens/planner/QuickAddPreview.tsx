@@ -0,0 +1,70 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { QuickAddChip } from '../../lib/quickAdd';
+
+interface QuickAddPreviewProps {
+  title: string;
+  chips: QuickAddChip[];
+}
+
+export default function QuickAddPreview({ title, chips }: QuickAddPreviewProps) {
+  if (chips.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title} numberOfLines={1}>
+        {title ? `“${title}”` : '제목을 입력해 주세요'}
+      </Text>
+      <View style={styles.chipRow}>
+        {chips.map((chip) => (
+          <Text
+            key={`${chip.kind}-${chip.label}`}
+            style={[styles.chip, chip.kind === 'newTag' && styles.chipNew]}
+          >
+            {chip.label}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    borderRadius: 12,
+    backgroundColor: '#f6f9f1',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f4a3f',
+    fontSize: 13,
+  },
+  chipRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 12,
+    color: '#325736',
+    backgroundColor: '#e8f3df',
+    borderWidth: 1,
+    borderColor: '#6d9d62',
+    borderRadius: 999,
+    overflow: 'hidden',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  chipNew: {
+    color: '#8a6d2f',
+    backgroundColor: '#fbf3de',
+    borderColor: '#e6b450',
+  },
+});
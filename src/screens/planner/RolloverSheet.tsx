@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { TodoItem } from '../../store/petLoopStore';
+import { isValidDateKey } from '../../lib/dateKeys';
+import { getTodoDeadlineKey } from '../../lib/todoArchive';
+
+interface RolloverSheetProps {
+  todos: TodoItem[];
+  todayKey: string;
+  onRollOver: (ids: string[], dateKey: string) => void;
+  onDismiss: () => void;
+}
+
+export default function RolloverSheet({ todos, todayKey, onRollOver, onDismiss }: RolloverSheetProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [targetDate, setTargetDate] = useState(todayKey);
+  const visible = todos.length > 0;
+
+  useEffect(() => {
+    setSelectedIds(todos.map((todo) => todo.id));
+  }, [todos]);
+
+  useEffect(() => {
+    setTargetDate(todayKey);
+  }, [todayKey]);
+
+  const hasSelection = selectedIds.length > 0;
+  const dateValid = isValidDateKey(targetDate);
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id]));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onDismiss}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>어제 못 끝낸 할 일</Text>
+          <Text style={styles.caption}>옮길 항목을 고르고 날짜를 정해 주세요.</Text>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {todos.map((todo) => {
+              const selected = selectedIds.includes(todo.id);
+              return (
+                <TouchableOpacity
+                  key={todo.id}
+                  style={[styles.itemRow, selected && styles.itemRowSelected]}
+                  onPress={() => toggle(todo.id)}
+                >
+                  <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                    {selected && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <View style={styles.itemMain}>
+                    <Text style={styles.itemTitle} numberOfLines={1}>
+                      {todo.title}
+                    </Text>
+                    <Text style={styles.itemMeta}>기한 {getTodoDeadlineKey(todo)}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, !hasSelection && styles.buttonDisabled]}
+            disabled={!hasSelection}
+            onPress={() => onRollOver(selectedIds, todayKey)}
+          >
+            <Text style={styles.primaryText}>오늘로 옮기기</Text>
+          </TouchableOpacity>
+
+          <View style={styles.dateRow}>
+            <TextInput
+              style={styles.dateInput}
+              value={targetDate}
+              onChangeText={setTargetDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9da29b"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.secondaryButton, (!hasSelection || !dateValid) && styles.buttonDisabled]}
+              disabled={!hasSelection || !dateValid}
+              onPress={() => onRollOver(selectedIds, targetDate)}
+            >
+              <Text style={styles.secondaryText}>이 날짜로</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+            <Text style={styles.dismissText}>그대로 두기</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(28, 34, 26, 0.45)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderRadius: 24,
+    backgroundColor: '#ffffff',
+    padding: 18,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  caption: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  list: {
+    marginTop: 12,
+  },
+  listContent: {
+    gap: 6,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  itemRowSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#f3f9ef',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#b9c2b0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+  },
+  checkboxSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e2f1da',
+  },
+  checkmark: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f7a45',
+    fontSize: 12,
+  },
+  itemMain: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#2f3930',
+    fontSize: 13,
+  },
+  itemMeta: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#b0523d',
+    fontSize: 11,
+  },
+  primaryButton: {
+    marginTop: 14,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#4f7d4f',
+  },
+  primaryText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  dateRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  secondaryButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    backgroundColor: '#e8f3df',
+  },
+  secondaryText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#325736',
+    fontSize: 13,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  dismissButton: {
+    marginTop: 10,
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  dismissText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 13,
+  },
+});
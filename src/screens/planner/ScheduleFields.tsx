@@ -0,0 +1,188 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { DueDateMode } from '../../store/petLoopStore';
+
+interface ScheduleFieldsProps {
+  startDate: string;
+  onStartDateChange: (value: string) => void;
+  dueDateMode: DueDateMode;
+  onDueDateModeChange: (mode: DueDateMode) => void;
+  dueDate: string;
+  onDueDateChange: (value: string) => void;
+  startTime: string;
+  onStartTimeChange: (value: string) => void;
+  endTime: string;
+  onEndTimeChange: (value: string) => void;
+}
+
+const DUE_MODE_META: Array<{ id: DueDateMode; title: string }> = [
+  { id: 'date', title: '날짜 지정' },
+  { id: 'ongoing', title: '계속' },
+  { id: 'unscheduled', title: '미정' },
+];
+
+export default function ScheduleFields({
+  startDate,
+  onStartDateChange,
+  dueDateMode,
+  onDueDateModeChange,
+  dueDate,
+  onDueDateChange,
+  startTime,
+  onStartTimeChange,
+  endTime,
+  onEndTimeChange,
+}: ScheduleFieldsProps) {
+  return (
+    <View>
+      <View style={styles.scheduleRow}>
+        <View style={styles.scheduleField}>
+          <Text style={styles.scheduleLabel}>시작일</Text>
+          <TextInput
+            style={styles.scheduleInput}
+            value={startDate}
+            onChangeText={onStartDateChange}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor="#9da29b"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        <View style={styles.scheduleField}>
+          <Text style={styles.scheduleLabel}>마감일</Text>
+          {dueDateMode === 'date' ? (
+            <TextInput
+              style={styles.scheduleInput}
+              value={dueDate}
+              onChangeText={onDueDateChange}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9da29b"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          ) : (
+            <View style={styles.scheduleGhost}>
+              <Text style={styles.scheduleGhostText}>
+                {dueDateMode === 'ongoing' ? '계속 진행' : '미정'}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.scheduleRow}>
+        <View style={styles.scheduleField}>
+          <Text style={styles.scheduleLabel}>시작 시각 (선택)</Text>
+          <TextInput
+            style={styles.scheduleInput}
+            value={startTime}
+            onChangeText={onStartTimeChange}
+            placeholder="HH:MM"
+            placeholderTextColor="#9da29b"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <View style={styles.scheduleField}>
+          <Text style={styles.scheduleLabel}>종료 시각 (선택)</Text>
+          <TextInput
+            style={styles.scheduleInput}
+            value={endTime}
+            onChangeText={onEndTimeChange}
+            placeholder="HH:MM"
+            placeholderTextColor="#9da29b"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
+      <View style={styles.modeRow}>
+        {DUE_MODE_META.map((mode) => {
+          const selected = mode.id === dueDateMode;
+          return (
+            <TouchableOpacity
+              key={mode.id}
+              onPress={() => onDueDateModeChange(mode.id)}
+              style={[styles.modeChip, selected && styles.modeChipSelected]}
+            >
+              <Text style={[styles.modeChipText, selected && styles.modeChipTextSelected]}>
+                {mode.title}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scheduleRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  scheduleField: {
+    flex: 1,
+    gap: 6,
+  },
+  scheduleLabel: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#5f6a5d',
+    fontSize: 12,
+  },
+  scheduleInput: {
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  scheduleGhost: {
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#f4f6ef',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    justifyContent: 'center',
+  },
+  scheduleGhostText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#738072',
+    fontSize: 13,
+  },
+  modeRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeChip: {
+    flex: 1,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 999,
+    paddingVertical: 8,
+    backgroundColor: '#f7f8f2',
+  },
+  modeChipSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  modeChipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  modeChipTextSelected: {
+    color: '#325736',
+  },
+});
@@ -0,0 +1,329 @@
+import React, { useMemo, useRef } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { CompletionJournalEntry, Quadrant } from '../../store/petLoopStore';
+import {
+  averageByWeekday,
+  buildCompletionHeatmap,
+  getOnTimeSummary,
+  getQuadrantShare,
+  getYearRangeStart,
+} from '../../lib/productivityStats';
+import { dayDifference } from '../../lib/dateKeys';
+
+interface StatsDashboardSheetProps {
+  visible: boolean;
+  completionLog: Record<string, number>;
+  journal: CompletionJournalEntry[];
+  streak: number;
+  bestStreak: number;
+  todayKey: string;
+  onClose: () => void;
+}
+
+const HEAT_COLORS = ['#eef1e8', '#cfe6c4', '#a6d096', '#79b36a', '#4f8a45'];
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const QUADRANT_INFO: Record<Quadrant, { label: string; color: string }> = {
+  do: { label: 'Q1 지금 하기', color: '#e98a6b' },
+  schedule: { label: 'Q2 계획하기', color: '#7fb06f' },
+  delegate: { label: 'Q3 위임하기', color: '#e6b450' },
+  eliminate: { label: 'Q4 줄이기', color: '#9aa096' },
+};
+
+export default function StatsDashboardSheet({
+  visible,
+  completionLog,
+  journal,
+  streak,
+  bestStreak,
+  todayKey,
+  onClose,
+}: StatsDashboardSheetProps) {
+  const heatmapRef = useRef<ScrollView>(null);
+  const heatmap = useMemo(
+    () => buildCompletionHeatmap(completionLog, todayKey),
+    [completionLog, todayKey]
+  );
+  const weekdayAverages = useMemo(
+    () => averageByWeekday(completionLog, todayKey),
+    [completionLog, todayKey]
+  );
+  const yearEntries = useMemo(() => {
+    const rangeStart = getYearRangeStart(todayKey);
+    return journal.filter((entry) => dayDifference(rangeStart, entry.dateKey) >= 0);
+  }, [journal, todayKey]);
+  const quadrantShare = useMemo(() => getQuadrantShare(yearEntries), [yearEntries]);
+  const onTime = useMemo(() => getOnTimeSummary(yearEntries), [yearEntries]);
+
+  const yearTotal = heatmap.reduce(
+    (sum, week) => sum + week.reduce((weekSum, cell) => weekSum + cell.count, 0),
+    0
+  );
+  const maxAverage = Math.max(...weekdayAverages, 0.1);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>성장 통계</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>닫기</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <View style={styles.streakRow}>
+              <View style={styles.streakBox}>
+                <Text style={styles.streakValue}>{streak}일</Text>
+                <Text style={styles.streakLabel}>현재 연속</Text>
+              </View>
+              <View style={styles.streakBox}>
+                <Text style={styles.streakValue}>{bestStreak}일</Text>
+                <Text style={styles.streakLabel}>최고 연속</Text>
+              </View>
+              <View style={styles.streakBox}>
+                <Text style={styles.streakValue}>{yearTotal}</Text>
+                <Text style={styles.streakLabel}>12개월 완료</Text>
+              </View>
+            </View>
+
+            <Text style={styles.sectionTitle}>최근 12개월</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              ref={heatmapRef}
+              onContentSizeChange={() => heatmapRef.current?.scrollToEnd({ animated: false })}
+            >
+              <View style={styles.heatmap}>
+                {heatmap.map((week) => (
+                  <View key={week[0].dateKey} style={styles.heatColumn}>
+                    {week.map((cell) => (
+                      <View
+                        key={cell.dateKey}
+                        style={[
+                          styles.heatCell,
+                          { backgroundColor: HEAT_COLORS[cell.level] },
+                          !cell.inRange && styles.heatCellHidden,
+                        ]}
+                      />
+                    ))}
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+
+            <Text style={styles.sectionTitle}>요일별 평균 완료</Text>
+            <View style={styles.weekdayRow}>
+              {weekdayAverages.map((average, weekday) => (
+                <View key={WEEKDAY_LABELS[weekday]} style={styles.weekdayColumn}>
+                  <View style={styles.weekdayTrack}>
+                    <View
+                      style={[
+                        styles.weekdayFill,
+                        { height: `${Math.round((average / maxAverage) * 100)}%` },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.weekdayValue}>{average.toFixed(1)}</Text>
+                  <Text style={styles.weekdayLabel}>{WEEKDAY_LABELS[weekday]}</Text>
+                </View>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>사분면별 비중</Text>
+            <View style={styles.shareBar}>
+              {quadrantShare
+                .filter((share) => share.count > 0)
+                .map((share) => (
+                  <View
+                    key={share.quadrant}
+                    style={{ flex: share.count, backgroundColor: QUADRANT_INFO[share.quadrant].color }}
+                  />
+                ))}
+            </View>
+            {quadrantShare.map((share) => (
+              <View key={share.quadrant} style={styles.shareRow}>
+                <View style={[styles.dot, { backgroundColor: QUADRANT_INFO[share.quadrant].color }]} />
+                <Text style={styles.shareLabel}>{QUADRANT_INFO[share.quadrant].label}</Text>
+                <Text style={styles.shareValue}>
+                  {share.count}개 · {Math.round(share.ratio * 100)}%
+                </Text>
+              </View>
+            ))}
+
+            <Text style={styles.sectionTitle}>마감 준수율</Text>
+            {onTime.rate === null ? (
+              <Text style={styles.empty}>마감일이 있는 완료 기록이 아직 없어요.</Text>
+            ) : (
+              <>
+                <View style={styles.shareBar}>
+                  {onTime.onTime > 0 && (
+                    <View style={{ flex: onTime.onTime, backgroundColor: '#7fb06f' }} />
+                  )}
+                  {onTime.overdue > 0 && (
+                    <View style={{ flex: onTime.overdue, backgroundColor: '#e98a6b' }} />
+                  )}
+                </View>
+                <Text style={styles.onTimeText}>
+                  제때 {onTime.onTime}개 · 늦게 {onTime.overdue}개 · 준수율{' '}
+                  {Math.round(onTime.rate * 100)}%
+                </Text>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(28, 34, 26, 0.45)',
+  },
+  sheet: {
+    maxHeight: '88%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    backgroundColor: '#ffffff',
+    padding: 18,
+    paddingBottom: 32,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  close: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#5f6a5d',
+    fontSize: 13,
+  },
+  content: {
+    paddingBottom: 12,
+  },
+  streakRow: {
+    marginTop: 12,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  streakBox: {
+    flex: 1,
+    borderRadius: 14,
+    backgroundColor: '#f3f7ee',
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  streakValue: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#325736',
+    fontSize: 18,
+  },
+  streakLabel: {
+    marginTop: 2,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 11,
+  },
+  sectionTitle: {
+    marginTop: 18,
+    marginBottom: 8,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 14,
+  },
+  heatmap: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  heatColumn: {
+    gap: 2,
+  },
+  heatCell: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  heatCellHidden: {
+    opacity: 0,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  weekdayColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekdayTrack: {
+    width: '100%',
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#eef1e8',
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  weekdayFill: {
+    width: '100%',
+    backgroundColor: '#7fb06f',
+  },
+  weekdayValue: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3d463d',
+    fontSize: 11,
+  },
+  weekdayLabel: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#7b846f',
+    fontSize: 11,
+  },
+  shareBar: {
+    height: 12,
+    borderRadius: 999,
+    overflow: 'hidden',
+    flexDirection: 'row',
+    backgroundColor: '#eef1e8',
+  },
+  shareRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  shareLabel: {
+    flex: 1,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3d463d',
+    fontSize: 12,
+  },
+  shareValue: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#56624f',
+    fontSize: 12,
+  },
+  onTimeText: {
+    marginTop: 6,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#56624f',
+    fontSize: 12,
+  },
+  empty: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9aa096',
+    fontSize: 12,
+  },
+});
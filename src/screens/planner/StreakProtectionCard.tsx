@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { VacationRange } from '../../store/petLoopStore';
+import {
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_COST,
+  STREAK_FREEZE_MILESTONE,
+  isOnVacation,
+} from '../../lib/streakProtection';
+import { addDaysToKey } from '../../lib/dateKeys';
+
+interface StreakProtectionCardProps {
+  freezes: number;
+  coins: number;
+  vacation: VacationRange | null;
+  todayKey: string;
+  onBuyFreeze: () => boolean;
+  onSetVacation: (range: VacationRange | null) => boolean;
+}
+
+export default function StreakProtectionCard({
+  freezes,
+  coins,
+  vacation,
+  todayKey,
+  onBuyFreeze,
+  onSetVacation,
+}: StreakProtectionCardProps) {
+  const [startInput, setStartInput] = useState(vacation?.start ?? todayKey);
+  const [endInput, setEndInput] = useState(vacation?.end ?? addDaysToKey(todayKey, 2));
+  const canBuy = coins >= STREAK_FREEZE_COST && freezes < MAX_STREAK_FREEZES;
+  const onVacationNow = isOnVacation(todayKey, vacation);
+
+  useEffect(() => {
+    if (vacation) {
+      setStartInput(vacation.start);
+      setEndInput(vacation.end);
+    }
+  }, [vacation]);
+
+  const onSaveVacation = () => {
+    if (!onSetVacation({ start: startInput.trim(), end: endInput.trim() })) {
+      Alert.alert('날짜를 확인해 주세요', '시작일과 종료일을 YYYY-MM-DD로, 시작일이 먼저 오게 입력해 주세요.');
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>스트릭 보호</Text>
+        <Text style={styles.badge}>
+          ❄️ {freezes}/{MAX_STREAK_FREEZES}
+        </Text>
+      </View>
+      <Text style={styles.caption}>
+        하루를 놓치면 보호권이 자동으로 쓰여요. {STREAK_FREEZE_MILESTONE}일 연속마다 1개를 받아요.
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, !canBuy && styles.buttonDisabled]}
+        disabled={!canBuy}
+        onPress={onBuyFreeze}
+      >
+        <Text style={styles.primaryText}>보호권 구매 ({STREAK_FREEZE_COST}코인)</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.label}>
+        휴가 모드 {vacation ? (onVacationNow ? '· 휴가 중' : '· 예약됨') : ''}
+      </Text>
+      <Text style={styles.caption}>휴가 기간에는 스트릭이 끊기지 않고 펫 상태도 줄지 않아요.</Text>
+      <View style={styles.dateRow}>
+        <TextInput
+          style={styles.dateInput}
+          value={startInput}
+          onChangeText={setStartInput}
+          placeholder="시작 YYYY-MM-DD"
+          placeholderTextColor="#9da29b"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.dateSeparator}>~</Text>
+        <TextInput
+          style={styles.dateInput}
+          value={endInput}
+          onChangeText={setEndInput}
+          placeholder="종료 YYYY-MM-DD"
+          placeholderTextColor="#9da29b"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={onSaveVacation}>
+          <Text style={styles.secondaryText}>{vacation ? '기간 변경' : '휴가 시작'}</Text>
+        </TouchableOpacity>
+        {vacation && (
+          <TouchableOpacity style={styles.clearButton} onPress={() => onSetVacation(null)}>
+            <Text style={styles.clearText}>휴가 끝내기</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    padding: 14,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  badge: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 12,
+    color: '#3d6a9e',
+    backgroundColor: '#e3eefb',
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  caption: {
+    marginTop: 4,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  label: {
+    marginTop: 14,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f4a3f',
+    fontSize: 14,
+  },
+  primaryButton: {
+    marginTop: 10,
+    borderRadius: 12,
+    paddingVertical: 11,
+    alignItems: 'center',
+    backgroundColor: '#4f7d4f',
+  },
+  primaryText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffffff',
+    fontSize: 13,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  dateRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  dateSeparator: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 13,
+  },
+  actionRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: '#e8f3df',
+  },
+  secondaryText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#325736',
+    fontSize: 13,
+  },
+  clearButton: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: '#f6e3dc',
+  },
+  clearText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#b0523d',
+    fontSize: 13,
+  },
+});
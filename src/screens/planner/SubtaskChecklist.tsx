@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { SubtaskItem } from '../../store/petLoopStore';
+
+interface SubtaskChecklistProps {
+  subtasks: SubtaskItem[];
+  locked: boolean;
+  onToggle: (subtaskId: string) => void;
+  onAdd: (title: string) => void;
+  onRemove: (subtaskId: string) => void;
+  onMove: (subtaskId: string, offset: -1 | 1) => void;
+}
+
+export default function SubtaskChecklist({
+  subtasks,
+  locked,
+  onToggle,
+  onAdd,
+  onRemove,
+  onMove,
+}: SubtaskChecklistProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const doneCount = subtasks.filter((entry) => entry.done).length;
+  const progress = subtasks.length === 0 ? 0 : doneCount / subtasks.length;
+
+  if (locked && subtasks.length === 0) {
+    return null;
+  }
+
+  const onSubmit = () => {
+    if (!draft.trim()) {
+      return;
+    }
+    onAdd(draft);
+    setDraft('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.summaryRow} onPress={() => setExpanded((prev) => !prev)}>
+        <Text style={styles.summaryText}>
+          {subtasks.length === 0 ? '체크리스트 추가' : `체크리스트 ${doneCount}/${subtasks.length}`}
+        </Text>
+        {subtasks.length > 0 && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+          </View>
+        )}
+        <Text style={styles.summaryToggle}>{expanded ? '접기' : '펼치기'}</Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.list}>
+          {subtasks.map((subtask, index) => (
+            <View key={subtask.id} style={styles.itemRow}>
+              <TouchableOpacity
+                style={[styles.checkbox, subtask.done && styles.checkboxDone]}
+                disabled={locked}
+                onPress={() => onToggle(subtask.id)}
+              >
+                {subtask.done && <Text style={styles.checkmark}>✓</Text>}
+              </TouchableOpacity>
+              <Text style={[styles.itemTitle, subtask.done && styles.itemTitleDone]} numberOfLines={1}>
+                {subtask.title}
+              </Text>
+              {!locked && (
+                <View style={styles.itemActions}>
+                  <TouchableOpacity
+                    disabled={index === 0}
+                    onPress={() => onMove(subtask.id, -1)}
+                    style={styles.itemAction}
+                  >
+                    <Text style={[styles.itemActionText, index === 0 && styles.itemActionMuted]}>↑</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    disabled={index === subtasks.length - 1}
+                    onPress={() => onMove(subtask.id, 1)}
+                    style={styles.itemAction}
+                  >
+                    <Text
+                      style={[
+                        styles.itemActionText,
+                        index === subtasks.length - 1 && styles.itemActionMuted,
+                      ]}
+                    >
+                      ↓
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => onRemove(subtask.id)} style={styles.itemAction}>
+                    <Text style={styles.itemActionText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ))}
+
+          {!locked && (
+            <View style={styles.composerRow}>
+              <TextInput
+                style={styles.composerInput}
+                value={draft}
+                onChangeText={setDraft}
+                placeholder="단계 추가"
+                placeholderTextColor="#8f9890"
+                returnKeyType="done"
+                onSubmitEditing={onSubmit}
+              />
+              <TouchableOpacity style={styles.composerButton} onPress={onSubmit}>
+                <Text style={styles.composerButtonText}>추가</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  summaryText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#56624f',
+    fontSize: 12,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: '#e6eadf',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: '#7fb06f',
+  },
+  summaryToggle: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#7b846f',
+    fontSize: 11,
+  },
+  list: {
+    marginTop: 6,
+    gap: 6,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#b9c2b0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+  },
+  checkboxDone: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e2f1da',
+  },
+  checkmark: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#3f7a45',
+    fontSize: 12,
+  },
+  itemTitle: {
+    flex: 1,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#3d463d',
+    fontSize: 13,
+  },
+  itemTitleDone: {
+    color: '#9aa096',
+    textDecorationLine: 'line-through',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  itemAction: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  itemActionText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#6d776c',
+    fontSize: 13,
+  },
+  itemActionMuted: {
+    color: '#ccd1c6',
+  },
+  composerRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  composerInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 12,
+  },
+  composerButton: {
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+    backgroundColor: '#e8f3df',
+  },
+  composerButtonText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#325736',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { TodoTag } from '../../store/petLoopStore';
+
+interface TagChipsProps {
+  tags: TodoTag[];
+  selectedIds: string[];
+  onToggle: (tagId: string) => void;
+}
+
+export default function TagChips({ tags, selectedIds, onToggle }: TagChipsProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.row}>
+      {tags.map((tag) => {
+        const selected = selectedIds.includes(tag.id);
+        return (
+          <TouchableOpacity
+            key={tag.id}
+            onPress={() => onToggle(tag.id)}
+            style={[styles.chip, selected && { borderColor: tag.color, backgroundColor: `${tag.color}22` }]}
+          >
+            <View style={[styles.dot, { backgroundColor: tag.color }]} />
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>#{tag.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    marginTop: 10,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 5,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#f7f8f2',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#2f3930',
+  },
+});
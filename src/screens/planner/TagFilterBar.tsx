@@ -0,0 +1,82 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { TodoTag } from '../../store/petLoopStore';
+import type { TagFilter } from '../../lib/todoTags';
+
+interface TagFilterBarProps {
+  tags: TodoTag[];
+  value: TagFilter;
+  onChange: (filter: TagFilter) => void;
+}
+
+export default function TagFilterBar({ tags, value, onChange }: TagFilterBarProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const options: Array<{ id: TagFilter; label: string; color?: string }> = [
+    { id: 'all', label: '전체' },
+    ...tags.map((tag) => ({ id: tag.id, label: `#${tag.name}`, color: tag.color })),
+    { id: 'untagged', label: '태그 없음' },
+  ];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      style={styles.scroller}
+    >
+      {options.map((option) => {
+        const selected = option.id === value;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            onPress={() => onChange(option.id)}
+            style={[styles.chip, selected && styles.chipSelected]}
+          >
+            {option.color && <View style={[styles.dot, { backgroundColor: option.color }]} />}
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroller: {
+    marginTop: 10,
+  },
+  row: {
+    gap: 6,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 5,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f7f8f2',
+  },
+  chipSelected: {
+    borderColor: '#6d9d62',
+    backgroundColor: '#e8f3df',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#325736',
+  },
+});
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { TagStats } from '../../lib/todoTags';
+import { TAG_COLORS } from '../../lib/todoTags';
+
+interface TagManagerCardProps {
+  stats: TagStats[];
+  onCreateTag: (name: string, color: string) => string | null;
+  onRemoveTag: (tagId: string) => void;
+}
+
+export default function TagManagerCard({ stats, onCreateTag, onRemoveTag }: TagManagerCardProps) {
+  const [draft, setDraft] = useState('');
+  const [color, setColor] = useState(TAG_COLORS[0]);
+
+  const onSubmit = () => {
+    if (!draft.trim()) {
+      return;
+    }
+    const created = onCreateTag(draft, color);
+    if (!created) {
+      Alert.alert('태그를 만들 수 없어요', '태그는 최대 12개까지 만들 수 있어요.');
+      return;
+    }
+    setDraft('');
+    setColor(TAG_COLORS[(TAG_COLORS.indexOf(color) + 1) % TAG_COLORS.length]);
+  };
+
+  const onConfirmRemove = (tagId: string, name: string) => {
+    Alert.alert('태그 삭제', `#${name} 태그를 삭제할까요? 할 일은 그대로 남아요.`, [
+      { text: '취소', style: 'cancel' },
+      { text: '삭제', style: 'destructive', onPress: () => onRemoveTag(tagId) },
+    ]);
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>프로젝트 · 태그</Text>
+
+      <View style={styles.composerRow}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="예: work, 운동"
+          placeholderTextColor="#8f9890"
+          returnKeyType="done"
+          onSubmitEditing={onSubmit}
+          maxLength={16}
+        />
+        <TouchableOpacity style={styles.addButton} onPress={onSubmit}>
+          <Text style={styles.addButtonText}>만들기</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.swatchRow}>
+        {TAG_COLORS.map((swatch) => (
+          <TouchableOpacity
+            key={swatch}
+            onPress={() => setColor(swatch)}
+            style={[styles.swatch, { backgroundColor: swatch }, swatch === color && styles.swatchSelected]}
+          />
+        ))}
+      </View>
+
+      {stats.length === 0 ? (
+        <Text style={styles.empty}>태그를 만들면 할 일을 프로젝트별로 모아 볼 수 있어요.</Text>
+      ) : (
+        <View style={styles.statList}>
+          {stats.map((entry) => (
+            <View key={entry.tag.id} style={styles.statRow}>
+              <View style={[styles.dot, { backgroundColor: entry.tag.color }]} />
+              <Text style={styles.statName} numberOfLines={1}>
+                #{entry.tag.name}
+              </Text>
+              <Text style={styles.statValue}>
+                완료 {entry.completed} · 7일 {entry.completedLast7Days} · 진행 {entry.open}
+              </Text>
+              <TouchableOpacity onPress={() => onConfirmRemove(entry.tag.id, entry.tag.name)}>
+                <Text style={styles.remove}>삭제</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e4e8db',
+    padding: 14,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  composerRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 10,
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 13,
+  },
+  addButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    backgroundColor: '#6d9d62',
+  },
+  addButtonText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffffff',
+    fontSize: 13,
+  },
+  swatchRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  swatch: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: '#2f3930',
+  },
+  empty: {
+    marginTop: 10,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#9aa096',
+    fontSize: 12,
+  },
+  statList: {
+    marginTop: 10,
+    gap: 8,
+  },
+  statRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  statName: {
+    flex: 1,
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 13,
+  },
+  statValue: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#6d776c',
+    fontSize: 12,
+  },
+  remove: {
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#b0523d',
+    fontSize: 12,
+  },
+});
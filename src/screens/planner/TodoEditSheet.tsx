@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { DueDateMode, TodoItem, TodoPatch, TodoTag } from '../../store/petLoopStore';
+import { isValidDateKey } from '../../lib/dateKeys';
+import { getTimeInputError } from '../../lib/timeKeys';
+import ScheduleFields from './ScheduleFields';
+import TagChips from './TagChips';
+
+export interface RewardTierOption {
+  id: string;
+  title: string;
+  coins: number;
+  xp: number;
+}
+
+interface TodoEditSheetProps {
+  todo: TodoItem | null;
+  tags: TodoTag[];
+  rewardTiers: RewardTierOption[];
+  onClose: () => void;
+  onSave: (id: string, patch: TodoPatch) => void;
+}
+
+export default function TodoEditSheet({
+  todo,
+  tags,
+  rewardTiers,
+  onClose,
+  onSave,
+}: TodoEditSheetProps) {
+  const [title, setTitle] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [dueDateMode, setDueDateMode] = useState<DueDateMode>('date');
+  const [dueDate, setDueDate] = useState('');
+  const [importance, setImportance] = useState(true);
+  const [urgency, setUrgency] = useState(true);
+  const [rewardTierId, setRewardTierId] = useState<string | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!todo) {
+      return;
+    }
+    setTitle(todo.title);
+    setStartDate(todo.startDate);
+    setStartTime(todo.startTime ?? '');
+    setEndTime(todo.endTime ?? '');
+    setDueDateMode(todo.dueDateMode);
+    setDueDate(todo.dueDate ?? todo.startDate);
+    setImportance(todo.importance);
+    setUrgency(todo.urgency);
+    setTagIds(todo.tagIds);
+    setRewardTierId(
+      rewardTiers.find((tier) => tier.coins === todo.rewardCoins && tier.xp === todo.rewardXp)?.id ??
+        null
+    );
+  }, [todo, rewardTiers]);
+
+  const dateError = !isValidDateKey(startDate)
+    ? '시작일은 YYYY-MM-DD 형식이어야 해요.'
+    : dueDateMode === 'date' && !isValidDateKey(dueDate)
+      ? '마감일은 YYYY-MM-DD 형식이어야 해요.'
+      : getTimeInputError(startTime, endTime);
+  const canSave = title.trim().length > 0 && !dateError;
+
+  const onConfirm = () => {
+    if (!todo || !canSave) {
+      return;
+    }
+
+    const rewardTier = rewardTiers.find((tier) => tier.id === rewardTierId);
+    onSave(todo.id, {
+      title,
+      startDate,
+      startTime: startTime.trim() || null,
+      endTime: endTime.trim() || null,
+      dueDateMode,
+      dueDate: dueDateMode === 'date' ? dueDate : null,
+      importance,
+      urgency,
+      tagIds,
+      ...(rewardTier ? { rewardCoins: rewardTier.coins, rewardXp: rewardTier.xp } : {}),
+    });
+    onClose();
+  };
+
+  return (
+    <Modal visible={todo !== null} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>할 일 수정</Text>
+          <TextInput
+            style={styles.titleInput}
+            value={title}
+            onChangeText={setTitle}
+            placeholder="할 일 제목"
+            placeholderTextColor="#8a8f8b"
+          />
+
+          <ScheduleFields
+            startDate={startDate}
+            onStartDateChange={setStartDate}
+            dueDateMode={dueDateMode}
+            onDueDateModeChange={setDueDateMode}
+            dueDate={dueDate}
+            onDueDateChange={setDueDate}
+            startTime={startTime}
+            onStartTimeChange={setStartTime}
+            endTime={endTime}
+            onEndTimeChange={setEndTime}
+          />
+
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, importance && styles.chipSelected]}
+              onPress={() => setImportance((prev) => !prev)}
+            >
+              <Text style={[styles.chipText, importance && styles.chipTextSelected]}>
+                중요 {importance ? 'ON' : 'OFF'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, urgency && styles.chipSelected]}
+              onPress={() => setUrgency((prev) => !prev)}
+            >
+              <Text style={[styles.chipText, urgency && styles.chipTextSelected]}>
+                긴급 {urgency ? 'ON' : 'OFF'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <TagChips
+            tags={tags}
+            selectedIds={tagIds}
+            onToggle={(tagId) =>
+              setTagIds((prev) =>
+                prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]
+              )
+            }
+          />
+
+          <View style={styles.chipRow}>
+            {rewardTiers.map((tier) => {
+              const selected = tier.id === rewardTierId;
+              return (
+                <TouchableOpacity
+                  key={tier.id}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setRewardTierId(tier.id)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {tier.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {todo && rewardTierId === null && (
+            <Text style={styles.hint}>
+              현재 보상 {todo.rewardCoins}코인 · {todo.rewardXp}XP (변경하지 않음)
+            </Text>
+          )}
+
+          {dateError ? <Text style={styles.error}>{dateError}</Text> : null}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>취소</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+              disabled={!canSave}
+              onPress={onConfirm}
+            >
+              <Text style={styles.saveText}>저장</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(28, 34, 26, 0.45)',
+  },
+  sheet: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    backgroundColor: '#ffffff',
+    padding: 18,
+    paddingBottom: 32,
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#2f3930',
+    fontSize: 18,
+  },
+  titleInput: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    borderRadius: 12,
+    backgroundColor: '#fbfcf8',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#2f3832',
+    fontFamily: 'SpaceGrotesk_500Medium',
+    fontSize: 14,
+  },
+  chipRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d8ddd0',
+    paddingVertical: 9,
+    alignItems: 'center',
+    backgroundColor: '#f7f8f2',
+  },
+  chipSelected: {
+    borderColor: '#4f6f5c',
+    backgroundColor: '#dff0e5',
+  },
+  chipText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#6b7569',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#2f4f39',
+  },
+  hint: {
+    marginTop: 6,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#7b846f',
+    fontSize: 12,
+  },
+  error: {
+    marginTop: 8,
+    fontFamily: 'SpaceGrotesk_500Medium',
+    color: '#b0523d',
+    fontSize: 12,
+  },
+  buttonRow: {
+    marginTop: 16,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#eef1e8',
+  },
+  cancelText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#5f6a5d',
+    fontSize: 14,
+  },
+  saveButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#4f7d4f',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    fontFamily: 'SpaceGrotesk_700Bold',
+    color: '#ffffff',
+    fontSize: 14,
+  },
+});
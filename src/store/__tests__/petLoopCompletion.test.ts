@@ -0,0 +1,168 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { TodoItem } from '../petLoopStore';
+import { usePetLoopStore } from '../petLoopStore';
+
+type PetLoopState = ReturnType<typeof usePetLoopStore.getState>;
+
+const TODAY = '2026-10-19';
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+const initialState = usePetLoopStore.getState();
+
+const makeTodo = (id: string, patch: Partial<TodoItem> = {}): TodoItem => ({
+  id,
+  title: `할 일 ${id}`,
+  startDate: TODAY,
+  startTime: null,
+  endTime: null,
+  dueDateMode: 'date',
+  dueDate: TODAY,
+  importance: true,
+  urgency: true,
+  done: false,
+  rewardCoins: 18,
+  rewardXp: 16,
+  createdAt: NOW,
+  seriesId: null,
+  reminder: null,
+  subtasks: [],
+  tagIds: [],
+  ...patch,
+});
+
+// Everything a completion may touch, for comparing before and after an undo.
+const pickRewards = (state: PetLoopState) => ({
+  coins: state.coins,
+  level: state.level,
+  xp: state.xp,
+  happiness: state.happiness,
+  energy: state.energy,
+  streak: state.streak,
+  bestStreak: state.bestStreak,
+  completionLog: state.completionLog,
+  completionJournal: state.completionJournal,
+  unlockedAchievements: state.unlockedAchievements,
+});
+
+const receiptOf = (id: string) =>
+  usePetLoopStore.getState().todos.find((todo) => todo.id === id)?.completionReceipt;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  usePetLoopStore.setState(
+    {
+      ...initialState,
+      coins: 100,
+      level: 1,
+      xp: 0,
+      xpGoal: 100,
+      todos: [makeTodo('a'), makeTodo('b', { importance: false })],
+      lastActiveDate: TODAY,
+    },
+    true
+  );
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await AsyncStorage.clear();
+});
+
+describe('completeTodo', () => {
+  it('pays out the achievements it unlocks and records them on the receipt', () => {
+    usePetLoopStore.getState().completeTodo('a');
+
+    const state = usePetLoopStore.getState();
+    expect(state.unlockedAchievements.map((entry) => entry.id)).toEqual([
+      'first-completion',
+      'q1-cleared',
+    ]);
+    expect(receiptOf('a')).toMatchObject({
+      coins: 18,
+      achievementIds: ['first-completion', 'q1-cleared'],
+      achievementCoins: 30,
+    });
+    expect(state.coins).toBe(100 + 18 + 30);
+  });
+
+  it('records nothing when no achievement is unlocked', () => {
+    usePetLoopStore.getState().completeTodo('a');
+    usePetLoopStore.getState().completeTodo('b');
+
+    expect(receiptOf('b')).toMatchObject({ achievementIds: [], achievementCoins: 0 });
+    expect(usePetLoopStore.getState().coins).toBe(100 + 18 + 30 + 18);
+  });
+
+  it('awards a streak freeze when the streak reaches a milestone', () => {
+    usePetLoopStore.setState({ streak: 6, bestStreak: 6, lastCompletedDate: '2026-10-18' });
+    usePetLoopStore.getState().completeTodo('a');
+
+    expect(usePetLoopStore.getState()).toMatchObject({ streak: 7, streakFreezes: 1 });
+    usePetLoopStore.getState().uncompleteTodo('a');
+    expect(usePetLoopStore.getState()).toMatchObject({ streak: 6, streakFreezes: 0 });
+  });
+});
+
+describe('uncompleteTodo', () => {
+  it('takes back the achievements the completion unlocked', () => {
+    const before = pickRewards(usePetLoopStore.getState());
+    usePetLoopStore.getState().completeTodo('a');
+    usePetLoopStore.getState().uncompleteTodo('a');
+
+    expect(pickRewards(usePetLoopStore.getState())).toEqual(before);
+  });
+
+  it('unchecks the subtask whose check finished the todo', () => {
+    usePetLoopStore.setState({
+      todos: [
+        makeTodo('a', {
+          subtasks: [
+            { id: 'sub-1', title: '초안', done: false, xpAwarded: 0, coinsAwarded: 0 },
+            { id: 'sub-2', title: '검토', done: false, xpAwarded: 0, coinsAwarded: 0 },
+          ],
+        }),
+      ],
+    });
+    usePetLoopStore.getState().toggleSubtask('a', 'sub-1');
+    const before = usePetLoopStore.getState();
+    usePetLoopStore.getState().toggleSubtask('a', 'sub-2');
+    expect(receiptOf('a')?.subtaskId).toBe('sub-2');
+
+    usePetLoopStore.getState().uncompleteTodo('a');
+
+    const state = usePetLoopStore.getState();
+    expect(state.todos[0].done).toBe(false);
+    expect(state.todos[0].subtasks.map((entry) => entry.done)).toEqual([true, false]);
+    expect(state.todos[0].subtasks[1]).toMatchObject({ xpAwarded: 0, coinsAwarded: 0 });
+    expect(pickRewards(state)).toEqual(pickRewards(before));
+  });
+
+  it('leaves subtasks alone when the todo was completed directly', () => {
+    usePetLoopStore.setState({
+      todos: [
+        makeTodo('a', {
+          subtasks: [{ id: 'sub-1', title: '초안', done: true, xpAwarded: 2, coinsAwarded: 0 }],
+        }),
+      ],
+    });
+    usePetLoopStore.getState().completeTodo('a');
+    usePetLoopStore.getState().uncompleteTodo('a');
+
+    expect(usePetLoopStore.getState().todos[0].subtasks[0]).toMatchObject({
+      done: true,
+      xpAwarded: 2,
+    });
+  });
+
+  it('keeps achievements that were earned by other actions', () => {
+    usePetLoopStore.setState({ unlockedAchievements: [{ id: 'caretaker', unlockedAt: NOW - 1 }] });
+    usePetLoopStore.getState().completeTodo('a');
+    usePetLoopStore.getState().completeTodo('b');
+    usePetLoopStore.getState().uncompleteTodo('b');
+
+    expect(usePetLoopStore.getState().unlockedAchievements.map((entry) => entry.id)).toEqual([
+      'caretaker',
+      'first-completion',
+      'q1-cleared',
+    ]);
+  });
+});
@@ -0,0 +1,455 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getEvolutionStage } from '../../lib/petEvolution';
+import type { PetProfile, TodoItem } from '../petLoopStore';
+import {
+  PET_LOOP_SCHEMA_VERSION,
+  PET_LOOP_STORAGE_KEY,
+  migratePetLoopState,
+  usePetLoopStore,
+} from '../petLoopStore';
+
+type Blob = Record<string, unknown>;
+
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+// What a build at v1 wrote: no start dates, priorities or any later feature.
+const V1_BLOB: Blob = {
+  petName: '모찌',
+  creature: 'chick',
+  level: 6,
+  xp: 40,
+  xpGoal: 120,
+  coins: 320,
+  happiness: 80,
+  energy: 70,
+  habitatTier: 2,
+  streak: 4,
+  todos: [
+    {
+      id: 'todo-a',
+      title: '보고서',
+      dueDate: '2026-10-18',
+      done: true,
+      rewardCoins: 18,
+      rewardXp: 16,
+      createdAt: NOW - 2 * DAY,
+      completedAt: NOW - DAY,
+    },
+    {
+      id: 'todo-b',
+      title: '운동',
+      dueDate: '2026-10-20',
+      done: false,
+      rewardCoins: 12,
+      rewardXp: 10,
+      createdAt: NOW - DAY,
+    },
+  ],
+  purchasedDecorations: ['sun-lamp', 'moss-rock'],
+  completionLog: { '2026-10-15': 1, '2026-10-16': 2, '2026-10-17': 1, '2026-10-18': 1 },
+  lastCompletedDate: '2026-10-18',
+  lastActiveDate: '2026-10-18',
+};
+
+const mapTodos = (blob: Blob, update: (todo: Blob) => Blob): Blob => ({
+  ...blob,
+  todos: (blob.todos as Blob[]).map(update),
+});
+
+// How the blob written by each schema version differs from the one before it.
+const SHAPE_CHANGES: Record<number, (blob: Blob) => Blob> = {
+  2: (blob) =>
+    mapTodos(blob, (todo) => ({
+      ...todo,
+      startDate: todo.id === 'todo-a' ? '2026-10-17' : todo.dueDate,
+      dueDateMode: 'date',
+      importance: todo.id !== 'todo-a',
+      urgency: true,
+    })),
+  3: (blob) => ({
+    ...mapTodos(blob, (todo) => ({ ...todo, seriesId: null })),
+    recurringTodos: [
+      {
+        id: 'series-gym',
+        title: '헬스',
+        repeat: { kind: 'weekly', weekdays: [1, 3] },
+        anchorDate: '2026-10-01',
+        importance: true,
+        urgency: false,
+        rewardCoins: 12,
+        rewardXp: 10,
+        createdAt: NOW - 20 * DAY,
+        lastGeneratedDate: '2026-10-19',
+        lastCompletedOccurrence: null,
+        streak: 2,
+      },
+    ],
+  }),
+  4: (blob) => ({
+    ...mapTodos(blob, (todo) => ({
+      ...todo,
+      reminder: todo.id === 'todo-b' ? { time: '07:30', leadMinutes: 10 } : null,
+    })),
+    recurringTodos: (blob.recurringTodos as Blob[]).map((series) => ({ ...series, reminder: null })),
+  }),
+  5: (blob) => ({
+    ...blob,
+    digestSettings: { morningTime: '08:00', eveningTime: null, previewLimit: 3 },
+  }),
+  6: (blob) =>
+    mapTodos(blob, (todo) =>
+      todo.id === 'todo-a'
+        ? {
+            ...todo,
+            completionReceipt: {
+              dateKey: '2026-10-18',
+              coins: 18,
+              xp: 16,
+              happiness: 4,
+              energy: 2,
+              habitatTierBefore: 2,
+              streakBefore: 3,
+            },
+          }
+        : todo
+    ),
+  7: (blob) =>
+    mapTodos(blob, (todo) => ({
+      ...todo,
+      subtasks:
+        todo.id === 'todo-b'
+          ? [{ id: 'sub-1', title: '스트레칭', done: true, xpAwarded: 2, coinsAwarded: 1 }]
+          : [],
+    })),
+  8: (blob) => ({
+    ...mapTodos(blob, (todo) => ({ ...todo, tagIds: todo.id === 'todo-a' ? ['tag-work'] : [] })),
+    tags: [{ id: 'tag-work', name: 'work', color: '#e98a6b' }],
+    recurringTodos: (blob.recurringTodos as Blob[]).map((series) => ({ ...series, tagIds: [] })),
+  }),
+  9: (blob) => ({
+    ...blob,
+    journalRetentionDays: 30,
+    completionJournal: [
+      {
+        id: 'done-todo-a',
+        todoId: 'todo-a',
+        title: '보고서',
+        quadrant: 'delegate',
+        tagIds: ['tag-work'],
+        dueDate: '2026-10-18',
+        coins: 18,
+        xp: 16,
+        dateKey: '2026-10-18',
+        completedAt: NOW - DAY,
+      },
+    ],
+  }),
+  10: (blob) => ({ ...blob, bestStreak: 12 }),
+  11: (blob) => ({
+    ...blob,
+    staleArchiveDays: 14,
+    archivedTodos: [
+      {
+        todo: {
+          id: 'todo-old',
+          title: '옛날 일',
+          startDate: '2026-09-01',
+          dueDateMode: 'date',
+          dueDate: '2026-09-02',
+          importance: false,
+          urgency: false,
+          done: false,
+          rewardCoins: 10,
+          rewardXp: 8,
+          createdAt: NOW - 50 * DAY,
+          seriesId: null,
+          reminder: null,
+          subtasks: [],
+          tagIds: [],
+        },
+        archivedAt: NOW - 40 * DAY,
+      },
+    ],
+  }),
+  12: (blob) => ({ ...blob, pendingRollover: { fromDate: '2026-10-18', todoIds: ['todo-b'] } }),
+  13: (blob) => ({
+    ...blob,
+    activePetId: 'pet-starter',
+    pets: [
+      {
+        id: 'pet-starter',
+        creature: 'chick',
+        name: '모찌',
+        level: 6,
+        xp: 40,
+        xpGoal: 120,
+        happiness: 80,
+        energy: 70,
+        adoptedAt: NOW - 60 * DAY,
+      },
+      {
+        id: 'pet-bunny',
+        creature: 'bunny',
+        name: '토토',
+        level: 2,
+        xp: 5,
+        xpGoal: 60,
+        happiness: 60,
+        energy: 50,
+        adoptedAt: NOW - 10 * DAY,
+      },
+    ],
+  }),
+  14: (blob) => ({
+    ...blob,
+    careCount: 9,
+    pets: (blob.pets as Blob[]).map((pet) => ({
+      ...pet,
+      careCount: pet.id === 'pet-bunny' ? 3 : 9,
+    })),
+  }),
+  15: (blob) => ({
+    ...blob,
+    hunger: 55,
+    cleanliness: 60,
+    needsClock: { happiness: NOW - 60000, energy: NOW - 60000, hunger: NOW, cleanliness: NOW },
+  }),
+  16: (blob) => ({ ...blob, placedDecorations: [{ id: 'sun-lamp', x: 0.3, y: 0.6 }] }),
+  17: (blob) => ({ ...blob, inventory: { meal: 2 } }),
+  18: (blob) => ({
+    ...blob,
+    unlockedAchievements: [{ id: 'first-completion', unlockedAt: NOW - DAY }],
+  }),
+  19: (blob) => ({
+    ...blob,
+    streakFreezes: 1,
+    streakCoveredThrough: null,
+    frozenDates: ['2026-10-14'],
+    vacation: null,
+  }),
+  20: (blob) => ({
+    ...blob,
+    focusSettings: { workMinutes: 50, breakMinutes: 10 },
+    activeFocus: null,
+    focusLog: [
+      {
+        id: 'focus-1',
+        todoId: 'todo-a',
+        dateKey: '2026-10-18',
+        workMinutes: 50,
+        xp: 8,
+        completedAt: NOW - DAY,
+      },
+    ],
+  }),
+  21: (blob) =>
+    mapTodos(blob, (todo) => ({
+      ...todo,
+      startTime: todo.id === 'todo-b' ? '09:00' : null,
+      endTime: todo.id === 'todo-b' ? '10:00' : null,
+    })),
+  22: (blob) => ({ ...blob, needAlertsEnabled: false }),
+};
+
+const blobAt = (version: number): Blob => {
+  let blob = V1_BLOB;
+  for (let next = 2; next <= version; next += 1) {
+    blob = SHAPE_CHANGES[next](blob);
+  }
+  // Each fixture is migrated independently, so hand out a fresh copy.
+  return JSON.parse(JSON.stringify(blob));
+};
+
+const todoById = (state: Blob, id: string): TodoItem =>
+  (state.todos as TodoItem[]).find((todo) => todo.id === id) as TodoItem;
+
+// What every migrated blob must hold, whatever version it was written at.
+const expectCurrentShape = (state: Blob) => {
+  expect((state.todos as TodoItem[]).map((todo) => todo.id)).toEqual(['todo-a', 'todo-b']);
+  (state.todos as TodoItem[]).forEach((todo) => {
+    expect(typeof todo.startDate).toBe('string');
+    expect(todo.dueDateMode).toBe('date');
+    expect(typeof todo.importance).toBe('boolean');
+    expect(Array.isArray(todo.subtasks)).toBe(true);
+    expect(Array.isArray(todo.tagIds)).toBe(true);
+    expect(todo).toHaveProperty('startTime');
+    expect(todo).toHaveProperty('endTime');
+  });
+  expect(state.coins).toBe(320);
+  expect(state.level).toBe(6);
+  expect(Array.isArray(state.recurringTodos)).toBe(true);
+  expect(Array.isArray(state.completionJournal)).toBe(true);
+  expect(Array.isArray(state.archivedTodos)).toBe(true);
+  expect(Array.isArray(state.pets)).toBe(true);
+  expect(state.activePetId).toBe('pet-starter');
+  expect(state.needsClock).toBeTruthy();
+  expect(state.inventory).toBeTruthy();
+  expect(state.focusSettings).toBeTruthy();
+};
+
+// Each feature keeps its stored value when the blob already had it, and gets the
+// migration's default otherwise.
+const expectFeatures = (state: Blob, from: number) => {
+  const todoA = todoById(state, 'todo-a');
+  const todoB = todoById(state, 'todo-b');
+
+  expect(todoA.startDate).toBe(from >= 2 ? '2026-10-17' : '2026-10-18');
+  expect(todoA.importance).toBe(from < 2);
+  expect(state.recurringTodos as Blob[]).toHaveLength(from >= 3 ? 1 : 0);
+  expect(todoB.reminder).toEqual(from >= 4 ? { time: '07:30', leadMinutes: 10 } : null);
+  expect((state.digestSettings as Blob).morningTime).toBe(from >= 5 ? '08:00' : null);
+  expect(todoA.completionReceipt?.dateKey).toBe(from >= 6 ? '2026-10-18' : undefined);
+  expect(todoB.subtasks).toHaveLength(from >= 7 ? 1 : 0);
+  expect(state.tags as Blob[]).toHaveLength(from >= 8 ? 1 : 0);
+  expect(todoA.tagIds).toEqual(from >= 8 ? ['tag-work'] : []);
+  expect((state.completionJournal as Blob[]).map((entry) => entry.id)).toEqual([
+    from >= 9 ? 'done-todo-a' : 'done-legacy-todo-a',
+  ]);
+  expect(state.journalRetentionDays).toBe(from >= 9 ? 30 : 365);
+  expect(state.bestStreak).toBe(from >= 10 ? 12 : 4);
+  expect(state.archivedTodos as Blob[]).toHaveLength(from >= 11 ? 1 : 0);
+  expect(state.staleArchiveDays).toBe(from >= 11 ? 14 : 5);
+  expect(state.pendingRollover).toEqual(
+    from >= 12 ? { fromDate: '2026-10-18', todoIds: ['todo-b'] } : null
+  );
+  expect((state.pets as Blob[]).map((pet) => pet.id)).toEqual(
+    from >= 13 ? ['pet-starter', 'pet-bunny'] : ['pet-starter']
+  );
+  // Before v14 the care count is seeded from the level so no pet drops back a stage.
+  expect(state.careCount).toBe(from >= 14 ? 9 : 3);
+  (state.pets as PetProfile[]).forEach((pet) => {
+    expect(getEvolutionStage(pet.level, pet.careCount)).toBe(getEvolutionStage(pet.level, Infinity));
+  });
+  expect(state.hunger).toBe(from >= 15 ? 55 : 80);
+  expect(state.placedDecorations).toEqual(
+    from >= 16
+      ? [{ id: 'sun-lamp', x: 0.3, y: 0.6 }]
+      : [
+          { id: 'sun-lamp', x: 0.2, y: 0.75 },
+          { id: 'moss-rock', x: 0.5, y: 0.75 },
+        ]
+  );
+  expect(state.inventory).toEqual(from >= 17 ? { meal: 2 } : { snack: 3, ball: 2, soap: 1 });
+  expect(state.unlockedAchievements as Blob[]).toHaveLength(from >= 18 ? 1 : 0);
+  expect(state.streakFreezes).toBe(from >= 19 ? 1 : 0);
+  expect(state.focusSettings).toEqual(
+    from >= 20 ? { workMinutes: 50, breakMinutes: 10 } : { workMinutes: 25, breakMinutes: 5 }
+  );
+  expect(state.focusLog as Blob[]).toHaveLength(from >= 20 ? 1 : 0);
+  expect([todoB.startTime, todoB.endTime]).toEqual(from >= 21 ? ['09:00', '10:00'] : [null, null]);
+  // Need alerts were always on before they became opt-in.
+  expect(state.needAlertsEnabled).toBe(from < 22);
+};
+
+const quarantineKeys = async (): Promise<string[]> =>
+  (await AsyncStorage.getAllKeys()).filter((key) =>
+    key.startsWith(`${PET_LOOP_STORAGE_KEY}:quarantine:`)
+  );
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await AsyncStorage.clear();
+});
+
+describe('migratePetLoopState', () => {
+  const versions = Array.from({ length: PET_LOOP_SCHEMA_VERSION }, (_, index) => index + 1);
+
+  it.each(versions)('upgrades a v%i blob to the current schema', (version) => {
+    const state = migratePetLoopState(blobAt(version), version) as Blob;
+    expectCurrentShape(state);
+    expectFeatures(state, version);
+  });
+
+  it('leaves a current blob unchanged apart from normalization', () => {
+    const state = migratePetLoopState(blobAt(PET_LOOP_SCHEMA_VERSION), PET_LOOP_SCHEMA_VERSION);
+    expect(migratePetLoopState(state, PET_LOOP_SCHEMA_VERSION)).toEqual(state);
+  });
+
+  it('rejects blobs that are not objects', () => {
+    expect(() => migratePetLoopState(null, 3)).toThrow();
+    expect(() => migratePetLoopState([], 3)).toThrow();
+    expect(() => migratePetLoopState('state', 3)).toThrow();
+  });
+});
+
+describe('persisted blob quarantine', () => {
+  // Backups are written without blocking hydration; let them land.
+  const flushBackups = () => new Promise((resolve) => setImmediate(resolve));
+
+  const rehydrateFrom = async (state: unknown, version: number) => {
+    await AsyncStorage.setItem(PET_LOOP_STORAGE_KEY, JSON.stringify({ state, version }));
+    await usePetLoopStore.persist.rehydrate();
+    await flushBackups();
+  };
+
+  const storedBackups = async (): Promise<unknown[]> =>
+    Promise.all(
+      (await quarantineKeys()).map(async (key) =>
+        JSON.parse((await AsyncStorage.getItem(key)) as string)
+      )
+    );
+
+  it('rehydrates an older blob through the migrations', async () => {
+    await rehydrateFrom(blobAt(4), 4);
+
+    const state = usePetLoopStore.getState();
+    expect(state.todos.map((todo) => todo.id)).toEqual(['todo-a', 'todo-b']);
+    expect(state.coins).toBeGreaterThanOrEqual(320);
+    expect(await quarantineKeys()).toEqual([]);
+    const stored = JSON.parse((await AsyncStorage.getItem(PET_LOOP_STORAGE_KEY)) as string);
+    expect(stored.version).toBe(PET_LOOP_SCHEMA_VERSION);
+  });
+
+  it('quarantines a corrupt blob and starts fresh', async () => {
+    const initialTodos = usePetLoopStore.getState().todos;
+    await rehydrateFrom('not a state', 4);
+
+    expect(usePetLoopStore.getState().todos).toBe(initialTodos);
+    expect(await storedBackups()).toEqual([{ state: 'not a state', version: 4 }]);
+  });
+
+  it('keeps a copy of a blob written by a newer build before reading it', async () => {
+    const blob = { ...blobAt(PET_LOOP_SCHEMA_VERSION), futureField: true };
+    await rehydrateFrom(blob, PET_LOOP_SCHEMA_VERSION + 1);
+
+    const state = usePetLoopStore.getState();
+    expect(state.todos.map((todo) => todo.id)).toEqual(['todo-a', 'todo-b']);
+    expect(state.level).toBe(6);
+    expect(await storedBackups()).toEqual([{ state: blob, version: PET_LOOP_SCHEMA_VERSION + 1 }]);
+  });
+
+  it('sanitizes a current-version blob before it reaches the state', async () => {
+    await rehydrateFrom(
+      { ...blobAt(PET_LOOP_SCHEMA_VERSION), todos: null, pets: [null, { id: 5 }] },
+      PET_LOOP_SCHEMA_VERSION
+    );
+
+    const state = usePetLoopStore.getState();
+    expect(state.todos).toEqual([]);
+    expect(state.pets.every((pet) => typeof pet.id === 'string')).toBe(true);
+    expect(await quarantineKeys()).toEqual([]);
+  });
+
+  it('quarantines a current-version blob that cannot be sanitized', async () => {
+    const initialTodos = usePetLoopStore.getState().todos;
+    const blob = { ...blobAt(PET_LOOP_SCHEMA_VERSION), todos: [null] };
+    await rehydrateFrom(blob, PET_LOOP_SCHEMA_VERSION);
+
+    expect(usePetLoopStore.getState().todos).toBe(initialTodos);
+    expect(await storedBackups()).toEqual([{ state: blob, version: PET_LOOP_SCHEMA_VERSION }]);
+  });
+
+  it('quarantines stored text that is not JSON on rehydration', async () => {
+    await AsyncStorage.setItem(PET_LOOP_STORAGE_KEY, '{"state": tru');
+    await usePetLoopStore.persist.rehydrate();
+
+    const keys = await quarantineKeys();
+    expect(keys).toHaveLength(1);
+    expect(await AsyncStorage.getItem(keys[0])).toBe('{"state": tru');
+  });
+});
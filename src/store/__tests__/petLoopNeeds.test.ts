@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createNeedsClock } from '../../lib/petNeeds';
+import { usePetLoopStore } from '../petLoopStore';
+
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+const initialState = usePetLoopStore.getState();
+
+const needsOf = () => {
+  const { hunger, energy, happiness, cleanliness } = usePetLoopStore.getState();
+  return { hunger, energy, happiness, cleanliness };
+};
+
+beforeEach(() => {
+  usePetLoopStore.setState(
+    {
+      ...initialState,
+      hunger: 80,
+      energy: 80,
+      happiness: 80,
+      cleanliness: 80,
+      needsClock: createNeedsClock(NOW),
+      placedDecorations: [],
+      vacation: null,
+    },
+    true
+  );
+});
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('tickNeeds', () => {
+  it('decays needs by the time elapsed since the clock', () => {
+    usePetLoopStore.getState().tickNeeds(NOW + 10 * HOUR);
+    expect(needsOf()).toEqual({ hunger: 60, energy: 76, happiness: 78, cleanliness: 70 });
+  });
+
+  it('does not decay again when ticked twice at the same time', () => {
+    usePetLoopStore.getState().tickNeeds(NOW + 10 * HOUR);
+    const once = usePetLoopStore.getState();
+    usePetLoopStore.getState().tickNeeds(NOW + 10 * HOUR);
+    expect(needsOf()).toEqual({ hunger: 60, energy: 76, happiness: 78, cleanliness: 70 });
+    expect(usePetLoopStore.getState().needsClock).toEqual(once.needsClock);
+  });
+
+  it('pauses decay during a vacation', () => {
+    // Ticked an hour after a vacation that began 15 hours after the clock: only the
+    // 16 hours outside it count.
+    usePetLoopStore.setState({ vacation: { start: '2026-10-20', end: '2026-10-21' } });
+    usePetLoopStore.getState().tickNeeds(new Date(2026, 9, 22, 1, 0).getTime());
+    expect(needsOf()).toEqual({ hunger: 48, energy: 74, happiness: 76, cleanliness: 64 });
+  });
+});
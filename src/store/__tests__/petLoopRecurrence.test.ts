@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { usePetLoopStore } from '../petLoopStore';
+
+// A Monday.
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+const initialState = usePetLoopStore.getState();
+
+const seriesTodos = () =>
+  usePetLoopStore
+    .getState()
+    .todos.filter((todo) => todo.seriesId !== null)
+    .map(({ startDate, done }) => ({ startDate, done }));
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  usePetLoopStore.setState(
+    { ...initialState, todos: [], recurringTodos: [], lastActiveDate: '2026-10-19' },
+    true
+  );
+  usePetLoopStore.getState().addTodo({ title: '물주기', repeat: { kind: 'daily' } });
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await AsyncStorage.clear();
+});
+
+describe('recurring todos', () => {
+  it("creates today's instance when the series is added", () => {
+    expect(usePetLoopStore.getState().recurringTodos).toHaveLength(1);
+    expect(seriesTodos()).toEqual([{ startDate: '2026-10-19', done: false }]);
+  });
+
+  it('completing one instance leaves the series running', () => {
+    const [instance] = usePetLoopStore.getState().todos;
+    usePetLoopStore.getState().completeTodo(instance.id);
+
+    const [series] = usePetLoopStore.getState().recurringTodos;
+    expect(series).toMatchObject({ lastCompletedOccurrence: '2026-10-19', streak: 1 });
+
+    jest.setSystemTime(NOW + DAY);
+    usePetLoopStore.getState().runDailyTick();
+
+    expect(usePetLoopStore.getState().recurringTodos).toHaveLength(1);
+    expect(seriesTodos()).toEqual([
+      { startDate: '2026-10-20', done: false },
+      { startDate: '2026-10-19', done: true },
+    ]);
+  });
+
+  it('replaces a missed instance with the next one and resets the series streak', () => {
+    jest.setSystemTime(NOW + DAY);
+    usePetLoopStore.getState().runDailyTick();
+
+    expect(seriesTodos()).toEqual([{ startDate: '2026-10-20', done: false }]);
+    expect(usePetLoopStore.getState().recurringTodos[0].streak).toBe(0);
+  });
+});
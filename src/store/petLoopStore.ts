@@ -1,17 +1,202 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
-import { createJSONStorage, persist } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
+import {
+  createDateWithOffset,
+  dayDifference,
+  isValidDateKey,
+  isValidTimeKey,
+  normalizeDateKey,
+  toDateKey,
+} from '../lib/dateKeys';
+import type { RepeatRule } from '../lib/recurrence';
+import { normalizeRepeatRule, occursOn, previousOccurrence } from '../lib/recurrence';
+import { createQuarantiningStorage, quarantineBlob } from '../lib/quarantineStorage';
+import { pruneJournal } from '../lib/completionJournal';
+import { getLongestStreak } from '../lib/productivityStats';
+import {
+  DEFAULT_PET_NAMES,
+  PET_UNLOCK_RULES,
+  STARTER_CREATURE,
+  getPetUnlockState,
+} from '../lib/petCollection';
+import { DECORATION_CATALOG, getDecayIntervals, getDecoration } from '../lib/decorationCatalog';
+import { ACHIEVEMENTS, findNewAchievements } from '../lib/achievements';
+import { getCareCountForLevel } from '../lib/petEvolution';
+import { resolveQuadrant } from '../lib/todoQuadrant';
+import type { AchievementSnapshot } from '../lib/achievements';
+import { MAX_ITEM_STACK, PET_ITEMS, STARTER_INVENTORY, getItem } from '../lib/petItems';
+import type { NeedsClock, PetNeeds } from '../lib/petNeeds';
+import type { VacationRange } from '../lib/streakProtection';
+import {
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_COST,
+  earnsStreakFreeze,
+  getStreakAnchor,
+  isOnVacation,
+  isValidVacation,
+  pauseClockForVacation,
+  resolveStreak,
+} from '../lib/streakProtection';
+import { NEED_KEYS, createNeedsClock, decayNeeds } from '../lib/petNeeds';
+import { normalizeTimeRange } from '../lib/timeKeys';
+import type { FocusLogEntry, FocusSession, FocusSettings } from '../lib/focusTimer';
+import {
+  DEFAULT_FOCUS_SETTINGS,
+  FOCUS_BREAK_RANGE,
+  FOCUS_WORK_RANGE,
+  MAX_FOCUS_LOG_ENTRIES,
+  createFocusSession,
+  getBreakEndsAt,
+  getFocusBonusXp,
+  getWorkEndsAt,
+} from '../lib/focusTimer';
+import {
+  getTodoDeadlineKey,
+  isTodoOverdue,
+  isTodoStale,
+  rescheduleTodo,
+} from '../lib/todoArchive';
 
-export type CreatureType = 'chick' | 'sprout' | 'bunny';
-export type DecorationId = 'sun-lamp' | 'moss-rock' | 'rain-bell';
-export type CareAction = 'feed' | 'play';
+export { isValidDateKey, toDateKey } from '../lib/dateKeys';
+export { getTodoQuadrant } from '../lib/todoQuadrant';
+export type { RepeatRule } from '../lib/recurrence';
+export type { VacationRange } from '../lib/streakProtection';
+export type { FocusLogEntry, FocusSession, FocusSettings } from '../lib/focusTimer';
+
+export type CreatureType = 'chick' | 'sprout' | 'bunny' | 'kitten' | 'dino';
+export type DecorationId =
+  | 'sun-lamp'
+  | 'moss-rock'
+  | 'rain-bell'
+  | 'clover-pot'
+  | 'straw-bed'
+  | 'yarn-ball'
+  | 'firefly-jar'
+  | 'snack-bowl'
+  | 'bath-tub'
+  | 'cherry-tree'
+  | 'moon-lamp'
+  | 'treasure-chest';
+export type ItemId = 'snack' | 'meal' | 'cake' | 'ball' | 'puzzle' | 'energy-potion' | 'soap';
+
+export type Inventory = Partial<Record<ItemId, number>>;
+
+export type AchievementId =
+  | 'first-completion'
+  | 'streak-7'
+  | 'streak-30'
+  | 'completions-100'
+  | 'q1-cleared'
+  | 'level-10'
+  | 'habitat-3'
+  | 'all-decorations'
+  | 'pet-collector'
+  | 'caretaker';
 export type DueDateMode = 'date' | 'ongoing' | 'unscheduled';
 export type Quadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
 
+export interface TodoReminder {
+  time: string;
+  leadMinutes: number;
+}
+
+export interface CompletionReceipt {
+  dateKey: string;
+  coins: number;
+  xp: number;
+  happiness: number;
+  energy: number;
+  habitatTierBefore: number;
+  streakBefore: number;
+  bestStreakBefore: number | null;
+  petId: string | null;
+  lastCompletedDateBefore: string | null;
+  seriesStreakBefore: number | null;
+  seriesLastCompletedBefore: string | null;
+  streakFreezesBefore: number | null;
+  // Achievements this completion unlocked, and the coins they paid out.
+  achievementIds: AchievementId[];
+  achievementCoins: number;
+  // The subtask whose check finished the todo; undo unchecks it again.
+  subtaskId: string | null;
+}
+
+export interface RemovedTodoSnapshot {
+  todo: TodoItem;
+  index: number;
+}
+
+export interface UnlockedAchievement {
+  id: AchievementId;
+  unlockedAt: number;
+}
+
+export interface CompletionJournalEntry {
+  id: string;
+  todoId: string;
+  title: string;
+  quadrant: Quadrant;
+  tagIds: string[];
+  dueDate: string | null;
+  coins: number;
+  xp: number;
+  dateKey: string;
+  completedAt: number;
+}
+
+export interface PetProfile {
+  id: string;
+  creature: CreatureType;
+  name: string;
+  level: number;
+  xp: number;
+  xpGoal: number;
+  happiness: number;
+  energy: number;
+  hunger: number;
+  cleanliness: number;
+  careCount: number;
+  adoptedAt: number;
+}
+
+// Position inside the habitat scene, as fractions of its width and height.
+export interface PlacedDecoration {
+  id: DecorationId;
+  x: number;
+  y: number;
+}
+
+export interface ArchivedTodo {
+  todo: TodoItem;
+  archivedAt: number;
+}
+
+export interface RolloverPrompt {
+  fromDate: string;
+  todoIds: string[];
+}
+
+export interface TodoTag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface SubtaskItem {
+  id: string;
+  title: string;
+  done: boolean;
+  xpAwarded: number;
+  coinsAwarded: number;
+}
+
 export interface TodoItem {
   id: string;
   title: string;
   startDate: string;
+  // Optional wall-clock block on the start date; null for all-day todos.
+  startTime: string | null;
+  endTime: string | null;
   dueDateMode: DueDateMode;
   dueDate: string | null;
   importance: boolean;
@@ -21,20 +206,75 @@ export interface TodoItem {
   rewardXp: number;
   createdAt: number;
   completedAt?: number;
+  completionReceipt?: CompletionReceipt;
+  seriesId: string | null;
+  reminder: TodoReminder | null;
+  subtasks: SubtaskItem[];
+  tagIds: string[];
+}
+
+export interface RecurringTodo {
+  id: string;
+  title: string;
+  repeat: RepeatRule;
+  anchorDate: string;
+  startTime: string | null;
+  endTime: string | null;
+  importance: boolean;
+  urgency: boolean;
+  rewardCoins: number;
+  rewardXp: number;
+  reminder: TodoReminder | null;
+  tagIds: string[];
+  createdAt: number;
+  lastGeneratedDate: string | null;
+  lastCompletedOccurrence: string | null;
+  streak: number;
+}
+
+export type TodoPatch = Partial<
+  Pick<
+    TodoItem,
+    | 'title'
+    | 'startDate'
+    | 'startTime'
+    | 'endTime'
+    | 'dueDateMode'
+    | 'dueDate'
+    | 'importance'
+    | 'urgency'
+    | 'rewardCoins'
+    | 'rewardXp'
+    | 'reminder'
+    | 'tagIds'
+  >
+>;
+
+export interface DigestSettings {
+  morningTime: string | null;
+  eveningTime: string | null;
+  previewLimit: number;
 }
 
 export interface AddTodoInput {
   title: string;
   startDate?: string;
+  startTime?: string | null;
+  endTime?: string | null;
   dueDateMode?: DueDateMode;
   dueDate?: string | null;
   rewardCoins?: number;
   rewardXp?: number;
   importance?: boolean;
   urgency?: boolean;
+  repeat?: RepeatRule | null;
+  reminder?: TodoReminder | null;
+  subtasks?: string[];
+  tagIds?: string[];
 }
 
 interface PetLoopState {
+  // The active pet's live stats. `pets` keeps every pet's snapshot and is synced on switch.
   petName: string;
   creature: CreatureType;
   level: number;
@@ -43,108 +283,214 @@ interface PetLoopState {
   coins: number;
   happiness: number;
   energy: number;
+  hunger: number;
+  cleanliness: number;
+  // When each need last lost a point. Only the active pet's needs decay.
+  needsClock: NeedsClock;
+  // Care actions given to the active pet; evolution needs both this and level.
+  careCount: number;
+  pets: PetProfile[];
+  activePetId: string;
   habitatTier: number;
   streak: number;
+  bestStreak: number;
+  streakFreezes: number;
+  // Latest missed day a freeze or vacation kept the streak alive through.
+  streakCoveredThrough: string | null;
+  // Days a freeze was spent on, for the weekly strip.
+  frozenDates: string[];
+  // While today falls in this range the streak is safe and needs do not decay.
+  vacation: VacationRange | null;
+  focusSettings: FocusSettings;
+  // The running work or break phase. Timestamps, so it survives the app being closed.
+  activeFocus: FocusSession | null;
+  // Finished work phases, per todo.
+  focusLog: FocusLogEntry[];
   todos: TodoItem[];
+  recurringTodos: RecurringTodo[];
+  tags: TodoTag[];
   purchasedDecorations: DecorationId[];
+  // Owned decorations that are out in the habitat; the rest sit in storage.
+  placedDecorations: PlacedDecoration[];
+  // Consumables by item id; using one is how the pet gets fed, played with and cleaned.
+  inventory: Inventory;
   completionLog: Record<string, number>;
+  completionJournal: CompletionJournalEntry[];
+  unlockedAchievements: UnlockedAchievement[];
+  journalRetentionDays: number | null;
   lastCompletedDate: string | null;
   lastActiveDate: string;
+  digestSettings: DigestSettings;
+  // Opt-in; notification permission is only asked for when this is switched on.
+  needAlertsEnabled: boolean;
+  archivedTodos: ArchivedTodo[];
+  staleArchiveDays: number | null;
+  pendingRollover: RolloverPrompt | null;
+  recentlyRemoved: RemovedTodoSnapshot | null;
   addTodo: (input: AddTodoInput) => void;
+  updateTodo: (id: string, patch: TodoPatch) => void;
   completeTodo: (id: string) => void;
+  uncompleteTodo: (id: string) => void;
   removeTodo: (id: string) => void;
+  undoRemoveTodo: () => void;
+  addSubtask: (todoId: string, title: string) => void;
+  removeSubtask: (todoId: string, subtaskId: string) => void;
+  toggleSubtask: (todoId: string, subtaskId: string) => void;
+  moveSubtask: (todoId: string, subtaskId: string, offset: -1 | 1) => void;
+  createTag: (name: string, color: string) => string | null;
+  removeTag: (tagId: string) => void;
+  stopRecurringTodo: (seriesId: string) => void;
   setTodoPriority: (id: string, priority: Partial<Pick<TodoItem, 'importance' | 'urgency'>>) => void;
   setTodoQuadrant: (id: string, quadrant: Quadrant) => void;
+  setTodoReminder: (id: string, reminder: TodoReminder | null) => void;
   runDailyTick: () => void;
-  careCreature: (action: CareAction) => void;
-  changeCreature: (creature: CreatureType) => void;
-  purchaseDecoration: (id: DecorationId, cost: number) => boolean;
+  tickNeeds: (now?: number) => void;
+  buyItem: (id: ItemId) => boolean;
+  consumeItem: (id: ItemId) => boolean;
+  adoptPet: (creature: CreatureType) => boolean;
+  switchPet: (petId: string) => void;
+  purchaseDecoration: (id: DecorationId) => boolean;
+  placeDecoration: (id: DecorationId, x: number, y: number) => void;
+  storeDecoration: (id: DecorationId) => void;
   seedStarterTodos: (dateKey?: string) => void;
+  setDigestSettings: (patch: Partial<DigestSettings>) => void;
+  setNeedAlertsEnabled: (enabled: boolean) => void;
+  setJournalRetention: (days: number | null) => void;
+  setStaleArchiveDays: (days: number | null) => void;
+  restoreArchivedTodos: (ids: string[]) => void;
+  rescheduleArchivedTodos: (ids: string[], dateKey: string) => void;
+  discardArchivedTodos: (ids: string[]) => void;
+  rollOverTodos: (ids: string[], dateKey: string) => void;
+  dismissRollover: () => void;
+  // Awards every achievement whose rule now holds and returns the newly unlocked ids.
+  evaluateAchievements: () => AchievementId[];
+  buyStreakFreeze: () => boolean;
+  setVacation: (range: VacationRange | null) => boolean;
+  setFocusSettings: (patch: Partial<FocusSettings>) => void;
+  startFocus: (todoId: string, now?: number) => boolean;
+  stopFocus: () => void;
+  // Settles a phase that has run out. Returns the log entry when a work phase just finished.
+  advanceFocus: (now?: number) => FocusLogEntry | null;
 }
 
 type PersistedTodo = Partial<TodoItem> & {
   dueDate?: unknown;
   dueDateMode?: unknown;
   startDate?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
   importance?: unknown;
   urgency?: unknown;
+  seriesId?: unknown;
+  reminder?: unknown;
+  completionReceipt?: unknown;
+  subtasks?: unknown;
+  tagIds?: unknown;
 };
 
+type PersistedRecurringTodo = Partial<Record<keyof RecurringTodo, unknown>>;
+
 type PersistedPetLoopData = Partial<
   Omit<
     PetLoopState,
     | 'addTodo'
+    | 'updateTodo'
     | 'completeTodo'
+    | 'uncompleteTodo'
     | 'removeTodo'
+    | 'undoRemoveTodo'
+    | 'addSubtask'
+    | 'removeSubtask'
+    | 'toggleSubtask'
+    | 'moveSubtask'
+    | 'createTag'
+    | 'removeTag'
+    | 'recentlyRemoved'
+    | 'stopRecurringTodo'
     | 'setTodoPriority'
     | 'setTodoQuadrant'
+    | 'setTodoReminder'
     | 'runDailyTick'
-    | 'careCreature'
-    | 'changeCreature'
+    | 'tickNeeds'
+    | 'buyItem'
+    | 'consumeItem'
+    | 'adoptPet'
+    | 'switchPet'
     | 'purchaseDecoration'
+    | 'placeDecoration'
+    | 'storeDecoration'
     | 'seedStarterTodos'
+    | 'setDigestSettings'
+    | 'setNeedAlertsEnabled'
+    | 'setJournalRetention'
+    | 'setStaleArchiveDays'
+    | 'restoreArchivedTodos'
+    | 'rescheduleArchivedTodos'
+    | 'discardArchivedTodos'
+    | 'rollOverTodos'
+    | 'dismissRollover'
+    | 'evaluateAchievements'
+    | 'buyStreakFreeze'
+    | 'setVacation'
+    | 'setFocusSettings'
+    | 'startFocus'
+    | 'stopFocus'
+    | 'advanceFocus'
   >
 > & {
   todos?: PersistedTodo[];
+  recurringTodos?: PersistedRecurringTodo[];
+  tags?: unknown;
+  completionJournal?: unknown;
+  journalRetentionDays?: unknown;
+  archivedTodos?: unknown;
+  staleArchiveDays?: unknown;
+  pendingRollover?: unknown;
+  pets?: unknown;
+  activePetId?: unknown;
+  needsClock?: unknown;
+  purchasedDecorations?: unknown;
+  placedDecorations?: unknown;
+  inventory?: unknown;
+  unlockedAchievements?: unknown;
+  streakFreezes?: unknown;
+  streakCoveredThrough?: unknown;
+  frozenDates?: unknown;
+  vacation?: unknown;
+  focusSettings?: unknown;
+  activeFocus?: unknown;
+  focusLog?: unknown;
+  needAlertsEnabled?: unknown;
 };
 
 const MAX_STAT = 100;
-const FEED_COST = 20;
+const DEFAULT_NEED_LEVEL = 80;
+const FROZEN_DATE_RETENTION_DAYS = 60;
 const STARTER_TITLES = ['아침 물 1잔 마시기', '오늘 핵심 할 일 1개 끝내기', '산책 10분'];
 
 const clamp = (value: number, min: number, max: number): number =>
   Math.min(Math.max(value, min), max);
 
-const pad2 = (value: number): string => String(value).padStart(2, '0');
-
-export const toDateKey = (date: Date = new Date()): string =>
-  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+const nextXpGoal = (level: number): number => 60 + (level - 1) * 22;
 
-export const isValidDateKey = (dateKey: string): boolean => {
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) {
-    return false;
-  }
-  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
-  const parsed = new Date(year, month - 1, day);
-  return (
-    parsed.getFullYear() === year &&
-    parsed.getMonth() === month - 1 &&
-    parsed.getDate() === day
-  );
-};
+const revertGrowth = (
+  level: number,
+  xp: number,
+  lostXp: number
+): { level: number; xp: number; xpGoal: number } => {
+  let nextLevel = level;
+  let nextXp = xp - lostXp;
 
-const normalizeDateKey = (value: string | null | undefined, fallback: string): string => {
-  if (typeof value !== 'string') {
-    return fallback;
+  while (nextXp < 0 && nextLevel > 1) {
+    nextLevel -= 1;
+    nextXp += nextXpGoal(nextLevel);
   }
-  return isValidDateKey(value) ? value : fallback;
-};
-
-const parseDateKey = (dateKey: string): Date => {
-  const [year, month, day] = dateKey.split('-').map((part) => Number(part));
-  return new Date(year, month - 1, day);
-};
-
-const createDateWithOffset = (base: Date, dayOffset: number): Date => {
-  const next = new Date(base);
-  next.setDate(next.getDate() + dayOffset);
-  return next;
-};
-
-const dayDifference = (from: string, to: string): number => {
-  const fromDate = parseDateKey(from);
-  const toDate = parseDateKey(to);
-  const msPerDay = 24 * 60 * 60 * 1000;
-  return Math.floor((toDate.getTime() - fromDate.getTime()) / msPerDay);
-};
-
-const nextXpGoal = (level: number): number => 60 + (level - 1) * 22;
 
-const resolveQuadrant = (importance: boolean, urgency: boolean): Quadrant => {
-  if (importance && urgency) return 'do';
-  if (importance && !urgency) return 'schedule';
-  if (!importance && urgency) return 'delegate';
-  return 'eliminate';
+  return {
+    level: nextLevel,
+    xp: Math.max(nextXp, 0),
+    xpGoal: nextXpGoal(nextLevel),
+  };
 };
 
 const resolveFlagsByQuadrant = (quadrant: Quadrant): { importance: boolean; urgency: boolean } => {
@@ -192,15 +538,94 @@ const sanitizeDueDate = (
   return dayDifference(startDate, normalized) >= 0 ? normalized : startDate;
 };
 
-const makeTodo = (input: AddTodoInput): TodoItem => {
+const MAX_SUBTASKS = 20;
+const MAX_TAGS = 12;
+const MAX_TAG_NAME_LENGTH = 16;
+const SUBTASK_XP_SHARE = 0.5;
+const MAX_REMINDER_LEAD_MINUTES = 7 * 24 * 60;
+const MAX_DIGEST_PREVIEW = 10;
+const DEFAULT_JOURNAL_RETENTION_DAYS = 365;
+const DEFAULT_STALE_ARCHIVE_DAYS = 5;
+const STARTER_PET_ID = 'pet-starter';
+const OVERDUE_HAPPINESS_PENALTY = 2;
+const MAX_OVERDUE_HAPPINESS_PENALTY = 12;
+
+const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  morningTime: null,
+  eveningTime: null,
+  previewLimit: 4,
+};
+
+const normalizeReminder = (value: unknown): TodoReminder | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const reminder = value as Partial<Record<keyof TodoReminder, unknown>>;
+  if (typeof reminder.time !== 'string' || !isValidTimeKey(reminder.time)) {
+    return null;
+  }
+  const leadMinutes =
+    typeof reminder.leadMinutes === 'number' && Number.isFinite(reminder.leadMinutes)
+      ? clamp(Math.round(reminder.leadMinutes), 0, MAX_REMINDER_LEAD_MINUTES)
+      : 0;
+  return { time: reminder.time, leadMinutes };
+};
+
+const normalizeDigestSettings = (value: unknown, base: DigestSettings): DigestSettings => {
+  if (!value || typeof value !== 'object') {
+    return base;
+  }
+  const settings = value as Partial<Record<keyof DigestSettings, unknown>>;
+  const timeOrBase = (next: unknown, fallback: string | null): string | null => {
+    if (next === null) return null;
+    return typeof next === 'string' && isValidTimeKey(next) ? next : fallback;
+  };
+  return {
+    morningTime: timeOrBase(settings.morningTime, base.morningTime),
+    eveningTime: timeOrBase(settings.eveningTime, base.eveningTime),
+    previewLimit:
+      typeof settings.previewLimit === 'number' && Number.isFinite(settings.previewLimit)
+        ? clamp(Math.round(settings.previewLimit), 1, MAX_DIGEST_PREVIEW)
+        : base.previewLimit,
+  };
+};
+
+const createId = (): string => `${Date.now()}-${Math.random().toString(16).slice(2, 8)}`;
+
+const makeSubtask = (title: string): SubtaskItem => ({
+  id: `sub-${createId()}`,
+  title,
+  done: false,
+  xpAwarded: 0,
+  coinsAwarded: 0,
+});
+
+const makeSubtasks = (titles: string[] | undefined): SubtaskItem[] =>
+  (titles ?? [])
+    .map((title) => title.trim())
+    .filter((title) => title.length > 0)
+    .slice(0, MAX_SUBTASKS)
+    .map(makeSubtask);
+
+const normalizeTagIds = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((id): id is string => typeof id === 'string')))
+    : [];
+
+// Checklist steps share half of the parent's XP; the parent still pays its full reward on completion.
+const subtaskXp = (todo: Pick<TodoItem, 'rewardXp' | 'subtasks'>): number =>
+  Math.max(1, Math.round((todo.rewardXp * SUBTASK_XP_SHARE) / Math.max(todo.subtasks.length, 1)));
+
+const makeTodo = (input: AddTodoInput, seriesId: string | null = null): TodoItem => {
   const today = toDateKey();
   const startDate = normalizeDateKey(input.startDate, today);
   const dueDateMode = input.dueDateMode ?? 'date';
 
   return {
-    id: `${Date.now()}-${Math.random().toString(16).slice(2, 8)}`,
+    id: createId(),
     title: input.title,
     startDate,
+    ...normalizeTimeRange(input.startTime, input.endTime),
     dueDateMode,
     dueDate: sanitizeDueDate(dueDateMode, input.dueDate, startDate),
     importance: input.importance ?? true,
@@ -209,9 +634,185 @@ const makeTodo = (input: AddTodoInput): TodoItem => {
     rewardCoins: input.rewardCoins ?? 18,
     rewardXp: input.rewardXp ?? 16,
     createdAt: Date.now(),
+    seriesId,
+    reminder: normalizeReminder(input.reminder),
+    subtasks: makeSubtasks(input.subtasks),
+    tagIds: normalizeTagIds(input.tagIds),
+  };
+};
+
+const makeRecurringTodo = (input: AddTodoInput, repeat: RepeatRule): RecurringTodo => ({
+  id: `series-${createId()}`,
+  title: input.title,
+  repeat,
+  anchorDate: normalizeDateKey(input.startDate, toDateKey()),
+  ...normalizeTimeRange(input.startTime, input.endTime),
+  importance: input.importance ?? true,
+  urgency: input.urgency ?? true,
+  rewardCoins: input.rewardCoins ?? 18,
+  rewardXp: input.rewardXp ?? 16,
+  reminder: normalizeReminder(input.reminder),
+  tagIds: normalizeTagIds(input.tagIds),
+  createdAt: Date.now(),
+  lastGeneratedDate: null,
+  lastCompletedOccurrence: null,
+  streak: 0,
+});
+
+const makeSeriesInstance = (series: RecurringTodo, dateKey: string): TodoItem =>
+  makeTodo(
+    {
+      title: series.title,
+      startDate: dateKey,
+      startTime: series.startTime,
+      endTime: series.endTime,
+      dueDateMode: 'date',
+      dueDate: dateKey,
+      importance: series.importance,
+      urgency: series.urgency,
+      rewardCoins: series.rewardCoins,
+      rewardXp: series.rewardXp,
+      reminder: series.reminder,
+      tagIds: series.tagIds,
+    },
+    series.id
+  );
+
+// Creates today's instance for every series due today. Open instances from earlier
+// occurrences are superseded, and a series whose last occurrence was missed loses its streak.
+const expandRecurringTodos = (
+  recurringTodos: RecurringTodo[],
+  todos: TodoItem[],
+  today: string
+): { recurringTodos: RecurringTodo[]; todos: TodoItem[] } => {
+  const created: TodoItem[] = [];
+  const supersededSeries = new Set<string>();
+
+  const nextRecurring = recurringTodos.map((series) => {
+    if (series.lastGeneratedDate === today || !occursOn(series.repeat, series.anchorDate, today)) {
+      return series;
+    }
+
+    created.push(makeSeriesInstance(series, today));
+    supersededSeries.add(series.id);
+    const previous = previousOccurrence(series.repeat, series.anchorDate, today);
+    return {
+      ...series,
+      lastGeneratedDate: today,
+      streak: previous && series.lastCompletedOccurrence === previous ? series.streak : 0,
+    };
+  });
+
+  if (created.length === 0) {
+    return { recurringTodos, todos };
+  }
+
+  const remaining = todos.filter(
+    (todo) =>
+      todo.done ||
+      !todo.seriesId ||
+      !supersededSeries.has(todo.seriesId) ||
+      dayDifference(todo.startDate, today) <= 0
+  );
+
+  return {
+    recurringTodos: nextRecurring,
+    todos: [...created, ...remaining],
+  };
+};
+
+const applyTodoPatch = (todo: TodoItem, patch: TodoPatch): TodoItem => {
+  const title = typeof patch.title === 'string' ? patch.title.trim() : '';
+  const startDate = normalizeDateKey(patch.startDate, todo.startDate);
+  const dueDateMode = patch.dueDateMode ?? todo.dueDateMode;
+  // Rewards of a completed todo were already paid out, so they stay frozen.
+  const rewardOrCurrent = (value: number | undefined, current: number): number =>
+    !todo.done && typeof value === 'number' && Number.isFinite(value)
+      ? Math.max(0, Math.round(value))
+      : current;
+
+  return {
+    ...todo,
+    title: title || todo.title,
+    startDate,
+    ...normalizeTimeRange(
+      patch.startTime !== undefined ? patch.startTime : todo.startTime,
+      patch.endTime !== undefined ? patch.endTime : todo.endTime
+    ),
+    dueDateMode,
+    dueDate: sanitizeDueDate(
+      dueDateMode,
+      patch.dueDate !== undefined ? patch.dueDate : todo.dueDate,
+      startDate
+    ),
+    importance: patch.importance ?? todo.importance,
+    urgency: patch.urgency ?? todo.urgency,
+    rewardCoins: rewardOrCurrent(patch.rewardCoins, todo.rewardCoins),
+    rewardXp: rewardOrCurrent(patch.rewardXp, todo.rewardXp),
+    reminder: patch.reminder !== undefined ? normalizeReminder(patch.reminder) : todo.reminder,
+    tagIds: patch.tagIds !== undefined ? normalizeTagIds(patch.tagIds) : todo.tagIds,
   };
 };
 
+const normalizeCompletionReceipt = (value: unknown): CompletionReceipt | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const receipt = value as Partial<Record<keyof CompletionReceipt, unknown>>;
+  if (typeof receipt.dateKey !== 'string' || !isValidDateKey(receipt.dateKey)) {
+    return undefined;
+  }
+
+  const numberOr = (next: unknown, fallback: number): number =>
+    typeof next === 'number' && Number.isFinite(next) ? next : fallback;
+  const optionalDateKey = (next: unknown): string | null =>
+    typeof next === 'string' && isValidDateKey(next) ? next : null;
+
+  return {
+    dateKey: receipt.dateKey,
+    coins: numberOr(receipt.coins, 0),
+    xp: numberOr(receipt.xp, 0),
+    happiness: numberOr(receipt.happiness, 0),
+    energy: numberOr(receipt.energy, 0),
+    habitatTierBefore: numberOr(receipt.habitatTierBefore, 1),
+    streakBefore: numberOr(receipt.streakBefore, 0),
+    bestStreakBefore:
+      typeof receipt.bestStreakBefore === 'number' ? receipt.bestStreakBefore : null,
+    petId: typeof receipt.petId === 'string' ? receipt.petId : null,
+    lastCompletedDateBefore: optionalDateKey(receipt.lastCompletedDateBefore),
+    seriesStreakBefore:
+      typeof receipt.seriesStreakBefore === 'number' ? receipt.seriesStreakBefore : null,
+    seriesLastCompletedBefore: optionalDateKey(receipt.seriesLastCompletedBefore),
+    streakFreezesBefore:
+      typeof receipt.streakFreezesBefore === 'number' ? receipt.streakFreezesBefore : null,
+    achievementIds: Array.isArray(receipt.achievementIds)
+      ? (receipt.achievementIds as unknown[]).filter(
+          (achievementId): achievementId is AchievementId =>
+            ACHIEVEMENTS.some((achievement) => achievement.id === achievementId)
+        )
+      : [],
+    achievementCoins: numberOr(receipt.achievementCoins, 0),
+    subtaskId: typeof receipt.subtaskId === 'string' ? receipt.subtaskId : null,
+  };
+};
+
+const normalizePersistedSubtasks = (value: unknown): SubtaskItem[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .filter((entry) => typeof entry.title === 'string' && entry.title.trim().length > 0)
+    .slice(0, MAX_SUBTASKS)
+    .map((entry, index) => ({
+      id: typeof entry.id === 'string' ? entry.id : `sub-legacy-${index}-${Date.now()}`,
+      title: entry.title as string,
+      done: Boolean(entry.done),
+      xpAwarded: typeof entry.xpAwarded === 'number' ? Math.max(0, entry.xpAwarded) : 0,
+      coinsAwarded: typeof entry.coinsAwarded === 'number' ? Math.max(0, entry.coinsAwarded) : 0,
+    }));
+};
+
 const normalizePersistedTodo = (todo: PersistedTodo, index: number): TodoItem => {
   const today = toDateKey();
   const fallbackDue = normalizeDateKey(
@@ -234,6 +835,7 @@ const normalizePersistedTodo = (todo: PersistedTodo, index: number): TodoItem =>
     id: typeof todo.id === 'string' ? todo.id : `legacy-${index}-${Date.now()}`,
     title: typeof todo.title === 'string' ? todo.title : '이전 할 일',
     startDate,
+    ...normalizeTimeRange(todo.startTime, todo.endTime),
     dueDateMode,
     dueDate: sanitizeDueDate(
       dueDateMode,
@@ -247,225 +849,1569 @@ const normalizePersistedTodo = (todo: PersistedTodo, index: number): TodoItem =>
     rewardXp: typeof todo.rewardXp === 'number' ? todo.rewardXp : 16,
     createdAt: typeof todo.createdAt === 'number' ? todo.createdAt : Date.now(),
     completedAt: typeof todo.completedAt === 'number' ? todo.completedAt : undefined,
+    completionReceipt: todo.done ? normalizeCompletionReceipt(todo.completionReceipt) : undefined,
+    seriesId: typeof todo.seriesId === 'string' ? todo.seriesId : null,
+    reminder: normalizeReminder(todo.reminder),
+    subtasks: normalizePersistedSubtasks(todo.subtasks),
+    tagIds: normalizeTagIds(todo.tagIds),
   };
 };
 
-export const getRecentDateKeys = (days: number): string[] => {
-  const today = new Date();
-  const result: string[] = [];
-  for (let i = days - 1; i >= 0; i -= 1) {
-    result.push(toDateKey(createDateWithOffset(today, -i)));
+const normalizePersistedTags = (value: unknown): TodoTag[] => {
+  if (!Array.isArray(value)) {
+    return [];
   }
-  return result;
+  const seen = new Set<string>();
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .filter((entry) => typeof entry.id === 'string' && typeof entry.name === 'string')
+    .filter((entry) => {
+      if (seen.has(entry.id as string)) return false;
+      seen.add(entry.id as string);
+      return true;
+    })
+    .slice(0, MAX_TAGS)
+    .map((entry) => ({
+      id: entry.id as string,
+      name: (entry.name as string).slice(0, MAX_TAG_NAME_LENGTH),
+      color: typeof entry.color === 'string' ? entry.color : '#9aa096',
+    }));
 };
 
-export const getTodoQuadrant = (todo: Pick<TodoItem, 'importance' | 'urgency'>): Quadrant =>
-  resolveQuadrant(todo.importance, todo.urgency);
+const normalizePersistedRecurringTodo = (
+  series: PersistedRecurringTodo,
+  index: number
+): RecurringTodo | null => {
+  const repeat = normalizeRepeatRule(series.repeat);
+  if (!repeat) {
+    return null;
+  }
 
-export const usePetLoopStore = create<PetLoopState>()(
-  persist(
-    (set, get) => ({
-      petName: '콩콩이',
-      creature: 'chick',
-      level: 1,
-      xp: 0,
-      xpGoal: nextXpGoal(1),
-      coins: 40,
-      happiness: 72,
-      energy: 76,
-      habitatTier: 1,
-      streak: 0,
-      todos: [],
-      purchasedDecorations: [],
-      completionLog: {},
-      lastCompletedDate: null,
-      lastActiveDate: toDateKey(),
+  const optionalDateKey = (value: unknown): string | null =>
+    typeof value === 'string' && isValidDateKey(value) ? value : null;
 
-      addTodo: (input) => {
-        const trimmed = input.title.trim();
-        if (!trimmed) {
-          return;
-        }
+  return {
+    id: typeof series.id === 'string' ? series.id : `series-legacy-${index}-${Date.now()}`,
+    title: typeof series.title === 'string' ? series.title : '반복 할 일',
+    repeat,
+    anchorDate: normalizeDateKey(
+      typeof series.anchorDate === 'string' ? series.anchorDate : null,
+      toDateKey()
+    ),
+    ...normalizeTimeRange(series.startTime, series.endTime),
+    importance: typeof series.importance === 'boolean' ? series.importance : true,
+    urgency: typeof series.urgency === 'boolean' ? series.urgency : true,
+    rewardCoins: typeof series.rewardCoins === 'number' ? series.rewardCoins : 18,
+    rewardXp: typeof series.rewardXp === 'number' ? series.rewardXp : 16,
+    reminder: normalizeReminder(series.reminder),
+    tagIds: normalizeTagIds(series.tagIds),
+    createdAt: typeof series.createdAt === 'number' ? series.createdAt : Date.now(),
+    lastGeneratedDate: optionalDateKey(series.lastGeneratedDate),
+    lastCompletedOccurrence: optionalDateKey(series.lastCompletedOccurrence),
+    streak: typeof series.streak === 'number' ? Math.max(0, series.streak) : 0,
+  };
+};
 
-        set((state) => ({
-          todos: [makeTodo({ ...input, title: trimmed }), ...state.todos],
-        }));
-      },
+const QUADRANTS: Quadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
 
-      completeTodo: (id) => {
-        set((state) => {
-          const target = state.todos.find((todo) => todo.id === id);
-          if (!target || target.done) {
-            return state;
-          }
+const normalizePersistedJournal = (value: unknown): CompletionJournalEntry[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const numberOr = (next: unknown, fallback: number): number =>
+    typeof next === 'number' && Number.isFinite(next) ? next : fallback;
 
-          const now = Date.now();
-          const today = toDateKey(new Date());
-          const yesterday = toDateKey(createDateWithOffset(new Date(), -1));
-          const growth = calculateGrowth(state.level, state.xp, state.xpGoal, target.rewardXp);
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .filter(
+      (entry) =>
+        typeof entry.todoId === 'string' &&
+        typeof entry.completedAt === 'number' &&
+        Number.isFinite(entry.completedAt)
+    )
+    .map((entry, index) => {
+      const completedAt = entry.completedAt as number;
+      return {
+        id: typeof entry.id === 'string' ? entry.id : `done-legacy-${index}-${completedAt}`,
+        todoId: entry.todoId as string,
+        title: typeof entry.title === 'string' ? entry.title : '이전 할 일',
+        quadrant: QUADRANTS.includes(entry.quadrant as Quadrant) ? (entry.quadrant as Quadrant) : 'do',
+        tagIds: normalizeTagIds(entry.tagIds),
+        dueDate:
+          typeof entry.dueDate === 'string' && isValidDateKey(entry.dueDate) ? entry.dueDate : null,
+        coins: numberOr(entry.coins, 0),
+        xp: numberOr(entry.xp, 0),
+        dateKey:
+          typeof entry.dateKey === 'string' && isValidDateKey(entry.dateKey)
+            ? entry.dateKey
+            : toDateKey(new Date(completedAt)),
+        completedAt,
+      };
+    });
+};
 
-          const updatedTodos = state.todos.map((todo) =>
-            todo.id === id
-              ? {
-                  ...todo,
-                  done: true,
-                  completedAt: now,
-                }
-              : todo
-          );
+export const PET_LOOP_STORAGE_KEY = 'pet-loop-storage';
+export const PET_LOOP_SCHEMA_VERSION = 22;
 
-          const completedCountToday = (state.completionLog[today] ?? 0) + 1;
-          const nextCompletionLog = {
-            ...state.completionLog,
-            [today]: completedCountToday,
-          };
+type PersistedRecord = Record<string, unknown>;
 
-          let nextStreak = state.streak;
-          let nextCompletedDate = state.lastCompletedDate;
-          if (state.lastCompletedDate !== today) {
-            if (state.lastCompletedDate === yesterday) {
-              nextStreak = state.streak + 1;
-            } else {
-              nextStreak = 1;
-            }
-            nextCompletedDate = today;
-          }
+const mapPersistedRecords = (
+  value: unknown,
+  update: (entry: PersistedRecord) => PersistedRecord
+): unknown =>
+  Array.isArray(value)
+    ? value.map((entry) =>
+        entry && typeof entry === 'object' ? update(entry as PersistedRecord) : entry
+      )
+    : value;
 
-          return {
-            todos: updatedTodos,
-            level: growth.level,
-            xp: growth.xp,
-            xpGoal: growth.xpGoal,
-            coins: state.coins + target.rewardCoins + growth.levelUpCoins,
-            happiness: clamp(state.happiness + 7, 0, MAX_STAT),
-            energy: clamp(state.energy - 4, 0, MAX_STAT),
-            habitatTier: Math.max(state.habitatTier, Math.floor((growth.level + 1) / 3)),
-            completionLog: nextCompletionLog,
-            streak: nextStreak,
-            lastCompletedDate: nextCompletedDate,
-            lastActiveDate: today,
-          };
-        });
-      },
+// Each step upgrades a blob written at `version - 1` to `version`.
+const PET_LOOP_MIGRATIONS: Record<number, (state: PersistedRecord) => PersistedRecord> = {
+  // v2: todos gained a start date, a due-date mode and explicit priority flags.
+  2: (state) => ({
+    ...state,
+    todos: mapPersistedRecords(state.todos, (todo) => ({
+      dueDateMode: 'date',
+      importance: true,
+      urgency: true,
+      ...todo,
+      startDate: typeof todo.startDate === 'string' ? todo.startDate : todo.dueDate,
+    })),
+  }),
+  // v3: recurring series.
+  3: (state) => ({
+    ...state,
+    recurringTodos: Array.isArray(state.recurringTodos) ? state.recurringTodos : [],
+    todos: mapPersistedRecords(state.todos, (todo) => ({ seriesId: null, ...todo })),
+  }),
+  // v4: per-todo reminders.
+  4: (state) => ({
+    ...state,
+    todos: mapPersistedRecords(state.todos, (todo) => ({ reminder: null, ...todo })),
+    recurringTodos: mapPersistedRecords(state.recurringTodos, (series) => ({
+      reminder: null,
+      ...series,
+    })),
+  }),
+  // v5: lockscreen digest schedule.
+  5: (state) => ({
+    ...state,
+    digestSettings: state.digestSettings ?? DEFAULT_DIGEST_SETTINGS,
+  }),
+  // v6: completion receipts. Older completions have none and cannot be rolled back.
+  6: (state) => ({
+    ...state,
+    todos: mapPersistedRecords(state.todos, ({ completionReceipt: _receipt, ...todo }) => todo),
+  }),
+  // v7: subtask checklists.
+  7: (state) => ({
+    ...state,
+    todos: mapPersistedRecords(state.todos, (todo) => ({ subtasks: [], ...todo })),
+  }),
+  // v8: tags.
+  8: (state) => ({
+    ...state,
+    tags: Array.isArray(state.tags) ? state.tags : [],
+    todos: mapPersistedRecords(state.todos, (todo) => ({ tagIds: [], ...todo })),
+    recurringTodos: mapPersistedRecords(state.recurringTodos, (series) => ({
+      tagIds: [],
+      ...series,
+    })),
+  }),
+  // v9: completion journal, backfilled from finished todos that are still stored.
+  9: (state) => ({
+    ...state,
+    journalRetentionDays: DEFAULT_JOURNAL_RETENTION_DAYS,
+    completionJournal: Array.isArray(state.todos)
+      ? (state.todos as PersistedRecord[])
+          .filter((todo) => todo && todo.done && typeof todo.completedAt === 'number')
+          .map((todo) => ({
+            id: `done-legacy-${todo.id}`,
+            todoId: todo.id,
+            title: todo.title,
+            quadrant: resolveQuadrant(todo.importance !== false, todo.urgency !== false),
+            tagIds: todo.tagIds,
+            dueDate: todo.dueDateMode === 'date' ? todo.dueDate : null,
+            coins: todo.rewardCoins,
+            xp: todo.rewardXp,
+            dateKey: toDateKey(new Date(todo.completedAt as number)),
+            completedAt: todo.completedAt,
+          }))
+          .sort((a, b) => (a.completedAt as number) - (b.completedAt as number))
+      : [],
+  }),
+  // v10: best streak, recovered from the per-day completion counts.
+  10: (state) => {
+    const completionLog =
+      state.completionLog && typeof state.completionLog === 'object'
+        ? (state.completionLog as Record<string, number>)
+        : {};
+    const streak = typeof state.streak === 'number' ? state.streak : 0;
+    return { ...state, bestStreak: Math.max(streak, getLongestStreak(completionLog)) };
+  },
+  // v11: stale todos move to an archive instead of being deleted.
+  11: (state) => ({
+    ...state,
+    archivedTodos: Array.isArray(state.archivedTodos) ? state.archivedTodos : [],
+    staleArchiveDays: DEFAULT_STALE_ARCHIVE_DAYS,
+  }),
+  // v12: roll-over prompt for yesterday's unfinished todos.
+  12: (state) => ({ ...state, pendingRollover: null }),
+  // v13: pet collection. The single legacy pet becomes the starter entry.
+  13: (state) => ({ ...state, pets: [], activePetId: STARTER_PET_ID }),
+  // v14: care history drives evolution stages. Existing pets are credited enough care to
+  // keep the stage their level already shows.
+  14: (state) => {
+    const careFor = (level: unknown) => getCareCountForLevel(typeof level === 'number' ? level : 1);
+    return {
+      ...state,
+      careCount: careFor(state.level),
+      pets: mapPersistedRecords(state.pets, (pet) => ({ ...pet, careCount: careFor(pet.level) })),
+    };
+  },
+  // v15: needs decay continuously; hunger and cleanliness join energy and happiness.
+  15: (state) => ({
+    ...state,
+    hunger: DEFAULT_NEED_LEVEL,
+    cleanliness: DEFAULT_NEED_LEVEL,
+    needsClock: createNeedsClock(Date.now()),
+  }),
+  // v16: decorations can be placed in the habitat. Everything already owned starts out placed.
+  16: (state) => ({
+    ...state,
+    placedDecorations: Array.isArray(state.purchasedDecorations)
+      ? (state.purchasedDecorations as unknown[]).map((id, index) => ({
+          id,
+          x: 0.2 + (index % 3) * 0.3,
+          y: 0.75,
+        }))
+      : [],
+  }),
+  // v17: feed/play became consumable items; existing players get the starter bag.
+  17: (state) => ({ ...state, inventory: { ...STARTER_INVENTORY } }),
+  // v18: achievements. Progress made before the upgrade is awarded after hydration.
+  18: (state) => ({ ...state, unlockedAchievements: [] }),
+  // v19: streak freezes and vacation mode.
+  19: (state) => ({
+    ...state,
+    streakFreezes: 0,
+    streakCoveredThrough: null,
+    frozenDates: [],
+    vacation: null,
+  }),
+  // v20: focus timer.
+  20: (state) => ({
+    ...state,
+    focusSettings: DEFAULT_FOCUS_SETTINGS,
+    activeFocus: null,
+    focusLog: [],
+  }),
+  // v21: optional start/end times. Everything already saved is all-day.
+  21: (state) => ({
+    ...state,
+    todos: mapPersistedRecords(state.todos, (todo) => ({
+      startTime: null,
+      endTime: null,
+      ...todo,
+    })),
+    recurringTodos: mapPersistedRecords(state.recurringTodos, (series) => ({
+      startTime: null,
+      endTime: null,
+      ...series,
+    })),
+  }),
+  // v22: need alerts became opt-in. Players who already had them keep them.
+  22: (state) => ({ ...state, needAlertsEnabled: true }),
+};
 
-      removeTodo: (id) => {
-        set((state) => ({
-          todos: state.todos.filter((todo) => todo.id !== id),
-        }));
-      },
+const CREATURE_TYPES = Object.keys(PET_UNLOCK_RULES) as CreatureType[];
 
-      setTodoPriority: (id, priority) => {
-        set((state) => ({
-          todos: state.todos.map((todo) =>
-            todo.id === id
-              ? {
-                  ...todo,
-                  importance: priority.importance ?? todo.importance,
-                  urgency: priority.urgency ?? todo.urgency,
-                }
-              : todo
-          ),
-        }));
-      },
+// Rebuilds the active pet from the top-level stats, which are always the freshest copy.
+const normalizePersistedPets = (
+  state: PersistedPetLoopData
+): Pick<PetLoopState, 'pets' | 'activePetId' | 'creature' | 'petName' | 'careCount'> => {
+  const numberOr = (next: unknown, fallback: number): number =>
+    typeof next === 'number' && Number.isFinite(next) ? next : fallback;
+  const creature = CREATURE_TYPES.includes(state.creature as CreatureType)
+    ? (state.creature as CreatureType)
+    : STARTER_CREATURE;
+  const petName = typeof state.petName === 'string' ? state.petName : DEFAULT_PET_NAMES[creature];
+  const careCount = Math.max(Math.round(numberOr(state.careCount, 0)), 0);
 
-      setTodoQuadrant: (id, quadrant) => {
-        const flags = resolveFlagsByQuadrant(quadrant);
-        set((state) => ({
-          todos: state.todos.map((todo) =>
-            todo.id === id
-              ? {
-                  ...todo,
-                  ...flags,
-                }
-              : todo
-          ),
-        }));
-      },
+  const stored: PetProfile[] = Array.isArray(state.pets)
+    ? (state.pets as unknown[])
+        .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+        .filter(
+          (entry) =>
+            typeof entry.id === 'string' &&
+            CREATURE_TYPES.includes(entry.creature as CreatureType)
+        )
+        .map((entry) => {
+          const level = Math.max(Math.round(numberOr(entry.level, 1)), 1);
+          return {
+            id: entry.id as string,
+            creature: entry.creature as CreatureType,
+            name:
+              typeof entry.name === 'string'
+                ? entry.name
+                : DEFAULT_PET_NAMES[entry.creature as CreatureType],
+            level,
+            xp: Math.max(numberOr(entry.xp, 0), 0),
+            xpGoal: numberOr(entry.xpGoal, nextXpGoal(level)),
+            happiness: clamp(numberOr(entry.happiness, 72), 0, MAX_STAT),
+            energy: clamp(numberOr(entry.energy, 76), 0, MAX_STAT),
+            hunger: clamp(numberOr(entry.hunger, DEFAULT_NEED_LEVEL), 0, MAX_STAT),
+            cleanliness: clamp(numberOr(entry.cleanliness, DEFAULT_NEED_LEVEL), 0, MAX_STAT),
+            careCount: Math.max(Math.round(numberOr(entry.careCount, 0)), 0),
+            adoptedAt: numberOr(entry.adoptedAt, Date.now()),
+          };
+        })
+    : [];
 
-      runDailyTick: () => {
-        set((state) => {
-          const today = toDateKey(new Date());
-          if (state.lastActiveDate === today) {
-            return state;
-          }
+  const activeId =
+    typeof state.activePetId === 'string' && stored.some((pet) => pet.id === state.activePetId)
+      ? state.activePetId
+      : STARTER_PET_ID;
+  const activePet: PetProfile = {
+    id: activeId,
+    creature,
+    name: petName,
+    level: numberOr(state.level, 1),
+    xp: numberOr(state.xp, 0),
+    xpGoal: numberOr(state.xpGoal, nextXpGoal(numberOr(state.level, 1))),
+    happiness: numberOr(state.happiness, 72),
+    energy: numberOr(state.energy, 76),
+    hunger: numberOr(state.hunger, DEFAULT_NEED_LEVEL),
+    cleanliness: numberOr(state.cleanliness, DEFAULT_NEED_LEVEL),
+    careCount,
+    adoptedAt: stored.find((pet) => pet.id === activeId)?.adoptedAt ?? Date.now(),
+  };
 
-          const daysPassed = Math.max(dayDifference(state.lastActiveDate, today), 1);
-          const staleCutoff = toDateKey(createDateWithOffset(new Date(), -5));
-          const trimmedTodos = state.todos.filter((todo) => {
-            if (todo.done) {
-              return true;
-            }
-            if (todo.dueDateMode === 'date' && todo.dueDate) {
-              return dayDifference(todo.dueDate, staleCutoff) <= 0;
-            }
-            if (todo.dueDateMode === 'ongoing') {
-              return true;
-            }
-            return dayDifference(todo.startDate, staleCutoff) <= 0;
-          });
+  return {
+    pets: stored.some((pet) => pet.id === activeId)
+      ? stored.map((pet) => (pet.id === activeId ? activePet : pet))
+      : [activePet, ...stored],
+    activePetId: activeId,
+    creature,
+    petName,
+    careCount,
+  };
+};
 
-          let nextStreak = state.streak;
-          if (state.lastCompletedDate) {
-            const completedGap = dayDifference(state.lastCompletedDate, today);
-            if (completedGap > 1) {
-              nextStreak = 0;
-            }
-          }
+// Clock entries in the future (e.g. after the device time moved back) restart from now.
+const normalizeNeedsClock = (value: unknown, now: number): NeedsClock => {
+  const clock = createNeedsClock(now);
+  if (!value || typeof value !== 'object') {
+    return clock;
+  }
+  const stored = value as Partial<Record<keyof NeedsClock, unknown>>;
+  NEED_KEYS.forEach((need) => {
+    const next = stored[need];
+    if (typeof next === 'number' && Number.isFinite(next) && next <= now) {
+      clock[need] = next;
+    }
+  });
+  return clock;
+};
+
+const normalizeDecorations = (
+  state: PersistedPetLoopData
+): Pick<PetLoopState, 'purchasedDecorations' | 'placedDecorations'> => {
+  const purchased = Array.isArray(state.purchasedDecorations)
+    ? (state.purchasedDecorations as unknown[]).filter(
+        (id, index, list): id is DecorationId =>
+          typeof id === 'string' &&
+          Boolean(getDecoration(id as DecorationId)) &&
+          list.indexOf(id) === index
+      )
+    : [];
+  const placed = Array.isArray(state.placedDecorations)
+    ? (state.placedDecorations as unknown[])
+        .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+        .filter((entry) => purchased.includes(entry.id as DecorationId))
+        .filter((entry, index, list) => list.findIndex((other) => other.id === entry.id) === index)
+        .map((entry) => ({
+          id: entry.id as DecorationId,
+          x: clamp(typeof entry.x === 'number' ? entry.x : 0.5, 0, 1),
+          y: clamp(typeof entry.y === 'number' ? entry.y : 0.5, 0, 1),
+        }))
+    : [];
+  return { purchasedDecorations: purchased, placedDecorations: placed };
+};
+
+const normalizeInventory = (value: unknown): Inventory => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const stored = value as Record<string, unknown>;
+  const inventory: Inventory = {};
+  PET_ITEMS.forEach((item) => {
+    const count = stored[item.id];
+    if (typeof count === 'number' && Number.isFinite(count) && count >= 1) {
+      inventory[item.id] = Math.min(Math.floor(count), MAX_ITEM_STACK);
+    }
+  });
+  return inventory;
+};
+
+const normalizeUnlockedAchievements = (value: unknown): UnlockedAchievement[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const knownIds = ACHIEVEMENTS.map((achievement) => achievement.id);
+  return (value as unknown[])
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .filter((entry) => knownIds.includes(entry.id as AchievementId))
+    .filter((entry, index, list) => list.findIndex((other) => other.id === entry.id) === index)
+    .map((entry) => ({
+      id: entry.id as AchievementId,
+      unlockedAt: typeof entry.unlockedAt === 'number' ? entry.unlockedAt : Date.now(),
+    }));
+};
+
+const normalizeVacation = (value: unknown): VacationRange | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const range = value as Record<string, unknown>;
+  if (typeof range.start !== 'string' || typeof range.end !== 'string') {
+    return null;
+  }
+  const vacation = { start: range.start, end: range.end };
+  return isValidVacation(vacation) ? vacation : null;
+};
+
+const focusMinutesOr = (
+  value: unknown,
+  range: { min: number; max: number },
+  fallback: number
+): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? clamp(Math.round(value), range.min, range.max)
+    : fallback;
+
+const normalizeFocusSettings = (value: unknown): FocusSettings => {
+  const settings = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return {
+    workMinutes: focusMinutesOr(
+      settings.workMinutes,
+      FOCUS_WORK_RANGE,
+      DEFAULT_FOCUS_SETTINGS.workMinutes
+    ),
+    breakMinutes: focusMinutesOr(
+      settings.breakMinutes,
+      FOCUS_BREAK_RANGE,
+      DEFAULT_FOCUS_SETTINGS.breakMinutes
+    ),
+  };
+};
+
+const normalizeFocusSession = (value: unknown): FocusSession | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const session = value as Record<string, unknown>;
+  if (
+    typeof session.todoId !== 'string' ||
+    (session.phase !== 'work' && session.phase !== 'break') ||
+    typeof session.startedAt !== 'number' ||
+    typeof session.endsAt !== 'number'
+  ) {
+    return null;
+  }
+  return {
+    todoId: session.todoId,
+    phase: session.phase,
+    startedAt: session.startedAt,
+    endsAt: session.endsAt,
+    ...normalizeFocusSettings(session),
+  };
+};
+
+const normalizeFocusLog = (value: unknown): FocusLogEntry[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return (value as unknown[])
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .filter(
+      (entry) =>
+        typeof entry.id === 'string' &&
+        typeof entry.todoId === 'string' &&
+        typeof entry.dateKey === 'string' &&
+        isValidDateKey(entry.dateKey) &&
+        typeof entry.workMinutes === 'number' &&
+        typeof entry.xp === 'number' &&
+        typeof entry.completedAt === 'number'
+    )
+    .map((entry) => ({
+      id: entry.id as string,
+      todoId: entry.todoId as string,
+      dateKey: entry.dateKey as string,
+      workMinutes: entry.workMinutes as number,
+      xp: entry.xp as number,
+      completedAt: entry.completedAt as number,
+    }))
+    .slice(-MAX_FOCUS_LOG_ENTRIES);
+};
+
+const normalizePendingRollover = (value: unknown): RolloverPrompt | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const prompt = value as Record<string, unknown>;
+  if (typeof prompt.fromDate !== 'string' || !isValidDateKey(prompt.fromDate)) {
+    return null;
+  }
+  const todoIds = Array.isArray(prompt.todoIds)
+    ? prompt.todoIds.filter((id): id is string => typeof id === 'string')
+    : [];
+  return todoIds.length > 0 ? { fromDate: prompt.fromDate, todoIds } : null;
+};
+
+const sanitizePersistedState = (state: PersistedPetLoopData): PersistedPetLoopData => {
+  const today = toDateKey();
+  const journalRetentionDays =
+    state.journalRetentionDays === null
+      ? null
+      : typeof state.journalRetentionDays === 'number' && state.journalRetentionDays >= 1
+        ? Math.round(state.journalRetentionDays)
+        : DEFAULT_JOURNAL_RETENTION_DAYS;
+  const tags = normalizePersistedTags(state.tags);
+  const tagIdSet = new Set(tags.map((tag) => tag.id));
+  const keepKnownTags = <T extends { tagIds: string[] }>(item: T): T => ({
+    ...item,
+    tagIds: item.tagIds.filter((id) => tagIdSet.has(id)),
+  });
+
+  return {
+    ...state,
+    tags,
+    todos: Array.isArray(state.todos)
+      ? state.todos.map((todo, index) => keepKnownTags(normalizePersistedTodo(todo, index)))
+      : [],
+    recurringTodos: Array.isArray(state.recurringTodos)
+      ? state.recurringTodos
+          .map((series, index) => normalizePersistedRecurringTodo(series, index))
+          .filter((series): series is RecurringTodo => series !== null)
+          .map(keepKnownTags)
+      : [],
+    lastActiveDate: normalizeDateKey(
+      typeof state.lastActiveDate === 'string' ? state.lastActiveDate : null,
+      today
+    ),
+    lastCompletedDate:
+      typeof state.lastCompletedDate === 'string' && isValidDateKey(state.lastCompletedDate)
+        ? state.lastCompletedDate
+        : null,
+    digestSettings: normalizeDigestSettings(state.digestSettings, DEFAULT_DIGEST_SETTINGS),
+    needAlertsEnabled: state.needAlertsEnabled === true,
+    archivedTodos: Array.isArray(state.archivedTodos)
+      ? (state.archivedTodos as unknown[])
+          .filter(
+            (entry): entry is { todo: PersistedTodo; archivedAt: unknown } =>
+              Boolean(entry) &&
+              typeof entry === 'object' &&
+              Boolean((entry as Record<string, unknown>).todo)
+          )
+          .map((entry, index) => ({
+            todo: keepKnownTags(normalizePersistedTodo(entry.todo, index)),
+            archivedAt: typeof entry.archivedAt === 'number' ? entry.archivedAt : Date.now(),
+          }))
+      : [],
+    staleArchiveDays:
+      state.staleArchiveDays === null
+        ? null
+        : typeof state.staleArchiveDays === 'number' && state.staleArchiveDays >= 1
+          ? Math.round(state.staleArchiveDays)
+          : DEFAULT_STALE_ARCHIVE_DAYS,
+    pendingRollover: normalizePendingRollover(state.pendingRollover),
+    ...normalizePersistedPets(state),
+    hunger: clamp(
+      typeof state.hunger === 'number' ? state.hunger : DEFAULT_NEED_LEVEL,
+      0,
+      MAX_STAT
+    ),
+    cleanliness: clamp(
+      typeof state.cleanliness === 'number' ? state.cleanliness : DEFAULT_NEED_LEVEL,
+      0,
+      MAX_STAT
+    ),
+    needsClock: normalizeNeedsClock(state.needsClock, Date.now()),
+    ...normalizeDecorations(state),
+    inventory: normalizeInventory(state.inventory),
+    unlockedAchievements: normalizeUnlockedAchievements(state.unlockedAchievements),
+    streakFreezes:
+      typeof state.streakFreezes === 'number'
+        ? clamp(Math.floor(state.streakFreezes), 0, MAX_STREAK_FREEZES)
+        : 0,
+    streakCoveredThrough:
+      typeof state.streakCoveredThrough === 'string' && isValidDateKey(state.streakCoveredThrough)
+        ? state.streakCoveredThrough
+        : null,
+    frozenDates: Array.isArray(state.frozenDates)
+      ? (state.frozenDates as unknown[]).filter(
+          (dateKey): dateKey is string => typeof dateKey === 'string' && isValidDateKey(dateKey)
+        )
+      : [],
+    vacation: normalizeVacation(state.vacation),
+    focusSettings: normalizeFocusSettings(state.focusSettings),
+    activeFocus: normalizeFocusSession(state.activeFocus),
+    focusLog: normalizeFocusLog(state.focusLog),
+    bestStreak: Math.max(
+      typeof state.bestStreak === 'number' ? state.bestStreak : 0,
+      typeof state.streak === 'number' ? state.streak : 0
+    ),
+    journalRetentionDays,
+    completionJournal: pruneJournal(
+      normalizePersistedJournal(state.completionJournal),
+      journalRetentionDays,
+      today
+    ),
+  };
+};
+
+export const migratePetLoopState = (
+  persistedState: unknown,
+  fromVersion: number
+): PersistedPetLoopData => {
+  if (!persistedState || typeof persistedState !== 'object' || Array.isArray(persistedState)) {
+    throw new Error('Persisted pet loop state is not an object');
+  }
+
+  let state = persistedState as PersistedRecord;
+  for (let version = fromVersion + 1; version <= PET_LOOP_SCHEMA_VERSION; version += 1) {
+    const step = PET_LOOP_MIGRATIONS[version];
+    if (step) {
+      state = step(state);
+    }
+  }
+  return sanitizePersistedState(state as PersistedPetLoopData);
+};
+
+const applyTodoCompletion = (
+  state: PetLoopState,
+  id: string,
+  subtaskId: string | null = null
+): Partial<PetLoopState> | null => {
+  const target = state.todos.find((todo) => todo.id === id);
+  if (!target || target.done) {
+    return null;
+  }
+
+  const now = Date.now();
+  const today = toDateKey(new Date());
+  const yesterday = toDateKey(createDateWithOffset(new Date(), -1));
+  const growth = calculateGrowth(state.level, state.xp, state.xpGoal, target.rewardXp);
+  const nextHappiness = clamp(state.happiness + 7, 0, MAX_STAT);
+  const nextEnergy = clamp(state.energy - 4, 0, MAX_STAT);
+  const series = target.seriesId
+    ? state.recurringTodos.find((entry) => entry.id === target.seriesId)
+    : undefined;
+
+  const receipt: CompletionReceipt = {
+    dateKey: today,
+    coins: target.rewardCoins + growth.levelUpCoins,
+    xp: target.rewardXp,
+    happiness: nextHappiness - state.happiness,
+    energy: nextEnergy - state.energy,
+    habitatTierBefore: state.habitatTier,
+    streakBefore: state.streak,
+    bestStreakBefore: state.bestStreak,
+    petId: state.activePetId,
+    lastCompletedDateBefore: state.lastCompletedDate,
+    seriesStreakBefore: series ? series.streak : null,
+    seriesLastCompletedBefore: series ? series.lastCompletedOccurrence : null,
+    streakFreezesBefore: state.streakFreezes,
+    achievementIds: [],
+    achievementCoins: 0,
+    subtaskId,
+  };
+
+  const updatedTodos = state.todos.map((todo) =>
+    todo.id === id
+      ? {
+          ...todo,
+          done: true,
+          completedAt: now,
+          completionReceipt: receipt,
+        }
+      : todo
+  );
+
+  const journalEntry: CompletionJournalEntry = {
+    id: `done-${createId()}`,
+    todoId: target.id,
+    title: target.title,
+    quadrant: resolveQuadrant(target.importance, target.urgency),
+    tagIds: target.tagIds,
+    dueDate: target.dueDateMode === 'date' ? target.dueDate : null,
+    coins: receipt.coins,
+    xp: receipt.xp,
+    dateKey: today,
+    completedAt: now,
+  };
+
+  const completedCountToday = (state.completionLog[today] ?? 0) + 1;
+  const nextCompletionLog = {
+    ...state.completionLog,
+    [today]: completedCountToday,
+  };
+
+  let nextStreak = state.streak;
+  let nextCompletedDate = state.lastCompletedDate;
+  if (state.lastCompletedDate !== today) {
+    if (getStreakAnchor(state.lastCompletedDate, state.streakCoveredThrough) === yesterday) {
+      nextStreak = state.streak + 1;
+    } else {
+      nextStreak = 1;
+    }
+    nextCompletedDate = today;
+  }
+
+  const nextRecurringTodos = target.seriesId
+    ? state.recurringTodos.map((series) => {
+        if (series.id !== target.seriesId) {
+          return series;
+        }
+        const previous = previousOccurrence(
+          series.repeat,
+          series.anchorDate,
+          target.startDate
+        );
+        const continued = previous !== null && series.lastCompletedOccurrence === previous;
+        return {
+          ...series,
+          lastCompletedOccurrence: target.startDate,
+          streak: continued ? series.streak + 1 : 1,
+        };
+      })
+    : state.recurringTodos;
+
+  const completed: Partial<PetLoopState> = {
+    todos: updatedTodos,
+    recurringTodos: nextRecurringTodos,
+    level: growth.level,
+    xp: growth.xp,
+    xpGoal: growth.xpGoal,
+    coins: state.coins + receipt.coins,
+    happiness: nextHappiness,
+    energy: nextEnergy,
+    habitatTier: Math.max(state.habitatTier, Math.floor((growth.level + 1) / 3)),
+    completionLog: nextCompletionLog,
+    completionJournal: [...state.completionJournal, journalEntry],
+    streak: nextStreak,
+    bestStreak: Math.max(state.bestStreak, nextStreak),
+    streakFreezes: earnsStreakFreeze(state.streak, nextStreak)
+      ? Math.min(state.streakFreezes + 1, MAX_STREAK_FREEZES)
+      : state.streakFreezes,
+    lastCompletedDate: nextCompletedDate,
+    lastActiveDate: today,
+  };
+
+  // Achievements are settled here rather than afterwards so the receipt can undo them.
+  const award = awardAchievements({ ...state, ...completed }, now);
+  if (!award) {
+    return completed;
+  }
+  return {
+    ...completed,
+    coins: state.coins + receipt.coins + award.coins,
+    unlockedAchievements: award.unlockedAchievements,
+    todos: updatedTodos.map((todo) =>
+      todo.id === id
+        ? {
+            ...todo,
+            completionReceipt: {
+              ...receipt,
+              achievementIds: award.ids,
+              achievementCoins: award.coins,
+            },
+          }
+        : todo
+    ),
+  };
+};
+
+export const getRecentDateKeys = (days: number): string[] => {
+  const today = new Date();
+  const result: string[] = [];
+  for (let i = days - 1; i >= 0; i -= 1) {
+    result.push(toDateKey(createDateWithOffset(today, -i)));
+  }
+  return result;
+};
+
+type PetStatFields = Pick<
+  PetLoopState,
+  | 'petName'
+  | 'creature'
+  | 'level'
+  | 'xp'
+  | 'xpGoal'
+  | 'happiness'
+  | 'energy'
+  | 'hunger'
+  | 'cleanliness'
+  | 'careCount'
+  | 'pets'
+  | 'activePetId'
+>;
+
+// Every owned pet with the active one's live stats folded in.
+export const getPetCollection = (state: PetStatFields): PetProfile[] =>
+  state.pets.map((pet) =>
+    pet.id === state.activePetId
+      ? {
+          ...pet,
+          name: state.petName,
+          creature: state.creature,
+          level: state.level,
+          xp: state.xp,
+          xpGoal: state.xpGoal,
+          happiness: state.happiness,
+          energy: state.energy,
+          hunger: state.hunger,
+          cleanliness: state.cleanliness,
+          careCount: state.careCount,
+        }
+      : pet
+  );
+
+const pickNeeds = (state: PetNeeds): PetNeeds => ({
+  hunger: state.hunger,
+  energy: state.energy,
+  happiness: state.happiness,
+  cleanliness: state.cleanliness,
+});
+
+export const getAchievementSnapshot = (
+  state: Pick<
+    PetLoopState,
+    | 'level'
+    | 'streak'
+    | 'bestStreak'
+    | 'habitatTier'
+    | 'completionLog'
+    | 'completionJournal'
+    | 'todos'
+    | 'purchasedDecorations'
+    | 'petName'
+    | 'creature'
+    | 'xp'
+    | 'xpGoal'
+    | 'happiness'
+    | 'energy'
+    | 'hunger'
+    | 'cleanliness'
+    | 'careCount'
+    | 'pets'
+    | 'activePetId'
+  >,
+  todayKey: string = toDateKey()
+): AchievementSnapshot => ({
+  todayKey,
+  level: state.level,
+  streak: state.streak,
+  bestStreak: state.bestStreak,
+  habitatTier: state.habitatTier,
+  completionLog: state.completionLog,
+  completionJournal: state.completionJournal,
+  openQuadrants: state.todos
+    .filter((todo) => !todo.done && dayDifference(todo.startDate, todayKey) >= 0)
+    .map((todo) => resolveQuadrant(todo.importance, todo.urgency)),
+  purchasedDecorations: state.purchasedDecorations,
+  pets: getPetCollection(state),
+});
+
+interface AchievementAward {
+  ids: AchievementId[];
+  coins: number;
+  unlockedAchievements: UnlockedAchievement[];
+}
+
+// Achievements whose rule holds in `state` and that have not been awarded yet.
+const awardAchievements = (state: PetLoopState, unlockedAt: number): AchievementAward | null => {
+  const unlocked = findNewAchievements(
+    getAchievementSnapshot(state),
+    state.unlockedAchievements.map((entry) => entry.id)
+  );
+  if (unlocked.length === 0) {
+    return null;
+  }
+  return {
+    ids: unlocked.map((entry) => entry.id),
+    coins: unlocked.reduce((total, entry) => total + entry.rewardCoins, 0),
+    unlockedAchievements: [
+      ...state.unlockedAchievements,
+      ...unlocked.map((entry) => ({ id: entry.id, unlockedAt })),
+    ],
+  };
+};
+
+
+export const usePetLoopStore = create<PetLoopState>()(
+  persist(
+    (set, get) => ({
+      petName: DEFAULT_PET_NAMES[STARTER_CREATURE],
+      creature: 'chick',
+      level: 1,
+      xp: 0,
+      xpGoal: nextXpGoal(1),
+      coins: 40,
+      happiness: 72,
+      energy: 76,
+      hunger: DEFAULT_NEED_LEVEL,
+      cleanliness: DEFAULT_NEED_LEVEL,
+      needsClock: createNeedsClock(Date.now()),
+      careCount: 0,
+      pets: [
+        {
+          id: STARTER_PET_ID,
+          creature: STARTER_CREATURE,
+          name: DEFAULT_PET_NAMES[STARTER_CREATURE],
+          level: 1,
+          xp: 0,
+          xpGoal: nextXpGoal(1),
+          happiness: 72,
+          energy: 76,
+          hunger: DEFAULT_NEED_LEVEL,
+          cleanliness: DEFAULT_NEED_LEVEL,
+          careCount: 0,
+          adoptedAt: Date.now(),
+        },
+      ],
+      activePetId: STARTER_PET_ID,
+      habitatTier: 1,
+      streak: 0,
+      bestStreak: 0,
+      todos: [],
+      recurringTodos: [],
+      tags: [],
+      purchasedDecorations: [],
+      placedDecorations: [],
+      inventory: { ...STARTER_INVENTORY },
+      unlockedAchievements: [],
+      streakFreezes: 0,
+      streakCoveredThrough: null,
+      frozenDates: [],
+      vacation: null,
+      focusSettings: DEFAULT_FOCUS_SETTINGS,
+      activeFocus: null,
+      focusLog: [],
+      completionLog: {},
+      completionJournal: [],
+      journalRetentionDays: DEFAULT_JOURNAL_RETENTION_DAYS,
+      lastCompletedDate: null,
+      lastActiveDate: toDateKey(),
+      digestSettings: DEFAULT_DIGEST_SETTINGS,
+      needAlertsEnabled: false,
+      archivedTodos: [],
+      staleArchiveDays: DEFAULT_STALE_ARCHIVE_DAYS,
+      pendingRollover: null,
+      recentlyRemoved: null,
+
+      addTodo: (input) => {
+        const trimmed = input.title.trim();
+        if (!trimmed) {
+          return;
+        }
+
+        const repeat = input.repeat ? normalizeRepeatRule(input.repeat) : null;
+        if (!repeat) {
+          set((state) => ({
+            todos: [makeTodo({ ...input, title: trimmed }), ...state.todos],
+          }));
+          return;
+        }
+
+        set((state) =>
+          expandRecurringTodos(
+            [...state.recurringTodos, makeRecurringTodo({ ...input, title: trimmed }, repeat)],
+            state.todos,
+            toDateKey()
+          )
+        );
+      },
+
+      updateTodo: (id, patch) => {
+        set((state) => ({
+          todos: state.todos.map((todo) => (todo.id === id ? applyTodoPatch(todo, patch) : todo)),
+        }));
+      },
+
+      completeTodo: (id) => {
+        set((state) => applyTodoCompletion(state, id) ?? state);
+      },
+
+      uncompleteTodo: (id) => {
+        set((state) => {
+          const target = state.todos.find((todo) => todo.id === id);
+          const receipt = target?.completionReceipt;
+          if (!target || !target.done || !receipt) {
+            return state;
+          }
+
+          // A completion that came from checking the last subtask is undone together with
+          // that check, so the todo reopens with the progress it had before.
+          const finishingSubtask = receipt.subtaskId
+            ? target.subtasks.find((entry) => entry.id === receipt.subtaskId && entry.done)
+            : undefined;
+
+          // Growth that went to a pet which is no longer active stays with it;
+          // only the shared coins, logs and streaks are rolled back.
+          const samePet = receipt.petId === null || receipt.petId === state.activePetId;
+          const growth = samePet
+            ? revertGrowth(state.level, state.xp, receipt.xp + (finishingSubtask?.xpAwarded ?? 0))
+            : { level: state.level, xp: state.xp, xpGoal: state.xpGoal };
+          const remainingOnDay = Math.max((state.completionLog[receipt.dateKey] ?? 0) - 1, 0);
+          const nextCompletionLog = { ...state.completionLog };
+          if (remainingOnDay > 0) {
+            nextCompletionLog[receipt.dateKey] = remainingOnDay;
+          } else {
+            delete nextCompletionLog[receipt.dateKey];
+          }
+
+          const journalIndex = state.completionJournal
+            .map((entry) => entry.todoId === id && entry.dateKey === receipt.dateKey)
+            .lastIndexOf(true);
+          const nextJournal =
+            journalIndex < 0
+              ? state.completionJournal
+              : state.completionJournal.filter((_, index) => index !== journalIndex);
+
+          // The daily streak only moved if this was the first completion of its day.
+          const reopensDay = remainingOnDay === 0 && state.lastCompletedDate === receipt.dateKey;
+
+          const nextRecurringTodos = state.recurringTodos.map((series) =>
+            series.id === target.seriesId &&
+            series.lastCompletedOccurrence === target.startDate &&
+            receipt.seriesStreakBefore !== null
+              ? {
+                  ...series,
+                  streak: receipt.seriesStreakBefore,
+                  lastCompletedOccurrence: receipt.seriesLastCompletedBefore,
+                }
+              : series
+          );
 
           return {
-            energy: clamp(state.energy - daysPassed * 8, 0, MAX_STAT),
-            happiness: clamp(state.happiness - daysPassed * 6, 0, MAX_STAT),
-            streak: nextStreak,
-            todos: trimmedTodos,
-            lastActiveDate: today,
+            todos: state.todos.map((todo) =>
+              todo.id === id
+                ? {
+                    ...todo,
+                    done: false,
+                    completedAt: undefined,
+                    completionReceipt: undefined,
+                    subtasks: todo.subtasks.map((entry) =>
+                      entry === finishingSubtask
+                        ? { ...entry, done: false, xpAwarded: 0, coinsAwarded: 0 }
+                        : entry
+                    ),
+                  }
+                : todo
+            ),
+            recurringTodos: nextRecurringTodos,
+            level: growth.level,
+            xp: growth.xp,
+            xpGoal: growth.xpGoal,
+            coins: Math.max(
+              state.coins -
+                receipt.coins -
+                receipt.achievementCoins -
+                (finishingSubtask?.coinsAwarded ?? 0),
+              0
+            ),
+            unlockedAchievements: state.unlockedAchievements.filter(
+              (entry) => !receipt.achievementIds.includes(entry.id)
+            ),
+            happiness: samePet
+              ? clamp(state.happiness - receipt.happiness, 0, MAX_STAT)
+              : state.happiness,
+            energy: samePet ? clamp(state.energy - receipt.energy, 0, MAX_STAT) : state.energy,
+            habitatTier: Math.min(
+              state.habitatTier,
+              Math.max(receipt.habitatTierBefore, Math.floor((growth.level + 1) / 3))
+            ),
+            completionLog: nextCompletionLog,
+            completionJournal: nextJournal,
+            streak: reopensDay ? receipt.streakBefore : state.streak,
+            bestStreak:
+              reopensDay && receipt.bestStreakBefore !== null
+                ? receipt.bestStreakBefore
+                : state.bestStreak,
+            lastCompletedDate: reopensDay ? receipt.lastCompletedDateBefore : state.lastCompletedDate,
+            streakFreezes:
+              reopensDay && receipt.streakFreezesBefore !== null
+                ? receipt.streakFreezesBefore
+                : state.streakFreezes,
           };
         });
       },
 
-      careCreature: (action) => {
+      removeTodo: (id) => {
         set((state) => {
-          if (action === 'feed') {
-            if (state.coins < FEED_COST) {
-              return state;
-            }
+          const index = state.todos.findIndex((todo) => todo.id === id);
+          if (index < 0) {
+            return state;
+          }
+          return {
+            todos: state.todos.filter((todo) => todo.id !== id),
+            recentlyRemoved: { todo: state.todos[index], index },
+          };
+        });
+      },
+
+      undoRemoveTodo: () => {
+        set((state) => {
+          const snapshot = state.recentlyRemoved;
+          if (!snapshot || state.todos.some((todo) => todo.id === snapshot.todo.id)) {
+            return { recentlyRemoved: null };
+          }
+          const todos = [...state.todos];
+          todos.splice(Math.min(snapshot.index, todos.length), 0, snapshot.todo);
+          return { todos, recentlyRemoved: null };
+        });
+      },
+
+      addSubtask: (todoId, title) => {
+        const trimmed = title.trim();
+        if (!trimmed) {
+          return;
+        }
+        set((state) => ({
+          todos: state.todos.map((todo) =>
+            todo.id === todoId && !todo.done && todo.subtasks.length < MAX_SUBTASKS
+              ? { ...todo, subtasks: [...todo.subtasks, makeSubtask(trimmed)] }
+              : todo
+          ),
+        }));
+      },
+
+      removeSubtask: (todoId, subtaskId) => {
+        set((state) => {
+          const target = state.todos.find((todo) => todo.id === todoId);
+          const subtask = target?.subtasks.find((entry) => entry.id === subtaskId);
+          if (!target || target.done || !subtask) {
+            return state;
+          }
+
+          const growth = revertGrowth(state.level, state.xp, subtask.xpAwarded);
+          return {
+            todos: state.todos.map((todo) =>
+              todo.id === todoId
+                ? { ...todo, subtasks: todo.subtasks.filter((entry) => entry.id !== subtaskId) }
+                : todo
+            ),
+            level: growth.level,
+            xp: growth.xp,
+            xpGoal: growth.xpGoal,
+            coins: Math.max(state.coins - subtask.coinsAwarded, 0),
+          };
+        });
+      },
+
+      toggleSubtask: (todoId, subtaskId) => {
+        set((state) => {
+          const target = state.todos.find((todo) => todo.id === todoId);
+          const subtask = target?.subtasks.find((entry) => entry.id === subtaskId);
+          if (!target || target.done || !subtask) {
+            return state;
+          }
+
+          if (subtask.done) {
+            const growth = revertGrowth(state.level, state.xp, subtask.xpAwarded);
             return {
-              coins: state.coins - FEED_COST,
-              energy: clamp(state.energy + 22, 0, MAX_STAT),
-              happiness: clamp(state.happiness + 10, 0, MAX_STAT),
+              todos: state.todos.map((todo) =>
+                todo.id === todoId
+                  ? {
+                      ...todo,
+                      subtasks: todo.subtasks.map((entry) =>
+                        entry.id === subtaskId
+                          ? { ...entry, done: false, xpAwarded: 0, coinsAwarded: 0 }
+                          : entry
+                      ),
+                    }
+                  : todo
+              ),
+              level: growth.level,
+              xp: growth.xp,
+              xpGoal: growth.xpGoal,
+              coins: Math.max(state.coins - subtask.coinsAwarded, 0),
             };
           }
 
-          const growth = calculateGrowth(state.level, state.xp, state.xpGoal, 3);
-          return {
+          const earnedXp = subtaskXp(target);
+          const growth = calculateGrowth(state.level, state.xp, state.xpGoal, earnedXp);
+          const nextSubtasks = target.subtasks.map((entry) =>
+            entry.id === subtaskId
+              ? { ...entry, done: true, xpAwarded: earnedXp, coinsAwarded: growth.levelUpCoins }
+              : entry
+          );
+          const progressed: PetLoopState = {
+            ...state,
+            todos: state.todos.map((todo) =>
+              todo.id === todoId ? { ...todo, subtasks: nextSubtasks } : todo
+            ),
             level: growth.level,
             xp: growth.xp,
             xpGoal: growth.xpGoal,
             coins: state.coins + growth.levelUpCoins,
-            energy: clamp(state.energy - 7, 0, MAX_STAT),
-            happiness: clamp(state.happiness + 16, 0, MAX_STAT),
             habitatTier: Math.max(state.habitatTier, Math.floor((growth.level + 1) / 3)),
           };
+
+          if (nextSubtasks.every((entry) => entry.done)) {
+            return { ...progressed, ...applyTodoCompletion(progressed, todoId, subtaskId) };
+          }
+          return progressed;
         });
+        // Subtask XP alone can reach a level achievement.
+        get().evaluateAchievements();
       },
 
-      changeCreature: (creature) => {
-        set({ creature });
+      moveSubtask: (todoId, subtaskId, offset) => {
+        set((state) => ({
+          todos: state.todos.map((todo) => {
+            const index = todo.subtasks.findIndex((entry) => entry.id === subtaskId);
+            const nextIndex = index + offset;
+            if (todo.id !== todoId || index < 0 || nextIndex < 0 || nextIndex >= todo.subtasks.length) {
+              return todo;
+            }
+            const subtasks = [...todo.subtasks];
+            [subtasks[index], subtasks[nextIndex]] = [subtasks[nextIndex], subtasks[index]];
+            return { ...todo, subtasks };
+          }),
+        }));
       },
 
-      purchaseDecoration: (id, cost) => {
+      createTag: (name, color) => {
+        const trimmed = name.trim().slice(0, MAX_TAG_NAME_LENGTH);
         const current = get();
-        if (current.purchasedDecorations.includes(id) || current.coins < cost) {
+        if (!trimmed || current.tags.length >= MAX_TAGS) {
+          return null;
+        }
+        const existing = current.tags.find((tag) => tag.name === trimmed);
+        if (existing) {
+          return existing.id;
+        }
+
+        const tag: TodoTag = { id: `tag-${createId()}`, name: trimmed, color };
+        set((state) => ({
+          tags: [...state.tags, tag],
+        }));
+        return tag.id;
+      },
+
+      removeTag: (tagId) => {
+        const strip = <T extends { tagIds: string[] }>(item: T): T =>
+          item.tagIds.includes(tagId)
+            ? { ...item, tagIds: item.tagIds.filter((id) => id !== tagId) }
+            : item;
+        set((state) => ({
+          tags: state.tags.filter((tag) => tag.id !== tagId),
+          todos: state.todos.map(strip),
+          recurringTodos: state.recurringTodos.map(strip),
+          archivedTodos: state.archivedTodos.map((entry) => ({
+            ...entry,
+            todo: strip(entry.todo),
+          })),
+        }));
+      },
+
+      stopRecurringTodo: (seriesId) => {
+        set((state) => ({
+          recurringTodos: state.recurringTodos.filter((series) => series.id !== seriesId),
+          todos: state.todos.map((todo) =>
+            todo.seriesId === seriesId ? { ...todo, seriesId: null } : todo
+          ),
+        }));
+      },
+
+      setTodoPriority: (id, priority) => {
+        set((state) => ({
+          todos: state.todos.map((todo) =>
+            todo.id === id
+              ? {
+                  ...todo,
+                  importance: priority.importance ?? todo.importance,
+                  urgency: priority.urgency ?? todo.urgency,
+                }
+              : todo
+          ),
+        }));
+      },
+
+      setTodoQuadrant: (id, quadrant) => {
+        const flags = resolveFlagsByQuadrant(quadrant);
+        set((state) => ({
+          todos: state.todos.map((todo) =>
+            todo.id === id
+              ? {
+                  ...todo,
+                  ...flags,
+                }
+              : todo
+          ),
+        }));
+      },
+
+      setTodoReminder: (id, reminder) => {
+        const normalized = normalizeReminder(reminder);
+        set((state) => ({
+          todos: state.todos.map((todo) =>
+            todo.id === id
+              ? {
+                  ...todo,
+                  reminder: normalized,
+                }
+              : todo
+          ),
+        }));
+      },
+
+      runDailyTick: () => {
+        set((state) => {
+          const today = toDateKey(new Date());
+          if (state.lastActiveDate === today) {
+            return state;
+          }
+
+          const expanded = expandRecurringTodos(state.recurringTodos, state.todos, today);
+          const cutoffDays = state.staleArchiveDays;
+          const isStale = (todo: TodoItem) =>
+            cutoffDays !== null && isTodoStale(todo, cutoffDays, today, state.lastActiveDate);
+          const archivedAt = Date.now();
+          const keptTodos = expanded.todos.filter((todo) => !isStale(todo));
+
+          // Unfinished one-off todos whose deadline fell between the last visit and yesterday.
+          const rolloverIds = keptTodos
+            .filter((todo) => {
+              const deadline = getTodoDeadlineKey(todo);
+              return (
+                !todo.done &&
+                !todo.seriesId &&
+                deadline !== null &&
+                dayDifference(state.lastActiveDate, deadline) >= 0 &&
+                dayDifference(deadline, today) > 0
+              );
+            })
+            .map((todo) => todo.id);
+          const carriedIds = (state.pendingRollover?.todoIds ?? []).filter(
+            (id) => !rolloverIds.includes(id) && keptTodos.some((todo) => todo.id === id && !todo.done)
+          );
+          const pendingIds = [...carriedIds, ...rolloverIds];
+
+          const overdueCount = keptTodos.filter((todo) => isTodoOverdue(todo, today)).length;
+          const overduePenalty = isOnVacation(today, state.vacation)
+            ? 0
+            : Math.min(overdueCount * OVERDUE_HAPPINESS_PENALTY, MAX_OVERDUE_HAPPINESS_PENALTY);
+
+          const streakCheck = resolveStreak({
+            today,
+            streak: state.streak,
+            lastCompletedDate: state.lastCompletedDate,
+            coveredThrough: state.streakCoveredThrough,
+            freezes: state.streakFreezes,
+            vacation: state.vacation,
+          });
+
+          return {
+            happiness: clamp(state.happiness - overduePenalty, 0, MAX_STAT),
+            streak: streakCheck.streak,
+            streakCoveredThrough: streakCheck.coveredThrough,
+            streakFreezes: state.streakFreezes - streakCheck.freezesUsed,
+            frozenDates: [...state.frozenDates, ...streakCheck.frozenDates].filter(
+              (dateKey) => dayDifference(dateKey, today) <= FROZEN_DATE_RETENTION_DAYS
+            ),
+            // A vacation that has fully passed is cleared.
+            vacation:
+              state.vacation && dayDifference(state.vacation.end, today) > 0 ? null : state.vacation,
+            todos: keptTodos,
+            pendingRollover:
+              pendingIds.length > 0
+                ? {
+                    fromDate: state.pendingRollover?.fromDate ?? state.lastActiveDate,
+                    todoIds: pendingIds,
+                  }
+                : null,
+            archivedTodos: [
+              ...expanded.todos.filter(isStale).map((todo) => ({ todo, archivedAt })),
+              ...state.archivedTodos,
+            ],
+            recurringTodos: expanded.recurringTodos,
+            completionJournal: pruneJournal(
+              state.completionJournal,
+              state.journalRetentionDays,
+              today
+            ),
+            lastActiveDate: today,
+          };
+        });
+      },
+
+      tickNeeds: (now = Date.now()) => {
+        set((state) => {
+          const decayed = decayNeeds(
+            pickNeeds(state),
+            pauseClockForVacation(state.needsClock, now, state.vacation),
+            now,
+            getDecayIntervals(state.placedDecorations.map((entry) => entry.id))
+          );
+          return { ...decayed.needs, needsClock: decayed.clock };
+        });
+      },
+
+      buyItem: (id) => {
+        const current = get();
+        const item = getItem(id);
+        const owned = current.inventory[id] ?? 0;
+        if (!item || current.coins < item.cost || owned >= MAX_ITEM_STACK) {
           return false;
         }
 
+        set((state) => ({
+          coins: state.coins - item.cost,
+          inventory: { ...state.inventory, [id]: (state.inventory[id] ?? 0) + 1 },
+        }));
+        return true;
+      },
+
+      consumeItem: (id) => {
+        const current = get();
+        const item = getItem(id);
+        if (!item || (current.inventory[id] ?? 0) < 1) {
+          return false;
+        }
+
+        set((state) => {
+          const inventory = { ...state.inventory, [id]: (state.inventory[id] ?? 0) - 1 };
+          if (!inventory[id]) {
+            delete inventory[id];
+          }
+          const growth = calculateGrowth(state.level, state.xp, state.xpGoal, item.xp);
+          const applyEffect = (value: number, delta: number | undefined) =>
+            clamp(value + (delta ?? 0), 0, MAX_STAT);
+          return {
+            inventory,
+            hunger: applyEffect(state.hunger, item.effect.hunger),
+            energy: applyEffect(state.energy, item.effect.energy),
+            happiness: applyEffect(state.happiness, item.effect.happiness),
+            cleanliness: applyEffect(state.cleanliness, item.effect.cleanliness),
+            level: growth.level,
+            xp: growth.xp,
+            xpGoal: growth.xpGoal,
+            coins: state.coins + growth.levelUpCoins,
+            careCount: state.careCount + 1,
+            habitatTier: Math.max(state.habitatTier, Math.floor((growth.level + 1) / 3)),
+          };
+        });
+        get().evaluateAchievements();
+        return true;
+      },
+
+      adoptPet: (creature) => {
+        const current = get();
+        const unlock = getPetUnlockState(creature, getPetCollection(current), current.coins);
+        if (unlock === 'owned' || unlock === 'locked') {
+          return false;
+        }
+
+        const cost = unlock === 'buy' ? PET_UNLOCK_RULES[creature].coins ?? 0 : 0;
+        const pet: PetProfile = {
+          id: `pet-${createId()}`,
+          creature,
+          name: DEFAULT_PET_NAMES[creature],
+          level: 1,
+          xp: 0,
+          xpGoal: nextXpGoal(1),
+          happiness: 72,
+          energy: 76,
+          hunger: DEFAULT_NEED_LEVEL,
+          cleanliness: DEFAULT_NEED_LEVEL,
+          careCount: 0,
+          adoptedAt: Date.now(),
+        };
         set((state) => ({
           coins: state.coins - cost,
+          pets: [...state.pets, pet],
+        }));
+        get().evaluateAchievements();
+        return true;
+      },
+
+      switchPet: (petId) => {
+        set((state) => {
+          const target = state.pets.find((pet) => pet.id === petId);
+          if (!target || petId === state.activePetId) {
+            return state;
+          }
+          const now = Date.now();
+          const decayed = decayNeeds(
+            pickNeeds(state),
+            state.needsClock,
+            now,
+            getDecayIntervals(state.placedDecorations.map((entry) => entry.id))
+          );
+          return {
+            pets: getPetCollection({ ...state, ...decayed.needs }),
+            needsClock: createNeedsClock(now),
+            activePetId: target.id,
+            petName: target.name,
+            creature: target.creature,
+            level: target.level,
+            xp: target.xp,
+            xpGoal: target.xpGoal,
+            happiness: target.happiness,
+            energy: target.energy,
+            hunger: target.hunger,
+            cleanliness: target.cleanliness,
+            careCount: target.careCount,
+          };
+        });
+      },
+
+      purchaseDecoration: (id) => {
+        const current = get();
+        const item = DECORATION_CATALOG.find((entry) => entry.id === id);
+        if (
+          !item ||
+          current.purchasedDecorations.includes(id) ||
+          current.coins < item.cost ||
+          current.habitatTier < item.minHabitatTier
+        ) {
+          return false;
+        }
+
+        set((state) => ({
+          coins: state.coins - item.cost,
           happiness: clamp(state.happiness + 4, 0, MAX_STAT),
           purchasedDecorations: [...state.purchasedDecorations, id],
         }));
+        get().evaluateAchievements();
         return true;
       },
 
+      placeDecoration: (id, x, y) => {
+        set((state) => {
+          if (!state.purchasedDecorations.includes(id)) {
+            return state;
+          }
+          const placed = { id, x: clamp(x, 0, 1), y: clamp(y, 0, 1) };
+          return {
+            placedDecorations: [
+              ...state.placedDecorations.filter((entry) => entry.id !== id),
+              placed,
+            ],
+          };
+        });
+      },
+
+      storeDecoration: (id) => {
+        set((state) => ({
+          placedDecorations: state.placedDecorations.filter((entry) => entry.id !== id),
+        }));
+      },
+
       seedStarterTodos: (dateKey = toDateKey()) => {
         set((state) => {
           const existingTitleSet = new Set(
@@ -496,53 +2442,289 @@ export const usePetLoopStore = create<PetLoopState>()(
           };
         });
       },
+
+      setDigestSettings: (patch) => {
+        set((state) => ({
+          digestSettings: normalizeDigestSettings(
+            { ...state.digestSettings, ...patch },
+            state.digestSettings
+          ),
+        }));
+      },
+
+      setNeedAlertsEnabled: (enabled) => {
+        set({ needAlertsEnabled: enabled });
+      },
+
+      // Turning the cutoff on or shortening it sweeps the whole list once, unlike the daily tick.
+      setStaleArchiveDays: (days) => {
+        const cutoffDays = days === null ? null : Math.max(Math.round(days), 1);
+        set((state) => {
+          if (cutoffDays === null) {
+            return { staleArchiveDays: null };
+          }
+          const today = toDateKey();
+          const archivedAt = Date.now();
+          const stale = state.todos.filter((todo) => isTodoStale(todo, cutoffDays, today));
+          return {
+            staleArchiveDays: cutoffDays,
+            todos: state.todos.filter((todo) => !stale.includes(todo)),
+            archivedTodos: [
+              ...stale.map((todo) => ({ todo, archivedAt })),
+              ...state.archivedTodos,
+            ],
+          };
+        });
+      },
+
+      restoreArchivedTodos: (ids) => {
+        set((state) => {
+          const restored = state.archivedTodos.filter((entry) => ids.includes(entry.todo.id));
+          return {
+            archivedTodos: state.archivedTodos.filter((entry) => !ids.includes(entry.todo.id)),
+            todos: [...restored.map((entry) => entry.todo), ...state.todos],
+          };
+        });
+      },
+
+      rescheduleArchivedTodos: (ids, dateKey) => {
+        if (!isValidDateKey(dateKey)) {
+          return;
+        }
+        set((state) => {
+          const restored = state.archivedTodos.filter((entry) => ids.includes(entry.todo.id));
+          return {
+            archivedTodos: state.archivedTodos.filter((entry) => !ids.includes(entry.todo.id)),
+            todos: [...restored.map((entry) => rescheduleTodo(entry.todo, dateKey)), ...state.todos],
+          };
+        });
+      },
+
+      discardArchivedTodos: (ids) => {
+        set((state) => ({
+          archivedTodos: state.archivedTodos.filter((entry) => !ids.includes(entry.todo.id)),
+        }));
+      },
+
+      rollOverTodos: (ids, dateKey) => {
+        if (!isValidDateKey(dateKey)) {
+          return;
+        }
+        set((state) => ({
+          todos: state.todos.map((todo) =>
+            ids.includes(todo.id) && !todo.done ? rescheduleTodo(todo, dateKey) : todo
+          ),
+          pendingRollover: null,
+        }));
+      },
+
+      dismissRollover: () => {
+        set({ pendingRollover: null });
+      },
+
+      buyStreakFreeze: () => {
+        const current = get();
+        if (current.coins < STREAK_FREEZE_COST || current.streakFreezes >= MAX_STREAK_FREEZES) {
+          return false;
+        }
+        set((state) => ({
+          coins: state.coins - STREAK_FREEZE_COST,
+          streakFreezes: state.streakFreezes + 1,
+        }));
+        return true;
+      },
+
+      setVacation: (range) => {
+        if (range && !isValidVacation(range)) {
+          return false;
+        }
+        // Settle decay up to now so the pause starts from current values.
+        get().tickNeeds();
+        set({ vacation: range });
+        return true;
+      },
+
+      setFocusSettings: (patch) => {
+        set((state) => ({
+          focusSettings: normalizeFocusSettings({ ...state.focusSettings, ...patch }),
+        }));
+      },
+
+      startFocus: (todoId, now = Date.now()) => {
+        const current = get();
+        const target = current.todos.find((todo) => todo.id === todoId);
+        if (!target || target.done) {
+          return false;
+        }
+        // Whatever was running is settled first, so a finished work phase is not lost.
+        current.advanceFocus(now);
+        set((state) => ({ activeFocus: createFocusSession(todoId, state.focusSettings, now) }));
+        return true;
+      },
+
+      stopFocus: () => {
+        set({ activeFocus: null });
+      },
+
+      advanceFocus: (now = Date.now()) => {
+        const current = get();
+        const session = current.activeFocus;
+        if (!session || now < session.endsAt) {
+          return null;
+        }
+        if (session.phase === 'break' || !current.todos.some((todo) => todo.id === session.todoId)) {
+          set({ activeFocus: null });
+          return null;
+        }
+
+        const completedAt = getWorkEndsAt(session);
+        const breakEndsAt = getBreakEndsAt(session);
+        const entry: FocusLogEntry = {
+          id: `focus-${createId()}`,
+          todoId: session.todoId,
+          dateKey: toDateKey(new Date(completedAt)),
+          workMinutes: session.workMinutes,
+          xp: getFocusBonusXp(session.workMinutes),
+          completedAt,
+        };
+        set((state) => {
+          const growth = calculateGrowth(state.level, state.xp, state.xpGoal, entry.xp);
+          return {
+            level: growth.level,
+            xp: growth.xp,
+            xpGoal: growth.xpGoal,
+            coins: state.coins + growth.levelUpCoins,
+            habitatTier: Math.max(state.habitatTier, Math.floor((growth.level + 1) / 3)),
+            focusLog: [...state.focusLog, entry].slice(-MAX_FOCUS_LOG_ENTRIES),
+            // The break is skipped when the app only hears about the session after it ended.
+            activeFocus:
+              breakEndsAt > now ? { ...session, phase: 'break', endsAt: breakEndsAt } : null,
+          };
+        });
+        get().evaluateAchievements();
+        return entry;
+      },
+
+      evaluateAchievements: () => {
+        const award = awardAchievements(get(), Date.now());
+        if (!award) {
+          return [];
+        }
+
+        set((state) => ({
+          coins: state.coins + award.coins,
+          unlockedAchievements: award.unlockedAchievements,
+        }));
+        return award.ids;
+      },
+
+      setJournalRetention: (days) => {
+        const retentionDays = days === null ? null : Math.max(Math.round(days), 1);
+        set((state) => ({
+          journalRetentionDays: retentionDays,
+          completionJournal: pruneJournal(state.completionJournal, retentionDays),
+        }));
+      },
     }),
     {
-      name: 'pet-loop-storage',
-      version: 2,
-      storage: createJSONStorage(() => AsyncStorage),
+      name: PET_LOOP_STORAGE_KEY,
+      version: PET_LOOP_SCHEMA_VERSION,
+      storage: createQuarantiningStorage<PersistedPetLoopData>(),
       partialize: (state) => ({
         petName: state.petName,
         creature: state.creature,
+        pets: getPetCollection(state),
+        activePetId: state.activePetId,
         level: state.level,
         xp: state.xp,
         xpGoal: state.xpGoal,
         coins: state.coins,
         happiness: state.happiness,
         energy: state.energy,
+        hunger: state.hunger,
+        cleanliness: state.cleanliness,
+        needsClock: state.needsClock,
+        careCount: state.careCount,
         habitatTier: state.habitatTier,
         streak: state.streak,
+        bestStreak: state.bestStreak,
         todos: state.todos,
+        recurringTodos: state.recurringTodos,
+        tags: state.tags,
         purchasedDecorations: state.purchasedDecorations,
+        placedDecorations: state.placedDecorations,
+        inventory: state.inventory,
+        unlockedAchievements: state.unlockedAchievements,
+        streakFreezes: state.streakFreezes,
+        streakCoveredThrough: state.streakCoveredThrough,
+        frozenDates: state.frozenDates,
+        vacation: state.vacation,
+        focusSettings: state.focusSettings,
+        activeFocus: state.activeFocus,
+        focusLog: state.focusLog,
         completionLog: state.completionLog,
+        completionJournal: state.completionJournal,
+        journalRetentionDays: state.journalRetentionDays,
+        archivedTodos: state.archivedTodos,
+        staleArchiveDays: state.staleArchiveDays,
+        pendingRollover: state.pendingRollover,
         lastCompletedDate: state.lastCompletedDate,
         lastActiveDate: state.lastActiveDate,
+        digestSettings: state.digestSettings,
+        needAlertsEnabled: state.needAlertsEnabled,
       }),
-      migrate: (persistedState: unknown) => {
-        if (!persistedState || typeof persistedState !== 'object') {
-          return persistedState as never;
+      // Synchronous on purpose: zustand 4 passes migrate's return value to merge without
+      // awaiting it. Backups are written before the store's next write to the same key.
+      migrate: (persistedState: unknown, version: number) => {
+        // Blobs from a newer build are kept aside before being read with this schema.
+        if (version > PET_LOOP_SCHEMA_VERSION) {
+          void quarantineBlob(
+            PET_LOOP_STORAGE_KEY,
+            JSON.stringify({ state: persistedState, version })
+          );
         }
 
-        const state = persistedState as PersistedPetLoopData;
-        const today = toDateKey();
-        return {
-          ...state,
-          todos: Array.isArray(state.todos)
-            ? state.todos.map((todo, index) => normalizePersistedTodo(todo, index))
-            : [],
-          lastActiveDate: normalizeDateKey(
-            typeof state.lastActiveDate === 'string' ? state.lastActiveDate : null,
-            today
-          ),
-          lastCompletedDate:
-            typeof state.lastCompletedDate === 'string' && isValidDateKey(state.lastCompletedDate)
-              ? state.lastCompletedDate
-              : null,
-        } as never;
+        try {
+          return migratePetLoopState(persistedState, version) as never;
+        } catch {
+          // The unreadable blob is kept under a quarantine key; the app starts fresh.
+          void quarantineBlob(
+            PET_LOOP_STORAGE_KEY,
+            JSON.stringify({ state: persistedState, version })
+          );
+          return undefined as never;
+        }
+      },
+      // migrate only runs when the stored version differs, so a blob saved at the current
+      // version is sanitized here before it reaches the state.
+      merge: (persistedState, currentState) => {
+        if (persistedState === undefined) {
+          return currentState;
+        }
+        try {
+          return {
+            ...currentState,
+            ...migratePetLoopState(persistedState, PET_LOOP_SCHEMA_VERSION),
+          };
+        } catch {
+          void quarantineBlob(
+            PET_LOOP_STORAGE_KEY,
+            JSON.stringify({ state: persistedState, version: PET_LOOP_SCHEMA_VERSION })
+          );
+          return currentState;
+        }
       },
       onRehydrateStorage: () => (state) => {
+        state?.tickNeeds();
+        state?.advanceFocus();
         state?.runDailyTick();
       },
     }
   )
 );
+
+// Progress saved before achievements existed is awarded once the persisted state is back.
+// After that, only the actions that can unlock something evaluate them.
+usePetLoopStore.persist.onFinishHydration((state) => {
+  state.evaluateAchievements();
+});